@@ -0,0 +1,26 @@
+import * as p from "@clack/prompts";
+import { clearCache, countCachedResponses, getCacheDir } from "../shared/llm-cache.js";
+
+/**
+ * `cache` command. `cache clear` deletes every cached LLM response; plain `cache` shows where the
+ * cache lives and how many responses it holds.
+ */
+export const runCache = async (action?: string): Promise<void> => {
+	const dir = getCacheDir();
+
+	if (action === "clear") {
+		const removed = await clearCache(dir);
+		p.log.success(`Removed ${removed} cached response${removed === 1 ? "" : "s"} from ${dir}`);
+		return;
+	}
+
+	if (action) {
+		p.log.error(`Unknown cache action "${action}". Use: cache clear`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const count = await countCachedResponses(dir);
+	p.log.info(`LLM cache: ${dir} (${count} response${count === 1 ? "" : "s"})`);
+	p.log.message("Run `cache clear` to empty it, or pass --no-cache to bypass it for one run.");
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { dropOrder, fitToBudget, formatTokenTable, rulePriority, ruleTokenTable } from "../budget.js";
+import { estimateTokens } from "../composer.js";
+import { TOKENIZERS } from "../../shared/tokenizer.js";
+import type { RuleFile } from "../../shared/types.js";
+
+const makeRule = (overrides: Partial<RuleFile> = {}): RuleFile => ({
+	path: "/fake/path/rule.mdc",
+	name: "test-rule",
+	description: "A test rule",
+	body: "# Test Rule\n\nSome content.",
+	rawContent: "# Test Rule\n\nSome content.",
+	source: "agents-repo",
+	type: "rule",
+	hasPlaceholders: false,
+	...overrides,
+});
+
+const withBody = (name: string, body: string, overrides: Partial<RuleFile> = {}) =>
+	makeRule({ name, body, rawContent: body, ...overrides });
+
+describe("ruleTokenTable", () => {
+	it("sorts rules by cost and reports their share", () => {
+		const rules = [withBody("01-small", "Tiny."), withBody("02-large", "word ".repeat(60))];
+		const rows = ruleTokenTable(rules, "cursor");
+
+		expect(rows.map((r) => r.name)).toEqual(["02-large", "01-small"]);
+		expect(rows[0]!.tokens).toBeGreaterThan(rows[1]!.tokens);
+		expect(rows.reduce((sum, r) => sum + r.share, 0)).toBeCloseTo(1);
+	});
+
+	it("counts resolved placeholders and ignores frontmatter", () => {
+		const rule = withBody("r", "See {{RULES_DIR}}.", {
+			rawContent:
+				"---\ndescription: a long description that should not be counted at all\n---\n\nSee {{RULES_DIR}}.",
+		});
+		const [row] = ruleTokenTable([rule], "cursor");
+		expect(row!.tokens).toBe(estimateTokens("See .cursor/rules/."));
+	});
+});
+
+describe("formatTokenTable", () => {
+	it("aligns rows and ends with the total against the budget", () => {
+		const lines = formatTokenTable(
+			[
+				{ name: "05-workspace", tokens: 600, share: 0.75 },
+				{ name: "01-id", tokens: 200, share: 0.25 },
+			],
+			820,
+			700,
+		);
+		expect(lines[1]).toBe("05-workspace     600  75.0%");
+		expect(lines[2]).toBe("01-id            200  25.0%");
+		expect(lines[3]).toContain("Composed document: 820 tokens / 700 budget");
+		expect(formatTokenTable([], 820, undefined, TOKENIZERS.claude).at(-1)).toContain("~820 tokens");
+	});
+});
+
+describe("dropOrder", () => {
+	it("drops the highest priority number first, later rules first on ties", () => {
+		const rules = [
+			withBody("01-core", "a"),
+			withBody("plain", "b"),
+			withBody("10-style", "c"),
+			withBody("02-extra", "d", { priority: 50 }),
+			withBody("10-tail", "e"),
+		];
+		expect(rules.map(rulePriority)).toEqual([1, 0, 10, 50, 10]);
+		expect(dropOrder(rules).map((r) => r.name)).toEqual(["02-extra", "10-tail", "10-style", "01-core", "plain"]);
+	});
+});
+
+describe("fitToBudget", () => {
+	const composeRules = async (rules: RuleFile[]) => ({ content: rules.map((r) => r.body).join("\n\n") });
+	const rules = [
+		withBody("01-core", "core ".repeat(20)),
+		withBody("50-nice", "nice ".repeat(20)),
+		withBody("99-extra", "extra ".repeat(20)),
+	];
+
+	it("leaves out lowest-priority rules until the document fits", async () => {
+		const budget = estimateTokens((await composeRules(rules.slice(0, 2))).content);
+		const fitted = await fitToBudget(rules, budget, composeRules);
+
+		expect(fitted.dropped.map((r) => r.name)).toEqual(["99-extra"]);
+		expect(fitted.kept.map((r) => r.name)).toEqual(["01-core", "50-nice"]);
+		expect(fitted.tokens).toBe(budget);
+	});
+
+	it("keeps at least one rule", async () => {
+		const fitted = await fitToBudget(rules, 1, composeRules);
+		expect(fitted.kept.map((r) => r.name)).toEqual(["01-core"]);
+		expect(fitted.tokens).toBeGreaterThan(1);
+	});
+
+	it("drops nothing when already within budget", async () => {
+		const fitted = await fitToBudget(rules, 10_000, composeRules);
+		expect(fitted.dropped).toEqual([]);
+		expect(fitted.kept).toBe(rules);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { writeFile, mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { findStaleFiles } from "../check.js";
+import { renderVariants, generateVariants } from "../variants.js";
+
+describe("findStaleFiles", () => {
+	const tmpDir = join(tmpdir(), "arc-test-check");
+
+	beforeEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+		await mkdir(tmpDir, { recursive: true });
+	});
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("reports nothing when disk matches", async () => {
+		const path = join(tmpDir, "AGENTS.md");
+		await writeFile(path, "# Rules\n", "utf-8");
+		expect(await findStaleFiles([{ path, content: "# Rules\n" }], [], tmpDir)).toEqual([]);
+	});
+
+	it("reports missing files with a diff from /dev/null", async () => {
+		const path = join(tmpDir, "AGENTS.md");
+		const [stale] = await findStaleFiles([{ path, content: "# Rules\n" }], [], tmpDir);
+		expect(stale?.status).toBe("missing");
+		expect(stale?.diff).toContain("--- /dev/null");
+		expect(stale?.diff).toContain("+# Rules");
+	});
+
+	it("reports modified files with a cwd-relative unified diff", async () => {
+		const path = join(tmpDir, "AGENTS.md");
+		await writeFile(path, "# Rules\n\nOld line.\n", "utf-8");
+		const [stale] = await findStaleFiles([{ path, content: "# Rules\n\nNew line.\n" }], [], tmpDir);
+		expect(stale?.status).toBe("modified");
+		expect(stale?.diff).toContain("--- a/AGENTS.md");
+		expect(stale?.diff).toContain("-Old line.");
+		expect(stale?.diff).toContain("+New line.");
+	});
+
+	it("compares byte-for-byte, including trailing newlines", async () => {
+		const path = join(tmpDir, "AGENTS.md");
+		await writeFile(path, "# Rules", "utf-8");
+		const [stale] = await findStaleFiles([{ path, content: "# Rules\n" }], [], tmpDir);
+		expect(stale?.status).toBe("modified");
+	});
+
+	it("reports files in owned directories that are no longer generated", async () => {
+		const owned = join(tmpDir, "coding-tools", "claude");
+		await mkdir(join(owned, "rules"), { recursive: true });
+		await writeFile(join(owned, "rules", "kept.md"), "kept\n", "utf-8");
+		await writeFile(join(owned, "rules", "removed.md"), "gone\n", "utf-8");
+
+		const stale = await findStaleFiles(
+			[{ path: join(owned, "rules", "kept.md"), content: "kept\n" }],
+			[owned],
+			tmpDir,
+		);
+		expect(stale.map((s) => [s.status, s.path])).toEqual([["extra", join(owned, "rules", "removed.md")]]);
+		expect(stale[0]?.diff).toContain("+++ /dev/null");
+	});
+
+	it("matches freshly generated variants and catches source edits", async () => {
+		const rulesDir = join(tmpDir, "rules");
+		const skillsDir = join(tmpDir, "skills");
+		const outputDir = join(tmpDir, "coding-tools");
+		await mkdir(rulesDir, { recursive: true });
+		await writeFile(
+			join(rulesDir, "a.mdc"),
+			"---\ndescription: A\nalwaysApply: true\n---\n\n# A\n\nBody.",
+			"utf-8",
+		);
+		await generateVariants(rulesDir, skillsDir, outputDir, ["cursor", "claude"], false);
+
+		const render = () => renderVariants(rulesDir, skillsDir, outputDir, ["cursor", "claude"], false);
+		let variants = await render();
+		expect(
+			await findStaleFiles(
+				variants.flatMap((v) => v.files),
+				variants.map((v) => v.dir),
+				tmpDir,
+			),
+		).toEqual([]);
+
+		await writeFile(
+			join(rulesDir, "a.mdc"),
+			"---\ndescription: A\nalwaysApply: true\n---\n\n# A\n\nEdited.",
+			"utf-8",
+		);
+		variants = await render();
+		const stale = await findStaleFiles(
+			variants.flatMap((v) => v.files),
+			variants.map((v) => v.dir),
+			tmpDir,
+		);
+		expect(stale.map((s) => s.status)).toEqual(["modified", "modified"]);
+	});
+});
@@ -6,7 +6,9 @@ import {
 	addSectionNumbers,
 	incrementHeadings,
 	injectGlobAnnotation,
+	injectActivationAnnotation,
 	injectTypeAnnotation,
+	injectSourceAnnotations,
 } from "../composer.js";
 import type { RuleFile } from "../../shared/types.js";
 
@@ -98,7 +100,7 @@ describe("compose", () => {
 			makeRule({ body: "Rule B", rawContent: "Rule B" }),
 		];
 
-		const { content } = await compose(rules, "cursor");
+		const { content } = await compose(rules, "cursor", { embedFrontmatter: false });
 		expect(content).toBe("Rule A\n\nRule B\n");
 	});
 
@@ -210,6 +212,16 @@ describe("injectGlobAnnotation", () => {
 	});
 });
 
+describe("injectActivationAnnotation", () => {
+	it("uses > [!globs] for auto rules and > [!activation] for agent and manual rules", () => {
+		const body = "## Rule\n\nContent.";
+		expect(injectActivationAnnotation(body, "always", "*.ts")).toBe(body);
+		expect(injectActivationAnnotation(body, "auto", "*.ts")).toBe("## Rule\n\n> [!globs] *.ts\n\nContent.");
+		expect(injectActivationAnnotation(body, "agent")).toBe("## Rule\n\n> [!activation] agent\n\nContent.");
+		expect(injectActivationAnnotation(body, "manual")).toBe("## Rule\n\n> [!activation] manual\n\nContent.");
+	});
+});
+
 describe("compose glob embedding", () => {
 	it("embeds glob annotations for scoped rules", async () => {
 		const rules = [
@@ -247,6 +259,20 @@ describe("compose glob embedding", () => {
 		const { content } = await compose(rules, "cursor", { embedGlobs: false });
 		expect(content).not.toContain("[!globs]");
 	});
+
+	it("infers the activation when a rule does not carry one", async () => {
+		const rules = [
+			makeRule({
+				body: "# Deploy\n\nSteps.",
+				rawContent: "# Deploy\n\nSteps.",
+				description: "Use when deploying",
+				alwaysApply: false,
+			}),
+		];
+
+		const { content } = await compose(rules, "cursor", { embedFrontmatter: false });
+		expect(content).toBe("## Deploy\n\n> [!activation] agent\n\nSteps.\n");
+	});
 });
 
 describe("injectTypeAnnotation", () => {
@@ -292,6 +318,45 @@ describe("compose type embedding", () => {
 	});
 });
 
+describe("injectSourceAnnotations", () => {
+	it("injects > [!name] and the frontmatter as JSON after the first heading", () => {
+		expect(
+			injectSourceAnnotations("# Rule\n\nContent.", "01-rule", { description: "Rule", alwaysApply: true }),
+		).toBe(
+			'# Rule\n\n> [!name] 01-rule\n\n> [!frontmatter] `{"description":"Rule","alwaysApply":true}`\n\nContent.',
+		);
+	});
+
+	it("omits > [!frontmatter] for rules without frontmatter", () => {
+		expect(injectSourceAnnotations("# Rule\n\nContent.", "rule", {})).toBe("# Rule\n\n> [!name] rule\n\nContent.");
+	});
+});
+
+describe("compose frontmatter embedding", () => {
+	it("embeds every frontmatter field in its original order, with the full description", async () => {
+		const description =
+			"A long description that goes well past the old one hundred and twenty character limit, so it has to survive in full";
+		const rules = [
+			makeRule({
+				name: "03-deploy",
+				rawContent: `---\nname: deploy\ndescription: ${description}\ndisable-model-invocation: true\n---\n\n# Deploy\n\nShip it.`,
+			}),
+		];
+
+		const { content } = await compose(rules, "cursor", { embedFrontmatter: true });
+		expect(content).toContain("> [!name] 03-deploy");
+		expect(content).toContain(
+			`> [!frontmatter] \`{"name":"deploy","description":"${description}","disable-model-invocation":true}\``,
+		);
+	});
+
+	it("skips name and frontmatter callouts unless embedFrontmatter is set", async () => {
+		const { content } = await compose([makeRule()], "cursor");
+		expect(content).not.toContain("[!name]");
+		expect(content).not.toContain("[!frontmatter]");
+	});
+});
+
 describe("compose link resolution", () => {
 	it("resolves relative rule links to hash anchors when numbered", async () => {
 		const rules = [
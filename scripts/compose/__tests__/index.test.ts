@@ -1,6 +1,17 @@
-import { describe, it, expect } from "vitest";
-import { buildComposeSources } from "../index.js";
-import type { DiscoveredSource } from "../../shared/types.js";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as p from "@clack/prompts";
+import {
+	buildComposeSources,
+	filterRules,
+	orderRules,
+	parseOutputTarget,
+	defaultOutputTarget,
+	manifestProfileToOptions,
+	mergeComposeOptions,
+	runCompose,
+	selectableSources,
+} from "../index.js";
+import type { DiscoveredSource, RuleFile, ToolId } from "../../shared/types.js";
 
 const makeSource = (id: string, ruleCount: number): DiscoveredSource => ({
 	id: id as DiscoveredSource["id"],
@@ -77,3 +88,141 @@ describe("buildComposeSources", () => {
 		expect(sources[0]!.id).toBe("bundled");
 	});
 });
+
+describe("selectableSources", () => {
+	const sources = [makeSource("cursor", 2), makeSource("agents-repo", 3), makeSource("bundled", 10)];
+
+	it("leaves the bundled rules out when no include glob is given", () => {
+		expect(selectableSources(sources).map((s) => s.id)).toEqual(["cursor", "agents-repo"]);
+		expect(selectableSources([makeSource("bundled", 10)], [])).toEqual([]);
+	});
+
+	it("draws from every source, bundled included, with an include glob", () => {
+		expect(selectableSources(sources, ["01-*"]).map((s) => s.id)).toEqual(["cursor", "agents-repo", "bundled"]);
+	});
+});
+
+const makeRule = (name: string, path = `/repo/rules/${name}.mdc`): RuleFile => ({
+	path,
+	name,
+	description: "",
+	body: "",
+	rawContent: "",
+	source: "agents-repo",
+	type: "rule",
+	hasPlaceholders: false,
+});
+
+describe("filterRules", () => {
+	const rules = [
+		makeRule("01-approach"),
+		makeRule("02-testing"),
+		makeRule("organize-commits", "/repo/skills/organize-commits/SKILL.md"),
+	];
+
+	it("returns all rules when no globs are given", () => {
+		expect(filterRules(rules)).toHaveLength(3);
+	});
+
+	it("keeps rules whose name or path matches an include glob", () => {
+		expect(filterRules(rules, ["01-*"]).map((r) => r.name)).toEqual(["01-approach"]);
+		expect(filterRules(rules, ["skills/**"]).map((r) => r.name)).toEqual(["organize-commits"]);
+	});
+
+	it("drops rules matching an exclude glob, even when included", () => {
+		expect(filterRules(rules, ["rules/*.mdc"], ["*-testing"]).map((r) => r.name)).toEqual(["01-approach"]);
+	});
+});
+
+describe("orderRules", () => {
+	const rules = [makeRule("a"), makeRule("b"), makeRule("c")];
+
+	it("orders by names and 1-based positions, appending unlisted rules", () => {
+		expect(orderRules(rules, ["c", "1"]).map((r) => r.name)).toEqual(["c", "a", "b"]);
+	});
+
+	it("throws on unknown or duplicate entries", () => {
+		expect(() => orderRules(rules, ["missing"])).toThrow(/Unknown rule/);
+		expect(() => orderRules(rules, ["4"])).toThrow(/Unknown rule/);
+		expect(() => orderRules(rules, ["a", "1"])).toThrow(/listed twice/);
+	});
+});
+
+describe("parseOutputTarget", () => {
+	it("parses single files, directories, and dir:<tool> specs", () => {
+		expect(parseOutputTarget("AGENTS.md", "cursor")).toEqual({ kind: "single-file", path: "AGENTS.md" });
+		expect(parseOutputTarget("out/rules/", "claude")).toEqual({
+			kind: "directory",
+			dir: "out/rules/",
+			tool: "claude",
+		});
+		expect(parseOutputTarget("dir:cursor", "claude")).toEqual({
+			kind: "directory",
+			dir: ".cursor/rules/",
+			tool: "cursor",
+		});
+	});
+
+	it("throws for tools without a rules directory", () => {
+		expect(() => parseOutputTarget("dir:zed", "cursor")).toThrow(/No rules directory/);
+		expect(() => parseOutputTarget("dir:nope", "cursor")).toThrow(/No rules directory/);
+	});
+});
+
+describe("defaultOutputTarget", () => {
+	it("uses the tool's rules directory, falling back to AGENTS.md", () => {
+		expect(defaultOutputTarget("cursor")).toEqual({ kind: "directory", dir: ".cursor/rules/", tool: "cursor" });
+		expect(defaultOutputTarget("aider")).toEqual({ kind: "single-file", path: "AGENTS.md" });
+	});
+});
+
+describe("manifestProfileToOptions", () => {
+	it("maps profile fields to CLI options, splitting numbering from compose options", () => {
+		const { sources, options } = manifestProfileToOptions(
+			{
+				sources: ["rules/"],
+				tool: "claude",
+				options: { numbered: false, embedGlobs: false },
+				targets: ["CLAUDE.md", "dir:cursor"],
+				maxTokens: 15000,
+				overBudget: "drop",
+				tokenizer: "cl100k",
+			},
+			"/repo/config/rule-composer.config.json",
+			"/repo",
+		);
+		expect(sources).toEqual(["config/rules/"]);
+		expect(options.tool).toBe("claude");
+		expect(options.numbered).toBe(false);
+		expect(options.composeOptions).toEqual({ embedGlobs: false });
+		expect(options.targets).toEqual(["config/CLAUDE.md", "dir:cursor"]);
+		expect(options.maxTokens).toBe(15000);
+		expect(options.overBudget).toBe("drop");
+		expect(options.tokenizer).toBe("cl100k");
+		expect(options.yes).toBe(true);
+	});
+});
+
+describe("mergeComposeOptions", () => {
+	it("overrides with set flags, ignoring unset values, empty arrays, and yes: false", () => {
+		const merged = mergeComposeOptions(
+			{ tool: "claude", include: ["a"], numbered: true, yes: true },
+			{ tool: "cursor", include: [], numbered: undefined, yes: false, exclude: ["b"] },
+		);
+		expect(merged).toEqual({ tool: "cursor", include: ["a"], numbered: true, yes: true, exclude: ["b"] });
+	});
+});
+
+describe("runCompose errors", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		process.exitCode = undefined;
+	});
+
+	it("logs the error and exits with code 1", async () => {
+		const error = vi.spyOn(p.log, "error").mockImplementation(() => {});
+		await runCompose(undefined, undefined, { tool: "nope" as ToolId, yes: true });
+		expect(error).toHaveBeenCalledWith("Unknown tool: nope");
+		expect(process.exitCode).toBe(1);
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+	loadComposeManifest,
+	parseComposeManifest,
+	resolveManifestProfiles,
+	resolveManifestPath,
+	DEFAULT_PROFILE,
+} from "../manifest.js";
+
+const tmpDir = join(tmpdir(), "arc-test-manifest");
+
+describe("loadComposeManifest", () => {
+	beforeAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+		await mkdir(join(tmpDir, "json"), { recursive: true });
+		await mkdir(join(tmpDir, "yaml"), { recursive: true });
+		await mkdir(join(tmpDir, "invalid"), { recursive: true });
+		await mkdir(join(tmpDir, "empty"), { recursive: true });
+		await writeFile(
+			join(tmpDir, "json", "rule-composer.config.json"),
+			JSON.stringify({ tool: "claude", targets: ["CLAUDE.md"] }),
+		);
+		await writeFile(
+			join(tmpDir, "yaml", "rule-composer.config.yaml"),
+			["tool: cursor", "profiles:", "  backend:", "    include:", '      - "rules/*"'].join("\n"),
+		);
+		await writeFile(join(tmpDir, "invalid", "rule-composer.config.json"), JSON.stringify({ tool: "vim" }));
+		await mkdir(join(tmpDir, "ts"), { recursive: true });
+		await writeFile(
+			join(tmpDir, "ts", "rule-composer.config.ts"),
+			[
+				"type Manifest = { tool: string; targets: string[] };",
+				'const manifest: Manifest = { tool: "copilot", targets: ["AGENTS.md"] };',
+				"export default manifest;",
+			].join("\n"),
+		);
+	});
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("loads and validates JSON and YAML manifests", async () => {
+		const json = await loadComposeManifest(join(tmpDir, "json"));
+		expect(json?.manifest).toEqual({ tool: "claude", targets: ["CLAUDE.md"] });
+		const yaml = await loadComposeManifest(join(tmpDir, "yaml"));
+		expect(yaml?.manifest.profiles?.["backend"]?.include).toEqual(["rules/*"]);
+	});
+
+	it("loads a TypeScript manifest's default export", async () => {
+		const ts = await loadComposeManifest(join(tmpDir, "ts"));
+		expect(ts?.manifest).toEqual({ tool: "copilot", targets: ["AGENTS.md"] });
+	});
+
+	it("returns null when no manifest exists, and throws for a missing explicit path", async () => {
+		expect(await loadComposeManifest(join(tmpDir, "empty"))).toBeNull();
+		await expect(loadComposeManifest(join(tmpDir, "empty"), "nope.json")).rejects.toThrow(/Config not found/);
+	});
+
+	it("throws with the offending field for invalid manifests", async () => {
+		await expect(loadComposeManifest(join(tmpDir, "invalid"))).rejects.toThrow(/tool/);
+	});
+});
+
+describe("parseComposeManifest", () => {
+	it("reports every issue with its path", () => {
+		expect(() => parseComposeManifest({ tool: "vim", profiles: { a: { order: "x" } } })).toThrow(
+			/tool: .*profiles\.a\.order/,
+		);
+	});
+
+	it("accepts a top-level llm section and validates it", () => {
+		const manifest = parseComposeManifest({
+			llm: { provider: "openai-compatible", baseUrl: "http://localhost:11434/v1" },
+		});
+		expect(manifest.llm).toEqual({ provider: "openai-compatible", baseUrl: "http://localhost:11434/v1" });
+		expect(() => parseComposeManifest({ llm: { provider: "gpt" } })).toThrow(/llm\.provider/);
+	});
+});
+
+describe("resolveManifestProfiles", () => {
+	it("returns a single default profile when none are defined", () => {
+		expect(resolveManifestProfiles({ tool: "claude" })).toEqual([
+			{ name: DEFAULT_PROFILE, profile: { tool: "claude" } },
+		]);
+		expect(() => resolveManifestProfiles({ tool: "claude" }, "backend")).toThrow(/no profiles/);
+	});
+
+	it("does not treat the llm section as a profile field", () => {
+		expect(resolveManifestProfiles({ tool: "claude", llm: { model: "m" } })).toEqual([
+			{ name: DEFAULT_PROFILE, profile: { tool: "claude" } },
+		]);
+	});
+
+	it("merges top-level defaults into every profile; options merge per key", () => {
+		const profiles = resolveManifestProfiles({
+			tool: "claude",
+			options: { numbered: false, embedGlobs: false },
+			profiles: {
+				backend: { include: ["api-*"], options: { numbered: true } },
+				frontend: { tool: "cursor" },
+			},
+		});
+		expect(profiles.map((p) => p.name)).toEqual(["backend", "frontend"]);
+		expect(profiles[0]!.profile).toEqual({
+			tool: "claude",
+			include: ["api-*"],
+			options: { numbered: true, embedGlobs: false },
+		});
+		expect(profiles[1]!.profile.tool).toBe("cursor");
+	});
+
+	it("selects one profile by name and rejects unknown names", () => {
+		const manifest = { profiles: { backend: {}, frontend: {} } };
+		expect(resolveManifestProfiles(manifest, "frontend").map((p) => p.name)).toEqual(["frontend"]);
+		expect(() => resolveManifestProfiles(manifest, "mobile")).toThrow(/Available: backend, frontend/);
+	});
+});
+
+describe("resolveManifestPath", () => {
+	it("re-roots paths from the manifest directory to cwd, keeping trailing slashes and dir: specs", () => {
+		expect(resolveManifestPath("/repo/rule-composer.config.json", "AGENTS.md", "/repo")).toBe("AGENTS.md");
+		expect(resolveManifestPath("/repo/config/rule-composer.config.json", "out/", "/repo")).toBe("config/out/");
+		expect(resolveManifestPath("/repo/rule-composer.config.json", ".", "/repo")).toBe(".");
+		expect(resolveManifestPath("/repo/rule-composer.config.json", "dir:cursor", "/repo")).toBe("dir:cursor");
+	});
+});
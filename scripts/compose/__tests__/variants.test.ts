@@ -2,7 +2,7 @@ import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { writeFile, readFile, mkdir, rm, access } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { generateVariants } from "../variants.js";
+import { generateVariants, updateVariants } from "../variants.js";
 
 const exists = async (path: string): Promise<boolean> => {
 	try {
@@ -142,3 +142,82 @@ describe("generateVariants", () => {
 		expect(content).toContain("Do the thing.");
 	});
 });
+
+describe("updateVariants", () => {
+	const tmpDir = join(tmpdir(), "arc-test-update-variants");
+	const rulesDir = join(tmpDir, "rules");
+	const skillsDir = join(tmpDir, "skills");
+	const outputDir = join(tmpDir, "coding-tools");
+	const tools = ["cursor", "claude"] as const;
+
+	beforeAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+		await mkdir(rulesDir, { recursive: true });
+		await mkdir(join(skillsDir, "my-skill"), { recursive: true });
+		await writeFile(join(rulesDir, "a.mdc"), "---\ndescription: A\n---\n\n# A\n\nFirst.", "utf-8");
+		await writeFile(join(rulesDir, "b.mdc"), "---\ndescription: B\n---\n\n# B\n\nUntouched.", "utf-8");
+		await writeFile(join(skillsDir, "my-skill", "SKILL.md"), "# Skill\n\nUse {{RULES_DIR}}.", "utf-8");
+		await generateVariants(rulesDir, skillsDir, outputDir, tools, false);
+	});
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("rewrites only the variant files derived from the changed rule", async () => {
+		const untouched = join(outputDir, "claude", "rules", "b.md");
+		await writeFile(untouched, "sentinel", "utf-8");
+		await writeFile(join(rulesDir, "a.mdc"), "---\ndescription: A\n---\n\n# A\n\nSecond.", "utf-8");
+
+		const { written, removed } = await updateVariants(
+			[join(rulesDir, "a.mdc")],
+			rulesDir,
+			skillsDir,
+			outputDir,
+			tools,
+			false,
+		);
+
+		expect(written).toEqual([
+			join(outputDir, "cursor", "rules", "a.mdc"),
+			join(outputDir, "claude", "rules", "a.md"),
+		]);
+		expect(removed).toEqual([]);
+		expect(await readFile(join(outputDir, "claude", "rules", "a.md"), "utf-8")).toContain("Second.");
+		expect(await readFile(untouched, "utf-8")).toBe("sentinel");
+	});
+
+	it("resolves placeholders per tool for changed skills", async () => {
+		await updateVariants([join(skillsDir, "my-skill", "SKILL.md")], rulesDir, skillsDir, outputDir, tools, false);
+		const content = await readFile(join(outputDir, "claude", "skills", "my-skill", "SKILL.md"), "utf-8");
+		expect(content).not.toContain("{{RULES_DIR}}");
+	});
+
+	it("removes variant files when the source is deleted", async () => {
+		await rm(join(rulesDir, "b.mdc"));
+		const { removed } = await updateVariants(
+			[join(rulesDir, "b.mdc")],
+			rulesDir,
+			skillsDir,
+			outputDir,
+			tools,
+			false,
+		);
+
+		expect(removed).toHaveLength(2);
+		expect(await exists(join(outputDir, "cursor", "rules", "b.mdc"))).toBe(false);
+		expect(await exists(join(outputDir, "claude", "rules", "b.md"))).toBe(false);
+	});
+
+	it("ignores paths outside the source directories", async () => {
+		const result = await updateVariants(
+			[join(tmpDir, "agents", "x.md"), join(rulesDir, "_draft", "y.mdc")],
+			rulesDir,
+			skillsDir,
+			outputDir,
+			tools,
+			false,
+		);
+		expect(result).toEqual({ written: [], removed: [] });
+	});
+});
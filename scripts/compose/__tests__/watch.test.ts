@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { countTargetTokens, createDebouncedBatch, formatTokenDeltas, targetTokenizers } from "../watch.js";
+import { TOKENIZERS } from "../../shared/tokenizer.js";
+
+// Strip ANSI colors for assertions
+const plain = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, "");
+
+describe("countTargetTokens", () => {
+	it("sums tokens across a directory target's files", () => {
+		const counts = countTargetTokens([
+			{ label: "AGENTS.md", files: [{ path: "AGENTS.md", content: "hello world" }] },
+			{
+				label: ".claude/rules/",
+				files: [
+					{ path: "a.md", content: "hello" },
+					{ path: "b.md", content: "world" },
+				],
+			},
+		]);
+		expect(counts.get("AGENTS.md")).toBeGreaterThan(0);
+		expect(counts.get(".claude/rules/")).toBe(2);
+	});
+
+	it("counts each target with the tokenizer compose used for it", () => {
+		const content = "Validate every request body before it reaches the handler.";
+		const targets = [
+			{ label: "AGENTS.md", files: [{ path: "AGENTS.md", content }] },
+			{ label: "CLAUDE.md", files: [{ path: "CLAUDE.md", content }], tokenizer: "claude" as const },
+		];
+		const counts = countTargetTokens(targets);
+		expect(counts.get("AGENTS.md")).toBe(TOKENIZERS.o200k.count(content));
+		expect(counts.get("CLAUDE.md")).toBe(TOKENIZERS.claude.count(content));
+		expect(targetTokenizers(targets).get("CLAUDE.md")).toBe(TOKENIZERS.claude);
+	});
+});
+
+describe("formatTokenDeltas", () => {
+	it("shows signed deltas, new targets and dropped targets", () => {
+		const before = new Map([
+			["AGENTS.md", 100],
+			["CLAUDE.md", 50],
+			["old.md", 10],
+		]);
+		const after = new Map([
+			["AGENTS.md", 112],
+			["CLAUDE.md", 50],
+			["new.md", 7],
+		]);
+		expect(formatTokenDeltas(before, after).map(plain)).toEqual([
+			"AGENTS.md: 112 tokens (+12)",
+			"CLAUDE.md: 50 tokens (±0)",
+			"new.md: 7 tokens (new)",
+			"old.md: no longer a target",
+		]);
+	});
+
+	it("shows negative deltas without a plus sign", () => {
+		expect(formatTokenDeltas(new Map([["a", 10]]), new Map([["a", 4]])).map(plain)).toEqual(["a: 4 tokens (-6)"]);
+	});
+
+	it("marks counts from an approximate tokenizer with ~", () => {
+		const tokenizers = new Map([["CLAUDE.md", TOKENIZERS.claude]]);
+		expect(formatTokenDeltas(new Map(), new Map([["CLAUDE.md", 40]]), tokenizers).map(plain)).toEqual([
+			"CLAUDE.md: ~40 tokens (new)",
+		]);
+	});
+});
+
+describe("createDebouncedBatch", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("collects paths until events go quiet", async () => {
+		vi.useFakeTimers();
+		const run = vi.fn(async (_paths: Set<string>) => {});
+		const batch = createDebouncedBatch(run, 100);
+
+		batch.push("a");
+		await vi.advanceTimersByTimeAsync(50);
+		batch.push("b");
+		batch.push("a");
+		await vi.advanceTimersByTimeAsync(50);
+		expect(run).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(100);
+		expect(run).toHaveBeenCalledTimes(1);
+		expect([...run.mock.calls[0]![0]]).toEqual(["a", "b"]);
+	});
+
+	it("queues paths pushed during a run into the next run", async () => {
+		vi.useFakeTimers();
+		let release!: () => void;
+		const run = vi.fn(
+			(_paths: Set<string>) =>
+				new Promise<void>((resolve) => {
+					release = resolve;
+				}),
+		);
+		const batch = createDebouncedBatch(run, 100);
+
+		batch.push("a");
+		await vi.advanceTimersByTimeAsync(100);
+		expect(run).toHaveBeenCalledTimes(1);
+
+		batch.push("b");
+		await vi.advanceTimersByTimeAsync(500);
+		expect(run).toHaveBeenCalledTimes(1);
+
+		release();
+		await vi.advanceTimersByTimeAsync(100);
+		expect(run).toHaveBeenCalledTimes(2);
+		expect([...run.mock.calls[1]![0]]).toEqual(["b"]);
+	});
+
+	it("drops pending paths on cancel", async () => {
+		vi.useFakeTimers();
+		const run = vi.fn(async (_paths: Set<string>) => {});
+		const batch = createDebouncedBatch(run, 100);
+		batch.push("a");
+		batch.cancel();
+		await vi.advanceTimersByTimeAsync(200);
+		expect(run).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,82 @@
+import color from "picocolors";
+import { estimateRuleTokens, estimateTokens } from "./composer.js";
+import { numericPrefix } from "../shared/scanner.js";
+import { TOKENIZERS, formatTokenCount, type Tokenizer } from "../shared/tokenizer.js";
+import type { RuleFile, ToolId } from "../shared/types.js";
+
+/** One row of the per-rule token table */
+export interface RuleTokenRow {
+	name: string;
+	tokens: number;
+	/** Fraction of the summed rule tokens, 0–1 */
+	share: number;
+}
+
+/** Per-rule token counts sorted by cost (largest first), with each rule's share of the total */
+export const ruleTokenTable = (rules: RuleFile[], targetTool: ToolId, tokenizer?: Tokenizer): RuleTokenRow[] => {
+	const counts = rules.map((rule) => ({ name: rule.name, tokens: estimateRuleTokens(rule, targetTool, tokenizer) }));
+	const total = counts.reduce((sum, row) => sum + row.tokens, 0);
+	return counts
+		.map((row) => ({ ...row, share: total > 0 ? row.tokens / total : 0 }))
+		.sort((a, b) => b.tokens - a.tokens);
+};
+
+/** Render the token table as aligned lines, with a total line (and the budget, when given) */
+export const formatTokenTable = (
+	rows: RuleTokenRow[],
+	total: number,
+	maxTokens?: number,
+	tokenizer: Tokenizer = TOKENIZERS.o200k,
+): string[] => {
+	const nameWidth = Math.max(4, ...rows.map((row) => row.name.length));
+	const tokenWidth = Math.max(6, ...rows.map((row) => String(row.tokens).length));
+	const lines = [
+		color.dim(`${"Rule".padEnd(nameWidth)}  ${"Tokens".padStart(tokenWidth)}  Share`),
+		...rows.map(
+			(row) =>
+				`${row.name.padEnd(nameWidth)}  ${String(row.tokens).padStart(tokenWidth)}  ${`${(row.share * 100).toFixed(1)}%`.padStart(5)}`,
+		),
+	];
+	const budget = maxTokens === undefined ? "" : ` / ${maxTokens} budget`;
+	const totalLine = `Composed document: ${formatTokenCount(total, tokenizer)} tokens${budget}`;
+	lines.push(maxTokens !== undefined && total > maxTokens ? color.red(totalLine) : color.bold(totalLine));
+	return lines;
+};
+
+/** Drop priority: frontmatter `priority`, else the filename prefix (01-, 02-, …). Higher is dropped first. */
+export const rulePriority = (rule: RuleFile): number => rule.priority ?? numericPrefix(rule.name);
+
+/**
+ * Order in which --over-budget drop leaves rules out: highest priority number first, and among
+ * equal priorities the one later in the document first.
+ */
+export const dropOrder = (rules: RuleFile[]): RuleFile[] =>
+	rules
+		.map((rule, index) => ({ rule, index }))
+		.sort((a, b) => rulePriority(b.rule) - rulePriority(a.rule) || b.index - a.index)
+		.map(({ rule }) => rule);
+
+/**
+ * Leave out lowest-priority rules (see dropOrder), recomposing after each, until the document fits
+ * maxTokens (counted with tokenizer). At least one rule is always kept, so the result can still be over budget.
+ */
+export const fitToBudget = async <T extends { content: string }>(
+	rules: RuleFile[],
+	maxTokens: number,
+	composeRules: (rules: RuleFile[]) => Promise<T>,
+	tokenizer: Tokenizer = TOKENIZERS.o200k,
+): Promise<{ kept: RuleFile[]; dropped: RuleFile[]; result: T; tokens: number }> => {
+	let kept = rules;
+	const dropped: RuleFile[] = [];
+	let result = await composeRules(kept);
+	let tokens = estimateTokens(result.content, tokenizer);
+
+	for (const rule of dropOrder(rules)) {
+		if (tokens <= maxTokens || kept.length <= 1) break;
+		kept = kept.filter((r) => r !== rule);
+		dropped.push(rule);
+		result = await composeRules(kept);
+		tokens = estimateTokens(result.content, tokenizer);
+	}
+	return { kept, dropped, result, tokens };
+};
@@ -0,0 +1,87 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { unifiedDiff } from "../shared/diff.js";
+import type { RenderedFile } from "../shared/types.js";
+
+/** An output whose on-disk content differs from what compose would write */
+export interface StaleFile {
+	path: string;
+	/** missing: not on disk; modified: content differs; extra: on disk inside an owned dir but no longer generated */
+	status: "missing" | "modified" | "extra";
+	/** Unified diff from the on-disk file to the expected content */
+	diff: string;
+}
+
+/** All files under dir, recursively (dotfiles included — generateVariants removes the whole directory). */
+const listFiles = async (dir: string): Promise<string[]> => {
+	let entries;
+	try {
+		entries = await readdir(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+	const files: string[] = [];
+	for (const entry of entries) {
+		const fullPath = join(dir, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await listFiles(fullPath)));
+		} else {
+			files.push(fullPath);
+		}
+	}
+	return files;
+};
+
+const readOrNull = (path: string): Promise<string | null> => readFile(path, "utf-8").catch(() => null);
+
+/**
+ * Compare expected outputs byte-for-byte with disk. Directories in ownedDirs are regenerated
+ * from scratch on write, so any file in them that is not expected is reported as extra.
+ * Diff labels are relative to cwd.
+ */
+export const findStaleFiles = async (
+	expected: RenderedFile[],
+	ownedDirs: string[] = [],
+	cwd: string = process.cwd(),
+): Promise<StaleFile[]> => {
+	// Later entries win, matching the last write when several targets share a path
+	const byPath = new Map(expected.map((file) => [file.path, file.content]));
+	const stale: StaleFile[] = [];
+
+	for (const [path, content] of byPath) {
+		const label = relative(cwd, path) || path;
+		const actual = await readOrNull(path);
+		if (actual === null) {
+			stale.push({
+				path,
+				status: "missing",
+				diff: unifiedDiff("", content, { fromFile: "/dev/null", toFile: `b/${label}` }),
+			});
+		} else if (actual !== content) {
+			const diff = unifiedDiff(actual, content, { fromFile: `a/${label}`, toFile: `b/${label}` });
+			stale.push({
+				path,
+				status: "modified",
+				// Texts that differ only in a trailing newline produce no line diff
+				diff: diff || `--- a/${label}\n+++ b/${label}\n(trailing newline differs)\n`,
+			});
+		}
+	}
+
+	const expectedPaths = new Set(byPath.keys());
+	for (const dir of ownedDirs) {
+		for (const path of await listFiles(dir)) {
+			if (expectedPaths.has(path)) continue;
+			const label = relative(cwd, path) || path;
+			stale.push({
+				path,
+				status: "extra",
+				diff:
+					unifiedDiff((await readOrNull(path)) ?? "", "", { fromFile: `a/${label}`, toFile: "/dev/null" }) ||
+					`--- a/${label}\n+++ /dev/null\n(empty file)\n`,
+			});
+		}
+	}
+
+	return stale;
+};
@@ -1,23 +1,44 @@
 import matter from "gray-matter";
-import { countTokens } from "gpt-tokenizer";
-import type { RuleFile, ToolId } from "../shared/types.js";
-import { resolvePlaceholders, quoteGlobs, formatMarkdown } from "../shared/formats.js";
+import type { RuleActivation, RuleFile, ToolId } from "../shared/types.js";
+import {
+	resolvePlaceholders,
+	quoteGlobs,
+	formatMarkdown,
+	formatFrontmatterCallout,
+	inferActivation,
+} from "../shared/formats.js";
 import { resolveRelativeToHash } from "../shared/link-resolution.js";
+import { headingLines, headingText, mapLines, markdownBlocks } from "../shared/markdown-ast.js";
+import { TOKENIZERS, resolveTokenizer, type Tokenizer } from "../shared/tokenizer.js";
 
-/** Strip YAML frontmatter from a rule's raw content and return the body */
-const stripFrontmatter = (rule: RuleFile): string => {
+/** Split a rule's raw content into its YAML frontmatter data (empty when there is none) and body */
+const parseRuleSource = (rule: RuleFile): { data: Record<string, unknown>; body: string } => {
 	if (rule.rawContent.startsWith("---")) {
 		const parsed = matter(quoteGlobs(rule.rawContent));
-		return parsed.content.trim();
+		return { data: parsed.data, body: parsed.content.trim() };
 	}
-	return rule.body;
+	return { data: {}, body: rule.body };
 };
 
-/** Increment all heading levels by one (# → ##, ## → ###, etc.), capping at H6 */
+/** Strip YAML frontmatter from a rule's raw content and return the body */
+const stripFrontmatter = (rule: RuleFile): string => parseRuleSource(rule).body;
+
+/**
+ * Increment all heading levels by one (# → ##, ## → ###, etc.), capping at H6.
+ * Headings come from the markdown AST, so `#` lines in code fences, HTML and front matter stay as they are.
+ */
 export const incrementHeadings = (content: string): string => {
-	return content.replace(/^(#{1,5}) /gm, (_match, hashes: string) => {
-		return `${hashes}# `;
-	});
+	const lines = markdownBlocks(content)
+		.filter((block) => block.depth !== undefined && block.depth < 6)
+		.map((block) => block.startLine);
+	return mapLines(content, lines, (line) => line.replace("#", "##"));
+};
+
+/** Insert a callout after the first heading, or prepend it when there is none */
+const insertAfterFirstHeading = (body: string, annotation: string): string => {
+	const first = headingLines(body)[0];
+	if (first === undefined) return `${annotation}\n\n${body}`;
+	return mapLines(body, [first], (line) => `${line}\n\n${annotation}`);
 };
 
 /** Inject a > [!globs] callout after the first heading for scoped rules */
@@ -25,39 +46,48 @@ export const injectGlobAnnotation = (body: string, globs?: string, alwaysApply?:
 	// Only annotate scoped rules (alwaysApply: false)
 	if (alwaysApply !== false) return body;
 
-	const annotation = globs ? `> [!globs] ${globs}` : `> [!globs]`;
-
-	// Find first heading and inject after it
-	const headingMatch = body.match(/^(#{1,6} .+)$/m);
-	if (headingMatch) {
-		return body.replace(headingMatch[0], `${headingMatch[0]}\n\n${annotation}`);
-	}
+	return insertAfterFirstHeading(body, globs ? `> [!globs] ${globs}` : `> [!globs]`);
+};
 
-	// No heading — prepend
-	return `${annotation}\n\n${body}`;
+/**
+ * Inject the callout for a rule's activation after the first heading: auto → > [!globs] patterns,
+ * agent and manual → > [!activation] agent|manual. Always-on rules get none.
+ */
+export const injectActivationAnnotation = (body: string, activation: RuleActivation, globs?: string): string => {
+	if (activation === "always") return body;
+	if (activation === "auto") return injectGlobAnnotation(body, globs, false);
+	return insertAfterFirstHeading(body, `> [!activation] ${activation}`);
 };
 
 /** Inject > [!type] skill|agent|command after the first heading so decompose restores to the right dirs */
 export const injectTypeAnnotation = (body: string, type: "rule" | "skill" | "agent" | "command"): string => {
 	if (type === "rule") return body;
 
-	const annotation = `> [!type] ${type}`;
-	const headingMatch = body.match(/^(#{1,6} .+)$/m);
-	if (headingMatch) {
-		return body.replace(headingMatch[0], `${headingMatch[0]}\n\n${annotation}`);
-	}
-	return `${annotation}\n\n${body}`;
+	return insertAfterFirstHeading(body, `> [!type] ${type}`);
+};
+
+/**
+ * Inject > [!name] and, when the rule has frontmatter, > [!frontmatter] after the first heading so
+ * decompose restores the rule's file name and every frontmatter field exactly.
+ */
+export const injectSourceAnnotations = (body: string, name: string, frontmatter: Record<string, unknown>): string => {
+	const annotations = [`> [!name] ${name}`];
+	if (Object.keys(frontmatter).length > 0) annotations.push(formatFrontmatterCallout(frontmatter));
+	return insertAfterFirstHeading(body, annotations.join("\n\n"));
 };
 
 /** Strip optional leading "N. " from heading text (e.g. "99. Rule Name" → "Rule Name"). */
 const stripHeadingNumber = (heading: string): string => heading.replace(/^\d+\.\s+/, "");
 
-/** Add sequential numbered prefixes (1., 2., 3., …) to all H2 headings by position; strips any existing N. prefix. */
+/**
+ * Add sequential numbered prefixes (1., 2., 3., …) to all H2 headings by position; strips any existing N. prefix.
+ * Only real H2s count (see incrementHeadings); a `## ` line inside a code fence is not numbered.
+ */
 export const addSectionNumbers = (content: string): string => {
 	let counter = 0;
-	return content.replace(/^## (.+)$/gm, (_match, heading) => {
+	return mapLines(content, headingLines(content, 2), (line) => {
 		counter++;
-		return `## ${counter}. ${stripHeadingNumber(heading)}`;
+		return `## ${counter}. ${stripHeadingNumber(headingText(line))}`;
 	});
 };
 
@@ -67,10 +97,15 @@ export interface ComposeOptions {
 	numbered?: boolean;
 	/** Increment all heading levels by one to avoid multiple H1s (default: true) */
 	incrementHeadings?: boolean;
-	/** Embed > [!globs] callouts for scoped rules (default: true) */
+	/** Embed > [!globs] and > [!activation] callouts for scoped rules (default: true) */
 	embedGlobs?: boolean;
 	/** Resolve relative rule links to hash anchors (default: true) */
 	resolveLinks?: boolean;
+	/**
+	 * Embed > [!name] and > [!frontmatter] callouts for a lossless decompose (default: false: they cost
+	 * tokens in every prompt, so only output meant to be decomposed again turns them on)
+	 */
+	embedFrontmatter?: boolean;
 }
 
 /** Compose selected rules into a single markdown document (Prettier-formatted). */
@@ -81,11 +116,13 @@ export const compose = async (
 ): Promise<{ content: string; placeholderCount: number }> => {
 	const shouldIncrement = options?.incrementHeadings !== false;
 	const shouldEmbedGlobs = options?.embedGlobs !== false;
+	const shouldEmbedFrontmatter = options?.embedFrontmatter === true;
 	let placeholderCount = 0;
 	const sections: string[] = [];
 
 	for (const rule of selected) {
-		let body = stripFrontmatter(rule);
+		const source = parseRuleSource(rule);
+		let body = source.body;
 
 		const matches = body.match(/\{\{\w+\}\}/g);
 		if (matches) {
@@ -98,8 +135,16 @@ export const compose = async (
 			body = incrementHeadings(body);
 		}
 
+		if (shouldEmbedFrontmatter) {
+			const frontmatter = JSON.parse(resolvePlaceholders(JSON.stringify(source.data), targetTool)) as Record<
+				string,
+				unknown
+			>;
+			body = injectSourceAnnotations(body, rule.name, frontmatter);
+		}
+
 		if (shouldEmbedGlobs) {
-			body = injectGlobAnnotation(body, rule.globs, rule.alwaysApply);
+			body = injectActivationAnnotation(body, rule.activation ?? inferActivation(rule), rule.globs);
 		}
 
 		body = injectTypeAnnotation(body, rule.type);
@@ -125,5 +170,15 @@ export const compose = async (
 	return { content, placeholderCount };
 };
 
-/** OpenAI-style token count (gpt-tokenizer o200k_base). Display as ~ for other models. */
-export const estimateTokens = (text: string): number => countTokens(text);
+/** Token count with the given counter (default: o200k_base, see shared/tokenizer.ts) */
+export const estimateTokens = (text: string, tokenizer: Tokenizer = TOKENIZERS.o200k): number => tokenizer.count(text);
+
+/**
+ * Token estimate of one rule's contribution: frontmatter stripped, placeholders resolved for
+ * targetTool, counted with the tool's default tokenizer unless one is given.
+ */
+export const estimateRuleTokens = (
+	rule: RuleFile,
+	targetTool: ToolId,
+	tokenizer: Tokenizer = resolveTokenizer(undefined, targetTool),
+): number => estimateTokens(resolvePlaceholders(stripFrontmatter(rule), targetTool), tokenizer);
@@ -1,4 +1,4 @@
-import { resolve } from "node:path";
+import { relative, resolve } from "node:path";
 import { stat, mkdir } from "node:fs/promises";
 import * as p from "@clack/prompts";
 import color from "picocolors";
@@ -10,14 +10,93 @@ import {
 	askOptimize,
 	getApiKeyInteractive,
 	showDiffPreview,
-	askAcceptOptimized,
+	showChunkSavings,
+	showContentIssues,
+	askAcceptSections,
 	pickOutputTargets,
+	colorizeDiff,
+	warnLongDescriptions,
 } from "../shared/cli.js";
-import { compose, estimateTokens } from "./composer.js";
-import { writeAsSingleFile, writeAsDirectory, formatMarkdown } from "../shared/formats.js";
-import { optimize, resolvePromptPath } from "../shared/openrouter.js";
-import { generateVariants } from "./variants.js";
-import type { DiscoveredSource, OutputTarget } from "../shared/types.js";
+import { compose, estimateTokens, type ComposeOptions } from "./composer.js";
+import { loadComposeManifest, resolveManifestProfiles, resolveManifestPath, DEFAULT_PROFILE } from "./manifest.js";
+import {
+	writeAsSingleFile,
+	writeAsDirectory,
+	renderAsDirectory,
+	formatMarkdown,
+	TOOL_REGISTRY,
+} from "../shared/formats.js";
+import { optimizeChunked, resolvePromptPath } from "../shared/llm.js";
+import { validateOptimizedContent } from "../shared/content-validation.js";
+import { resolveLLMConfig, type LLMConfig } from "../shared/providers.js";
+import { generateVariants, renderVariants } from "./variants.js";
+import { findStaleFiles } from "./check.js";
+import { watchCompose } from "./watch.js";
+import { fitToBudget, formatTokenTable, ruleTokenTable } from "./budget.js";
+import { matchesAnyGlob } from "../shared/glob.js";
+import { formatTokenCount, resolveTokenizer } from "../shared/tokenizer.js";
+import { mergeSections } from "../shared/section-diff.js";
+import { OVER_BUDGET_MODES, TOKENIZER_IDS, TOOL_IDS } from "../shared/types.js";
+import type { ComposeManifest, ComposeProfile, LLMSettings } from "../shared/schemas.js";
+import type {
+	ComposedTarget,
+	DiscoveredSource,
+	OutputTarget,
+	OverBudgetMode,
+	RenderedFile,
+	RuleFile,
+	TokenizerId,
+	ToolId,
+} from "../shared/types.js";
+
+/**
+ * CLI flags for compose. Each flag that is set skips its prompt; `yes` accepts the default
+ * for every remaining prompt, so compose can run without a TTY (CI, pre-commit hooks).
+ */
+export interface ComposeCliOptions {
+	/** Target tool for placeholder resolution (--tool) */
+	tool?: ToolId;
+	/** Globs over rule names and paths; only matching rules are selected (--include, repeatable) */
+	include?: string[];
+	/** Globs over rule names and paths; matching rules are dropped (--exclude, repeatable) */
+	exclude?: string[];
+	/** Section order as rule names or 1-based positions (--order a,b,c) */
+	order?: string[];
+	/** Numbered H2 prefixes (--numbered / --no-numbered) */
+	numbered?: boolean;
+	/** LLM optimization (--optimize / --no-optimize) */
+	optimize?: boolean;
+	/** Output target specs: file path, directory ending with "/", or dir:<toolId> (--target, repeatable) */
+	targets?: string[];
+	/** Accept defaults for every prompt not covered by a flag (--yes) */
+	yes?: boolean;
+	/** Restrict selection to these kinds of files (manifest `types`) */
+	types?: RuleFile["type"][];
+	/** compose() options other than numbering (manifest `options`) */
+	composeOptions?: Omit<ComposeOptions, "numbered">;
+	/** Explicit manifest path (--config) */
+	config?: string;
+	/** Manifest profile to compose (--profile); default: every profile */
+	profile?: string;
+	/** Ignore rule-composer.config even when present (--no-config) */
+	noConfig?: boolean;
+	/** Compose in memory and compare with disk instead of writing; implies yes, never optimizes (--check) */
+	check?: boolean;
+	/** Recompose whenever rules/, skills/, agents/ or commands/ change; implies yes, never optimizes (--watch) */
+	watch?: boolean;
+	/** Token budget for the composed document (--max-tokens) */
+	maxTokens?: number;
+	/** What to do over budget: fail (default), warn, or drop lowest-priority rules (--over-budget) */
+	overBudget?: OverBudgetMode;
+	/** Print the per-rule token table even within budget (--breakdown) */
+	breakdown?: boolean;
+	/** Token counter for summaries and the budget; default: the target tool's (--tokenizer) */
+	tokenizer?: TokenizerId;
+	/** LLM settings from flags (--provider, --model, --base-url, --temperature, --max-output-tokens) */
+	llm?: LLMSettings;
+	/** The manifest's `llm` section; flags and RULE_COMPOSER_* env vars override it per field */
+	manifestLlm?: LLMSettings;
+}
 
 /** Build the list of sources for the tree (detected + agents-repo + bundled when no input path). Bundled is always included when available so e.g. pnpm dlx can compose from package rules. */
 export const buildComposeSources = (
@@ -33,9 +112,247 @@ export const buildComposeSources = (
 	return addBundled ? [...withAgents, bundled] : withAgents;
 };
 
-export const runCompose = async (inputPath?: string, outputPath?: string): Promise<void> => {
+/**
+ * Sources that flag-driven selection (--yes, --include/--exclude/--types, manifests) draws from.
+ * Without an include glob only local sources count: the bundled rules must be asked for by name.
+ */
+export const selectableSources = (sources: DiscoveredSource[], include: string[] = []): DiscoveredSource[] =>
+	include.length > 0 ? sources : sources.filter((source) => source.id !== "bundled");
+
+/** Log an error and fail the run (exit code 1); the caller returns right after */
+const failCompose = (err: unknown): void => {
+	p.log.error(err instanceof Error ? err.message : String(err));
+	process.exitCode = 1;
+};
+
+/** Keep rules matching any include glob (all when none given) and drop rules matching any exclude glob. Globs match the rule name or its path. */
+export const filterRules = (rules: RuleFile[], include: string[] = [], exclude: string[] = []): RuleFile[] =>
+	rules.filter((rule) => {
+		const matches = (globs: string[]) => matchesAnyGlob(rule.name, globs) || matchesAnyGlob(rule.path, globs);
+		if (include.length > 0 && !matches(include)) return false;
+		return !matches(exclude);
+	});
+
+/**
+ * Reorder rules by a list of rule names or 1-based positions. Listed rules come first in the given
+ * order; unlisted rules follow in their current order. Throws on unknown or duplicate entries.
+ */
+export const orderRules = (rules: RuleFile[], order: string[]): RuleFile[] => {
+	const picked: RuleFile[] = [];
+	for (const entry of order) {
+		const trimmed = entry.trim();
+		if (!trimmed) continue;
+		const position = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+		const rule = Number.isNaN(position) ? rules.find((r) => r.name === trimmed) : rules[position - 1];
+		if (!rule) {
+			throw new Error(`Unknown rule in --order: "${trimmed}"`);
+		}
+		if (picked.includes(rule)) {
+			throw new Error(`Rule listed twice in --order: "${trimmed}"`);
+		}
+		picked.push(rule);
+	}
+	return [...picked, ...rules.filter((r) => !picked.includes(r))];
+};
+
+/**
+ * Parse an output target spec: "dir:<toolId>" → that tool's rules directory, a path ending
+ * with "/" → directory in the target tool's format, anything else → single file.
+ */
+export const parseOutputTarget = (spec: string, targetTool: ToolId): OutputTarget => {
+	const trimmed = spec.trim();
+	if (trimmed.startsWith("dir:")) {
+		const toolId = trimmed.slice("dir:".length) as ToolId;
+		const dir = TOOL_IDS.includes(toolId) ? TOOL_REGISTRY[toolId].directories[0] : undefined;
+		if (!dir) {
+			throw new Error(`No rules directory for target "${trimmed}"`);
+		}
+		return { kind: "directory", dir, tool: toolId };
+	}
+	if (trimmed.endsWith("/")) {
+		return { kind: "directory", dir: trimmed, tool: targetTool };
+	}
+	return { kind: "single-file", path: trimmed };
+};
+
+/** Default output target (same as the "Write to" prompt default): the tool's rules directory, else AGENTS.md. */
+export const defaultOutputTarget = (targetTool: ToolId): OutputTarget =>
+	TOOL_REGISTRY[targetTool]?.directories[0]
+		? parseOutputTarget(`dir:${targetTool}`, targetTool)
+		: { kind: "single-file", path: "AGENTS.md" };
+
+/** Translate a manifest profile into CLI options (paths re-rooted from the manifest's directory to cwd). */
+export const manifestProfileToOptions = (
+	profile: ComposeProfile,
+	manifestPath: string,
+	cwd: string,
+): { sources?: string[]; options: ComposeCliOptions } => {
+	const { numbered, ...composeOptions } = profile.options ?? {};
+	return {
+		sources: profile.sources?.map((dir) => resolveManifestPath(manifestPath, dir, cwd)),
+		options: {
+			tool: profile.tool,
+			include: profile.include,
+			exclude: profile.exclude,
+			types: profile.types,
+			order: profile.order,
+			numbered,
+			optimize: profile.optimize,
+			maxTokens: profile.maxTokens,
+			overBudget: profile.overBudget,
+			tokenizer: profile.tokenizer,
+			targets: profile.targets?.map((target) => resolveManifestPath(manifestPath, target, cwd)),
+			composeOptions,
+			yes: true,
+		},
+	};
+};
+
+/** Overlay CLI flags on base options. Unset flags and empty repeatable flags keep the base value. */
+export const mergeComposeOptions = (base: ComposeCliOptions, overrides: ComposeCliOptions): ComposeCliOptions => {
+	const merged: ComposeCliOptions = { ...base };
+	for (const [key, value] of Object.entries(overrides) as Array<[keyof ComposeCliOptions, unknown]>) {
+		if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+		// --yes can only turn prompts off, never back on
+		if (key === "yes" && !value) continue;
+		(merged as Record<string, unknown>)[key] = value;
+	}
+	return merged;
+};
+
+/** Compose every selected profile of a manifest. CLI flags override profile values. */
+const runManifestCompose = async (
+	manifestPath: string,
+	manifest: ComposeManifest,
+	outputPath: string | undefined,
+	flags: ComposeCliOptions,
+): Promise<ComposedTarget[] | undefined> => {
+	const cwd = process.cwd();
+	let profiles: ReturnType<typeof resolveManifestProfiles>;
+	try {
+		profiles = resolveManifestProfiles(manifest, flags.profile);
+	} catch (err) {
+		failCompose(err);
+		return;
+	}
+
+	p.log.info(`Using ${relative(cwd, manifestPath) || manifestPath}`);
+
+	const composed: ComposedTarget[] = [];
+	for (const { name, profile } of profiles) {
+		if (name !== DEFAULT_PROFILE) p.log.step(`Profile: ${color.cyan(name)}`);
+		const { sources: sourceDirs, options } = manifestProfileToOptions(profile, manifestPath, cwd);
+
+		let detected: DiscoveredSource[] = [];
+		let sources: DiscoveredSource[];
+		if (sourceDirs) {
+			sources = await Promise.all(sourceDirs.map((dir) => scanDirectory(resolve(cwd, dir))));
+		} else {
+			detected = await detectTools(cwd);
+			sources = buildComposeSources(detected, await resolveAgentsRepo(cwd), await getBundledSource(), false);
+		}
+		if (sources.length === 0) {
+			failCompose("No sources to read from.");
+			return;
+		}
+
+		const targets = await composeFromSources(
+			detected,
+			sources,
+			outputPath,
+			mergeComposeOptions({ ...options, manifestLlm: manifest.llm }, flags),
+		);
+		if (!targets) return;
+		composed.push(...targets);
+	}
+
+	return composed;
+};
+
+/**
+ * --check: compare the composed targets and coding-tools/ variants with disk. Prints a unified
+ * diff per stale file and exits non-zero when anything is stale; writes nothing.
+ */
+const reportComposeCheck = async (expected: RenderedFile[]): Promise<void> => {
+	const variants = await renderVariants();
+	const stale = await findStaleFiles(
+		[...expected, ...variants.flatMap((v) => v.files)],
+		variants.map((v) => v.dir),
+	);
+
+	if (stale.length === 0) {
+		p.log.success(`Up to date: ${expected.length} target file(s) and coding-tools/ (${variants.length} tools)`);
+		process.exitCode = 0;
+		return;
+	}
+
+	for (const file of stale) {
+		p.log.warn(`${relative(process.cwd(), file.path) || file.path} (${file.status})`);
+		process.stdout.write(`${colorizeDiff(file.diff)}\n`);
+	}
+	p.log.error(`${stale.length} file(s) out of date. Run compose to regenerate.`);
+	process.exitCode = 1;
+};
+
+export const runCompose = async (
+	inputPath?: string,
+	outputPath?: string,
+	options: ComposeCliOptions = {},
+): Promise<void> => {
+	// --check must be reproducible and --watch must not stop for input: no prompts, no LLM
+	if (options.check || options.watch) {
+		if (options.optimize) p.log.warn(`Skipping optimization in --${options.check ? "check" : "watch"} mode.`);
+		options = { ...options, yes: true, optimize: false };
+	}
+	if (options.tool && !TOOL_IDS.includes(options.tool)) {
+		failCompose(`Unknown tool: ${options.tool}`);
+		return;
+	}
+	if (options.maxTokens !== undefined && !(Number.isInteger(options.maxTokens) && options.maxTokens > 0)) {
+		failCompose(`--max-tokens must be a positive integer, got ${options.maxTokens}`);
+		return;
+	}
+	if (options.overBudget && !OVER_BUDGET_MODES.includes(options.overBudget)) {
+		failCompose(`Unknown --over-budget mode: ${options.overBudget} (use ${OVER_BUDGET_MODES.join(", ")})`);
+		return;
+	}
+	if (options.tokenizer && !TOKENIZER_IDS.includes(options.tokenizer)) {
+		failCompose(`Unknown --tokenizer: ${options.tokenizer} (use ${TOKENIZER_IDS.join(", ")})`);
+		return;
+	}
+
+	const targets = await composeOnce(inputPath, outputPath, options);
+	if (!targets) return;
+
+	if (options.check) {
+		await reportComposeCheck(targets.flatMap((t) => t.files));
+	} else if (options.watch) {
+		await watchCompose(() => composeOnce(inputPath, outputPath, options), targets);
+	}
+};
+
+/** Steps 0–2 (manifest or source discovery), then the rest of the pipeline. Returns undefined on error. */
+const composeOnce = async (
+	inputPath: string | undefined,
+	outputPath: string | undefined,
+	options: ComposeCliOptions,
+): Promise<ComposedTarget[] | undefined> => {
 	const cwd = process.cwd();
 
+	// 0. A manifest (rule-composer.config.*) answers every prompt; used when no path argument is given
+	if (!inputPath && !options.noConfig) {
+		let loaded: Awaited<ReturnType<typeof loadComposeManifest>>;
+		try {
+			loaded = await loadComposeManifest(cwd, options.config);
+		} catch (err) {
+			failCompose(err);
+			return;
+		}
+		if (loaded) {
+			return runManifestCompose(loaded.path, loaded.manifest, outputPath, options);
+		}
+	}
+
 	let detected: DiscoveredSource[];
 	let agentsRepo: DiscoveredSource | null;
 
@@ -44,14 +361,14 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 		const info = await stat(absPath).catch(() => null);
 
 		if (!info) {
-			p.log.error(`Path not found: ${absPath}`);
+			failCompose(`Path not found: ${absPath}`);
 			return;
 		}
 
 		if (info.isDirectory()) {
 			const source = await scanDirectory(absPath);
 			if (source.rules.length === 0) {
-				p.log.error(`No rule files found in ${absPath}`);
+				failCompose(`No rule files found in ${absPath}`);
 				return;
 			}
 			p.log.info(`Scanning ${inputPath}: ${source.rules.length} rules found`);
@@ -85,19 +402,52 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 	const bundled = inputPath ? null : await getBundledSource();
 	const sources = buildComposeSources(detected, agentsRepo, bundled, !!inputPath);
 	if (sources.length === 0) {
-		p.log.error("No sources to read from.");
+		failCompose("No sources to read from.");
 		return;
 	}
 
-	// 3. Select rules via tree (sources form top-level directories in the tree)
-	let selectedRules = await selectRules(sources);
+	return composeFromSources(detected, sources, outputPath, options);
+};
+
+/**
+ * Steps 3–9 of the pipeline: select, order, compose, optimize, and write from already-discovered sources.
+ * Returns the files per target (in --check mode, without writing them or the variants); undefined on error.
+ */
+const composeFromSources = async (
+	detected: DiscoveredSource[],
+	sources: DiscoveredSource[],
+	outputPath: string | undefined,
+	options: ComposeCliOptions,
+): Promise<ComposedTarget[] | undefined> => {
+	// 3. Select rules via tree (sources form top-level directories in the tree); flags skip the tree
+	const hasSelectionFlags = !!options.include?.length || !!options.exclude?.length || !!options.types?.length;
+	let selectedRules =
+		hasSelectionFlags || options.yes
+			? filterRules(
+					selectableSources(sources, options.include)
+						.flatMap((s) => s.rules)
+						.filter((r) => !options.types?.length || options.types.includes(r.type)),
+					options.include,
+					options.exclude,
+				)
+			: await selectRules(sources);
 	if (selectedRules.length === 0) {
-		p.log.error("No rules selected.");
+		const onlyBundled = !options.include?.length && sources.some((source) => source.id === "bundled");
+		failCompose(
+			onlyBundled ? "No local rules selected. Use --include to pick bundled rules." : "No rules selected.",
+		);
 		return;
 	}
 
 	// 3.5. Optional reorder
-	if (selectedRules.length > 1) {
+	if (options.order) {
+		try {
+			selectedRules = orderRules(selectedRules, options.order);
+		} catch (err) {
+			failCompose(err);
+			return;
+		}
+	} else if (selectedRules.length > 1 && !options.yes) {
 		p.log.info("Current section order:");
 		selectedRules.forEach((rule, i) => {
 			p.log.message(`  ${color.dim(`${i + 1}.`)} ${rule.name}`);
@@ -146,13 +496,19 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 	}
 
 	// 4. Pick target tool for placeholders
-	const targetTool = await pickTargetTool(detected);
+	const detectedTool = detected.find((s) => s.id !== "agents-repo" && s.id !== "bundled")?.id as ToolId | undefined;
+	const targetTool = options.tool ?? (options.yes ? (detectedTool ?? "cursor") : await pickTargetTool(detected));
+	const tokenizer = resolveTokenizer(options.tokenizer, targetTool);
 
 	// 4.5. Numbering toggle
-	const wantsNumbering = await p.confirm({
-		message: "Add numbered prefixes to section headings?",
-		initialValue: true,
-	});
+	const wantsNumbering =
+		options.numbered ??
+		(options.yes
+			? true
+			: await p.confirm({
+					message: "Add numbered prefixes to section headings?",
+					initialValue: true,
+				}));
 
 	if (p.isCancel(wantsNumbering)) {
 		p.cancel("Operation cancelled.");
@@ -162,40 +518,87 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 	const startMs = Date.now();
 
 	// 5. Compose (returns Prettier-formatted content)
-	const { content, placeholderCount } = await compose(selectedRules, targetTool, {
-		numbered: !!wantsNumbering,
-	});
-	const tokens = estimateTokens(content);
+	const composeRules = (rules: RuleFile[]) =>
+		compose(rules, targetTool, { ...options.composeOptions, numbered: !!wantsNumbering });
+	let { content, placeholderCount } = await composeRules(selectedRules);
+	let tokens = estimateTokens(content, tokenizer);
+
+	// 5.5. Over budget with --over-budget drop: leave out lowest-priority rules until it fits
+	if (options.maxTokens && tokens > options.maxTokens && options.overBudget === "drop") {
+		const fitted = await fitToBudget(selectedRules, options.maxTokens, composeRules, tokenizer);
+		if (fitted.dropped.length > 0) {
+			p.log.warn(
+				`Over budget (${formatTokenCount(tokens, tokenizer)} / ${options.maxTokens} tokens); left out ${fitted.dropped.length} rule(s): ` +
+					fitted.dropped.map((rule) => rule.name).join(", "),
+			);
+		}
+		selectedRules = fitted.kept;
+		({ content, placeholderCount } = fitted.result);
+		tokens = fitted.tokens;
+	}
 	const lines = content.split("\n").length;
 
 	p.log.success(
-		`Composed: ${lines} lines (~${tokens} tokens)` +
+		`Composed: ${lines} lines (${formatTokenCount(tokens, tokenizer)} tokens, ${tokenizer.name})` +
 			(placeholderCount > 0 ? ` • Resolved ${placeholderCount} placeholders for ${targetTool}` : ""),
 	);
 
 	// 6. Optional LLM optimization
 	let finalContent = content;
 
-	const wantsOptimize = await askOptimize();
+	const wantsOptimize = options.optimize ?? (options.yes ? false : await askOptimize());
 	if (wantsOptimize) {
-		const apiKey = await getApiKeyInteractive();
+		let llmConfig: LLMConfig;
+		try {
+			llmConfig = resolveLLMConfig(options.llm, options.manifestLlm);
+		} catch (err) {
+			failCompose(err);
+			return;
+		}
+		const apiKey = await getApiKeyInteractive(llmConfig);
 
-		if (apiKey) {
+		if (apiKey !== null) {
 			const s = p.spinner();
-			s.start("Optimizing...");
+			s.start(`Optimizing with ${llmConfig.model}...`);
 
 			const promptPath = resolvePromptPath("compose/prompt.md");
-			const result = await optimize(content, apiKey, promptPath);
+			const result = await optimizeChunked(content, apiKey, promptPath, llmConfig, {
+				onProgress: (done, total) =>
+					s.message(`Optimizing with ${llmConfig.model} (${done}/${total} sections)...`),
+			});
 
 			if (result.optimized) {
-				s.stop("Optimization complete");
-
-				const optimizedTokens = estimateTokens(result.optimized);
-				showDiffPreview(content, result.optimized, tokens, optimizedTokens);
-
-				const accept = await askAcceptOptimized();
-				if (accept) {
-					finalContent = result.optimized;
+				const failedChunks = result.chunks.filter((chunk) => chunk.error).length;
+				s.stop(
+					failedChunks > 0
+						? color.yellow(`Optimization complete; ${failedChunks} section(s) kept their original text`)
+						: "Optimization complete",
+				);
+				showChunkSavings(
+					result.chunks.map((chunk) => ({
+						heading: chunk.heading,
+						originalTokens: estimateTokens(chunk.original, tokenizer),
+						optimizedTokens: estimateTokens(chunk.optimized, tokenizer),
+						error: chunk.error,
+						cached: chunk.cached,
+					})),
+					tokenizer,
+				);
+
+				const sections = showDiffPreview(content, result.optimized, tokenizer);
+
+				const issues = validateOptimizedContent(sections);
+				showContentIssues(issues);
+
+				// Accepted sections use the optimized text, the rest keep the original.
+				// Unattended runs never accept a section that lost content.
+				const flagged = new Set(issues.map((issue) => issue.section));
+				const accepted = options.yes
+					? new Set(sections.map((_, i) => i).filter((i) => !flagged.has(i)))
+					: await askAcceptSections(sections, issues);
+				finalContent = mergeSections(sections, accepted);
+				if (accepted.size < sections.length) {
+					p.log.info(`Kept original text for ${sections.length - accepted.size} section(s)`);
 				}
 			} else {
 				s.stop(color.yellow(`Optimization failed: ${result.error}`));
@@ -206,23 +609,57 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 		}
 	}
 
+	// 6.5. Token budget (checked on the final, possibly optimized, document)
+	const finalTokens = estimateTokens(finalContent, tokenizer);
+	const overBudget = !!options.maxTokens && finalTokens > options.maxTokens;
+	if (options.breakdown || overBudget) {
+		p.log.message(
+			formatTokenTable(
+				ruleTokenTable(selectedRules, targetTool, tokenizer),
+				finalTokens,
+				options.maxTokens,
+				tokenizer,
+			).join("\n"),
+		);
+	}
+	if (overBudget) {
+		const message = `Composed document is ${formatTokenCount(finalTokens, tokenizer)} tokens, over the ${options.maxTokens}-token budget`;
+		if (options.overBudget === "warn") {
+			p.log.warn(message);
+		} else {
+			failCompose(`${message}. Nothing written.`);
+			return;
+		}
+	} else if (options.maxTokens) {
+		p.log.info(`Within budget: ${formatTokenCount(finalTokens, tokenizer)} / ${options.maxTokens} tokens`);
+	}
+
 	// 7. Determine output targets
 	let targets: OutputTarget[];
-	if (outputPath) {
+	if (options.targets?.length) {
+		try {
+			targets = options.targets.map((spec) => parseOutputTarget(spec, targetTool));
+		} catch (err) {
+			failCompose(err);
+			return;
+		}
+		for (const target of targets) {
+			if (target.kind === "directory" && !options.check) await mkdir(target.dir, { recursive: true });
+		}
+	} else if (outputPath) {
 		if (outputPath.endsWith("/")) {
-			await mkdir(outputPath, { recursive: true });
+			if (!options.check) await mkdir(outputPath, { recursive: true });
 			targets = [{ kind: "directory", dir: outputPath, tool: targetTool }];
 		} else {
 			targets = [{ kind: "single-file", path: outputPath }];
 		}
+	} else if (options.yes) {
+		targets = [defaultOutputTarget(targetTool)];
 	} else {
 		targets = await pickOutputTargets(detected, targetTool);
 	}
 
 	// 8. Format and write to targets
-	const s = p.spinner();
-	s.start("Formatting & writing...");
-
 	const formattedContent = await formatMarkdown(finalContent);
 
 	// Format each rule for directory writes
@@ -234,6 +671,23 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 		})),
 	);
 
+	const outputs: ComposedTarget[] = targets.map((target) =>
+		target.kind === "single-file"
+			? { label: target.path, files: [{ path: target.path, content: formattedContent }], tokenizer: tokenizer.id }
+			: {
+					label: target.dir,
+					files: renderAsDirectory(formattedRules, target.dir, target.tool),
+					tokenizer: tokenizer.id,
+				},
+	);
+	for (const target of targets) {
+		if (target.kind === "directory") warnLongDescriptions(formattedRules, target.tool);
+	}
+	if (options.check) return outputs;
+
+	const s = p.spinner();
+	s.start("Formatting & writing...");
+
 	for (const target of targets) {
 		if (target.kind === "single-file") {
 			await writeAsSingleFile(formattedContent, target.path);
@@ -244,9 +698,8 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 		}
 	}
 
-	// 9. Regenerate coding-tools/ variants
-	const variantResults = await generateVariants();
-	const totalTools = variantResults.length;
+	// 9. Regenerate coding-tools/ variants (watch mode updates them incrementally instead)
+	const variantResults = options.watch ? [] : await generateVariants();
 
 	const n = selectedRules.length;
 	const filesWritten = targets.reduce((acc, t) => acc + (t.kind === "single-file" ? 1 : selectedRules.length), 0);
@@ -262,16 +715,17 @@ export const runCompose = async (inputPath?: string, outputPath?: string): Promi
 		(acc, t) =>
 			acc +
 			(t.kind === "single-file"
-				? estimateTokens(formattedContent)
-				: formattedRules.reduce((sum, r) => sum + estimateTokens(r.body), 0)),
+				? estimateTokens(formattedContent, tokenizer)
+				: formattedRules.reduce((sum, r) => sum + estimateTokens(r.body, tokenizer), 0)),
 		0,
 	);
 	const elapsedMs = Date.now() - startMs;
 	const t = elapsedMs < 1000 ? `${elapsedMs} ms` : `${(elapsedMs / 1000).toFixed(1)} s`;
 
 	s.stop(`Written to ${targets.length} target(s)`);
-	p.log.info(`Regenerated coding-tools/ (${totalTools} tools)`);
+	if (!options.watch) p.log.info(`Regenerated coding-tools/ (${variantResults.length} tools)`);
 	p.log.success(
-		`Composed ${n} rules. Created ${filesWritten} files. ${linesWritten} lines, ~${tokensWritten} tokens. Took ${t}.`,
+		`Composed ${n} rules. Created ${filesWritten} files. ${linesWritten} lines, ${formatTokenCount(tokensWritten, tokenizer)} tokens. Took ${t}.`,
 	);
+	return outputs;
 };
@@ -0,0 +1,144 @@
+import { access, readFile } from "node:fs/promises";
+import { extname, join, relative, resolve, dirname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { load as loadYaml } from "js-yaml";
+import {
+	composeManifestSchema,
+	type ComposeManifest,
+	type ComposeProfile,
+	type LLMSettings,
+} from "../shared/schemas.js";
+
+/** Manifest file names, in lookup order */
+export const MANIFEST_FILENAMES = [
+	"rule-composer.config.json",
+	"rule-composer.config.yaml",
+	"rule-composer.config.yml",
+	"rule-composer.config.ts",
+	"rule-composer.config.mjs",
+	"rule-composer.config.js",
+];
+
+/** Profile name used when the manifest defines no profiles */
+export const DEFAULT_PROFILE = "default";
+
+const exists = async (path: string): Promise<boolean> => {
+	try {
+		await access(path);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Read the raw (unvalidated) manifest data. JSON and YAML are parsed; TS/JS modules are imported
+ * (default export). Plain Node can't import .ts, so TS manifests go through tsx's loader.
+ */
+const readManifestData = async (path: string): Promise<unknown> => {
+	const ext = extname(path);
+	if (ext === ".json") {
+		return JSON.parse(await readFile(path, "utf-8"));
+	}
+	if (ext === ".yaml" || ext === ".yml") {
+		return loadYaml(await readFile(path, "utf-8")) ?? {};
+	}
+	const url = pathToFileURL(path).href;
+	if (ext === ".ts") {
+		const { tsImport } = await import("tsx/esm/api");
+		const mod = (await tsImport(url, import.meta.url)) as { default?: { __esModule?: boolean; default?: unknown } };
+		// Outside a "type": "module" package tsx compiles to CommonJS, nesting the default export once more
+		return mod.default?.__esModule ? mod.default.default : (mod.default ?? mod);
+	}
+	const mod = (await import(url)) as { default?: unknown };
+	return mod.default ?? mod;
+};
+
+/** Validate raw manifest data. Throws with every zod issue listed. */
+export const parseComposeManifest = (data: unknown, source = "manifest"): ComposeManifest => {
+	const parsed = composeManifestSchema.safeParse(data);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+		throw new Error(`Invalid ${source}: ${issues.join("; ")}`);
+	}
+	return parsed.data;
+};
+
+/**
+ * Find and load the compose manifest. With an explicit path, that file must exist;
+ * otherwise the first of MANIFEST_FILENAMES in dir is used. Returns null when none exists.
+ */
+export const loadComposeManifest = async (
+	dir: string,
+	explicitPath?: string,
+): Promise<{ path: string; manifest: ComposeManifest } | null> => {
+	let path: string | undefined;
+	if (explicitPath) {
+		path = resolve(dir, explicitPath);
+		if (!(await exists(path))) throw new Error(`Config not found: ${path}`);
+	} else {
+		for (const name of MANIFEST_FILENAMES) {
+			if (await exists(join(dir, name))) {
+				path = join(dir, name);
+				break;
+			}
+		}
+	}
+	if (!path) return null;
+
+	let data: unknown;
+	try {
+		data = await readManifestData(path);
+	} catch (err) {
+		throw new Error(`Failed to read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	return { path, manifest: parseComposeManifest(data, relative(dir, path) || path) };
+};
+
+/** Merge a profile over the manifest's top-level defaults. `options` merges per key; everything else replaces. */
+const mergeProfile = (defaults: ComposeProfile, profile: ComposeProfile): ComposeProfile => {
+	const options = defaults.options || profile.options ? { ...defaults.options, ...profile.options } : undefined;
+	return { ...defaults, ...profile, ...(options ? { options } : {}) };
+};
+
+/**
+ * Resolve the profiles to compose. No profiles → one "default" profile from the top-level fields.
+ * With a name, only that profile (error if unknown); without, every profile in declaration order.
+ */
+export const resolveManifestProfiles = (
+	manifest: ComposeManifest,
+	profileName?: string,
+): Array<{ name: string; profile: ComposeProfile }> => {
+	const { profiles, llm: _llm, ...defaults } = manifest;
+
+	if (!profiles || Object.keys(profiles).length === 0) {
+		if (profileName && profileName !== DEFAULT_PROFILE) {
+			throw new Error(`Unknown profile "${profileName}" (manifest defines no profiles)`);
+		}
+		return [{ name: DEFAULT_PROFILE, profile: defaults }];
+	}
+
+	if (profileName) {
+		const profile = profiles[profileName];
+		if (!profile) {
+			throw new Error(`Unknown profile "${profileName}". Available: ${Object.keys(profiles).join(", ")}`);
+		}
+		return [{ name: profileName, profile: mergeProfile(defaults, profile) }];
+	}
+
+	return Object.entries(profiles).map(([name, profile]) => ({ name, profile: mergeProfile(defaults, profile) }));
+};
+
+/** The manifest's `llm` section, if a manifest exists in dir (used by commands that don't compose, e.g. decompose) */
+export const loadManifestLLMSettings = async (dir: string): Promise<LLMSettings | undefined> =>
+	(await loadComposeManifest(dir))?.manifest.llm;
+
+/**
+ * Resolve a path from the manifest (relative to the manifest's directory) to a path relative to cwd.
+ * Keeps a trailing "/" (directory targets) and leaves dir:<toolId> specs untouched.
+ */
+export const resolveManifestPath = (manifestPath: string, value: string, cwd: string): string => {
+	if (value.startsWith("dir:")) return value;
+	const resolved = relative(cwd, resolve(dirname(manifestPath), value)) || ".";
+	return value.endsWith("/") && !resolved.endsWith("/") ? `${resolved}/` : resolved;
+};
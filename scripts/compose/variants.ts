@@ -1,8 +1,8 @@
-import { readdir, readFile, writeFile, mkdir, rm } from "node:fs/promises";
-import { join, resolve, dirname, extname, basename, relative } from "node:path";
+import { readdir, readFile, writeFile, mkdir, rm, stat } from "node:fs/promises";
+import { join, resolve, dirname, extname, basename, relative, sep } from "node:path";
 import { fileURLToPath } from "node:url";
 import matter from "gray-matter";
-import { TOOL_IDS, type ToolId } from "../shared/types.js";
+import { TOOL_IDS, type RenderedFile, type ToolId } from "../shared/types.js";
 import { TOOL_REGISTRY, resolvePlaceholders, formatMarkdown, quoteGlobs } from "../shared/formats.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -80,18 +80,71 @@ const processContent = (content: string, toolId: ToolId, hasFrontmatter: boolean
 	return body;
 };
 
+/** Output path of a rule or skill source file inside a tool's variant directory */
+const getVariantPath = (
+	filePath: string,
+	kind: "rule" | "skill",
+	sourceDir: string,
+	toolDir: string,
+	toolId: ToolId,
+) => {
+	if (kind === "skill") return join(toolDir, "skills", relative(sourceDir, filePath));
+	const originalExt = extname(filePath);
+	return join(toolDir, "rules", `${basename(filePath, originalExt)}${getToolExtension(toolId, originalExt)}`);
+};
+
+/** Render one rule or skill source file for one tool */
+const renderVariantFile = async (
+	filePath: string,
+	kind: "rule" | "skill",
+	sourceDir: string,
+	toolDir: string,
+	toolId: ToolId,
+	format: boolean,
+): Promise<RenderedFile> => {
+	const content = await readFile(filePath, "utf-8");
+	const outPath = getVariantPath(filePath, kind, sourceDir, toolDir, toolId);
+
+	let finalContent: string;
+	if (kind === "skill") {
+		finalContent = resolvePlaceholders(content, toolId);
+	} else {
+		const hasFrontmatter = content.startsWith("---");
+		if (TOOL_REGISTRY[toolId]?.hasFrontmatter && hasFrontmatter) {
+			const parsed = matter(quoteGlobs(content));
+			const resolvedData: Record<string, unknown> = {};
+			for (const [key, value] of Object.entries(parsed.data as Record<string, unknown>)) {
+				resolvedData[key] = typeof value === "string" ? resolvePlaceholders(value, toolId) : value;
+			}
+			finalContent = matter.stringify(resolvePlaceholders(parsed.content.trim(), toolId), resolvedData);
+		} else {
+			finalContent = processContent(content, toolId, hasFrontmatter);
+		}
+	}
+
+	return { path: outPath, content: format ? await formatMarkdown(finalContent, outPath) : finalContent };
+};
+
+/** Rendered coding-tools/<toolId>/ directory: every file it should contain, README included */
+export interface VariantOutput {
+	toolId: ToolId;
+	/** The tool's directory (outputDir/<toolId>) */
+	dir: string;
+	files: RenderedFile[];
+}
+
 /**
- * Generate coding-tools/ directories for all tools.
- * Each tool gets a subdirectory with pre-processed rule files.
+ * Render coding-tools/ variants in memory without touching outputDir.
+ * generateVariants writes exactly these files; compose --check compares them with disk.
  */
-export const generateVariants = async (
+export const renderVariants = async (
 	rulesDir: string = join(ROOT_DIR, "rules"),
 	skillsDir: string = join(ROOT_DIR, "skills"),
 	outputDir: string = join(ROOT_DIR, "coding-tools"),
 	toolIds: readonly ToolId[] = TOOL_IDS,
 	format: boolean = true,
-): Promise<{ toolId: ToolId; fileCount: number }[]> => {
-	const results: { toolId: ToolId; fileCount: number }[] = [];
+): Promise<VariantOutput[]> => {
+	const outputs: VariantOutput[] = [];
 
 	// Collect all source rule files
 	const ruleFiles = await walkFiles(rulesDir);
@@ -99,62 +152,121 @@ export const generateVariants = async (
 
 	for (const toolId of toolIds) {
 		const toolDir = join(outputDir, toolId);
-
-		// Clean and recreate
-		await rm(toolDir, { recursive: true, force: true });
-		const rulesOutDir = join(toolDir, "rules");
-		const skillsOutDir = join(toolDir, "skills");
-		await mkdir(rulesOutDir, { recursive: true });
-		await mkdir(skillsOutDir, { recursive: true });
-
-		let fileCount = 0;
+		const files: RenderedFile[] = [];
 
 		// Process rules into toolDir/rules/
 		for (const filePath of ruleFiles) {
-			const content = await readFile(filePath, "utf-8");
-			const originalExt = extname(filePath);
-			const hasFrontmatter = content.startsWith("---");
-			const name = basename(filePath, originalExt);
-			const newExt = getToolExtension(toolId, originalExt);
-			const processed = processContent(content, toolId, hasFrontmatter);
-
-			let finalContent: string;
-			if (TOOL_REGISTRY[toolId]?.hasFrontmatter && hasFrontmatter) {
-				const parsed = matter(quoteGlobs(content));
-				const resolvedData: Record<string, unknown> = {};
-				for (const [key, value] of Object.entries(parsed.data as Record<string, unknown>)) {
-					resolvedData[key] = typeof value === "string" ? resolvePlaceholders(value, toolId) : value;
-				}
-				finalContent = matter.stringify(resolvePlaceholders(parsed.content.trim(), toolId), resolvedData);
-			} else {
-				finalContent = processed;
-			}
-
-			const outPath = join(rulesOutDir, `${name}${newExt}`);
-			await writeFile(outPath, format ? await formatMarkdown(finalContent, outPath) : finalContent, "utf-8");
-			fileCount++;
+			files.push(await renderVariantFile(filePath, "rule", rulesDir, toolDir, toolId, format));
 		}
 
 		// Process skills into toolDir/skills/<skill-name>/SKILL.md (standard layout)
 		for (const filePath of skillFiles) {
-			const content = await readFile(filePath, "utf-8");
-			const relativePath = relative(skillsDir, filePath);
-			const processed = resolvePlaceholders(content, toolId);
-			const outPath = join(skillsOutDir, relativePath);
-			await mkdir(dirname(outPath), { recursive: true });
-			await writeFile(outPath, format ? await formatMarkdown(processed, outPath) : processed, "utf-8");
-			fileCount++;
+			files.push(await renderVariantFile(filePath, "skill", skillsDir, toolDir, toolId, format));
 		}
 
-		// Write README at tool root
+		// README at tool root
 		const readmePath = join(toolDir, "README.md");
 		const readmeContent = generateReadme(toolId);
-		await writeFile(readmePath, format ? await formatMarkdown(readmeContent, readmePath) : readmeContent, "utf-8");
+		files.push({
+			path: readmePath,
+			content: format ? await formatMarkdown(readmeContent, readmePath) : readmeContent,
+		});
+
+		outputs.push({ toolId, dir: toolDir, files });
+	}
 
-		results.push({ toolId, fileCount });
+	return outputs;
+};
+
+/**
+ * Generate coding-tools/ directories for all tools.
+ * Each tool gets a subdirectory with pre-processed rule files.
+ */
+export const generateVariants = async (
+	rulesDir: string = join(ROOT_DIR, "rules"),
+	skillsDir: string = join(ROOT_DIR, "skills"),
+	outputDir: string = join(ROOT_DIR, "coding-tools"),
+	toolIds: readonly ToolId[] = TOOL_IDS,
+	format: boolean = true,
+): Promise<{ toolId: ToolId; fileCount: number }[]> => {
+	const outputs = await renderVariants(rulesDir, skillsDir, outputDir, toolIds, format);
+
+	for (const { dir, files } of outputs) {
+		// Clean and recreate
+		await rm(dir, { recursive: true, force: true });
+		await mkdir(join(dir, "rules"), { recursive: true });
+		await mkdir(join(dir, "skills"), { recursive: true });
+
+		for (const file of files) {
+			await mkdir(dirname(file.path), { recursive: true });
+			await writeFile(file.path, file.content, "utf-8");
+		}
+	}
+
+	// README is not counted
+	return outputs.map(({ toolId, files }) => ({ toolId, fileCount: files.length - 1 }));
+};
+
+/**
+ * Incrementally update coding-tools/ for changed source files (watch mode). Only the variant files
+ * derived from the changed paths are rewritten, or removed when the source no longer exists.
+ * Paths outside rulesDir/skillsDir, or under _/. prefixed directories, are ignored.
+ */
+export const updateVariants = async (
+	changedPaths: Iterable<string>,
+	rulesDir: string = join(ROOT_DIR, "rules"),
+	skillsDir: string = join(ROOT_DIR, "skills"),
+	outputDir: string = join(ROOT_DIR, "coding-tools"),
+	toolIds: readonly ToolId[] = TOOL_IDS,
+	format: boolean = true,
+): Promise<{ written: string[]; removed: string[] }> => {
+	const written: string[] = [];
+	const removed: string[] = [];
+
+	// A changed directory (e.g. a skill folder moved in) stands for every file inside it
+	const expanded = new Set<string>();
+	for (const changed of changedPaths) {
+		const filePath = resolve(changed);
+		const info = await stat(filePath).catch(() => null);
+		if (info?.isDirectory()) {
+			for (const file of await walkFiles(filePath)) expanded.add(file);
+		} else {
+			expanded.add(filePath);
+		}
+	}
+
+	for (const filePath of expanded) {
+		const sourceDir = [rulesDir, skillsDir]
+			.map((dir) => resolve(dir))
+			.find((dir) => {
+				const rel = relative(dir, filePath);
+				return (
+					rel && !rel.startsWith("..") && !rel.split(sep).some((s) => s.startsWith("_") || s.startsWith("."))
+				);
+			});
+		if (!sourceDir) continue;
+		const kind = sourceDir === resolve(skillsDir) ? "skill" : "rule";
+		const exists = await stat(filePath)
+			.then((info) => info.isFile())
+			.catch(() => false);
+
+		for (const toolId of toolIds) {
+			const toolDir = join(outputDir, toolId);
+			if (exists) {
+				const file = await renderVariantFile(filePath, kind, sourceDir, toolDir, toolId, format);
+				await mkdir(dirname(file.path), { recursive: true });
+				await writeFile(file.path, file.content, "utf-8");
+				written.push(file.path);
+			} else {
+				// Deleted file, or a deleted skill directory
+				const outPath = getVariantPath(filePath, kind, sourceDir, toolDir, toolId);
+				await rm(outPath, { recursive: true, force: true });
+				removed.push(outPath);
+			}
+		}
 	}
 
-	return results;
+	return { written, removed };
 };
 
 // When run directly (e.g., `tsx scripts/compose/variants.ts`)
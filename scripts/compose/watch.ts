@@ -0,0 +1,177 @@
+import { watch, type FSWatcher } from "node:fs";
+import { stat } from "node:fs/promises";
+import { join, relative, resolve } from "node:path";
+import * as p from "@clack/prompts";
+import color from "picocolors";
+import { estimateTokens } from "./composer.js";
+import { generateVariants, updateVariants } from "./variants.js";
+import { TOKENIZERS, formatTokenCount, type Tokenizer } from "../shared/tokenizer.js";
+import type { ComposedTarget } from "../shared/types.js";
+
+/** Source directories watched by compose --watch, relative to cwd */
+export const WATCH_DIRS = ["rules", "skills", "agents", "commands"];
+
+/** Quiet period after the last file event before rebuilding */
+export const WATCH_DEBOUNCE_MS = 200;
+
+/** The tokenizer compose counted a target with; o200k when it recorded none */
+const targetTokenizer = (target: ComposedTarget): Tokenizer => TOKENIZERS[target.tokenizer ?? "o200k"];
+
+/** Tokenizer per target label, for formatTokenDeltas */
+export const targetTokenizers = (targets: ComposedTarget[]): Map<string, Tokenizer> =>
+	new Map(targets.map((t) => [t.label, targetTokenizer(t)]));
+
+/** Token count per target label, with the target's tokenizer (directory targets sum their files) */
+export const countTargetTokens = (targets: ComposedTarget[]): Map<string, number> =>
+	new Map(
+		targets.map((t) => [
+			t.label,
+			t.files.reduce((sum, f) => sum + estimateTokens(f.content, targetTokenizer(t)), 0),
+		]),
+	);
+
+/**
+ * One line per target with its token count and the change since the previous build. Counts from
+ * an approximate tokenizer get a "~", as in the compose summary.
+ */
+export const formatTokenDeltas = (
+	before: Map<string, number>,
+	after: Map<string, number>,
+	tokenizers: ReadonlyMap<string, Tokenizer> = new Map(),
+): string[] => {
+	const lines: string[] = [];
+	for (const [label, tokens] of after) {
+		const previous = before.get(label);
+		let delta: string;
+		if (previous === undefined) {
+			delta = color.cyan("new");
+		} else if (tokens === previous) {
+			delta = color.dim("±0");
+		} else {
+			const diff = tokens - previous;
+			delta = diff > 0 ? color.yellow(`+${diff}`) : color.green(String(diff));
+		}
+		lines.push(
+			`${label}: ${formatTokenCount(tokens, tokenizers.get(label) ?? TOKENIZERS.o200k)} tokens (${delta})`,
+		);
+	}
+	for (const label of before.keys()) {
+		if (!after.has(label)) lines.push(`${label}: ${color.dim("no longer a target")}`);
+	}
+	return lines;
+};
+
+/**
+ * Batch paths and call run once no new path has arrived for `ms`. Paths pushed while a run is in
+ * progress are collected into the next run, so runs never overlap.
+ */
+export const createDebouncedBatch = (
+	run: (paths: Set<string>) => Promise<void>,
+	ms: number = WATCH_DEBOUNCE_MS,
+): { push: (path: string) => void; cancel: () => void } => {
+	let pending = new Set<string>();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let running = false;
+
+	const fire = () => {
+		timer = undefined;
+		const batch = pending;
+		pending = new Set();
+		running = true;
+		void run(batch).finally(() => {
+			running = false;
+			if (pending.size > 0) schedule();
+		});
+	};
+
+	const schedule = () => {
+		if (timer) clearTimeout(timer);
+		timer = setTimeout(fire, ms);
+	};
+
+	return {
+		push: (path) => {
+			pending.add(path);
+			if (!running) schedule();
+		},
+		cancel: () => {
+			if (timer) clearTimeout(timer);
+			pending.clear();
+		},
+	};
+};
+
+/**
+ * compose --watch: regenerate coding-tools/ once, then watch WATCH_DIRS and re-run build after
+ * each debounced batch of changes. Only the variant files derived from changed sources are
+ * regenerated. Sources and coding-tools/ both resolve against cwd. Recursive fs.watch needs
+ * Node 20 on Linux. Runs until SIGINT (or the abort signal).
+ */
+export const watchCompose = async (
+	build: () => Promise<ComposedTarget[] | undefined>,
+	initial: ComposedTarget[],
+	options: { cwd?: string; dirs?: string[]; debounceMs?: number; signal?: AbortSignal } = {},
+): Promise<void> => {
+	const cwd = options.cwd ?? process.cwd();
+	const dirs: string[] = [];
+	for (const dir of options.dirs ?? WATCH_DIRS) {
+		const abs = resolve(cwd, dir);
+		if ((await stat(abs).catch(() => null))?.isDirectory()) dirs.push(abs);
+	}
+	if (dirs.length === 0) {
+		p.log.error(`Nothing to watch: none of ${(options.dirs ?? WATCH_DIRS).join(", ")} exist in ${cwd}`);
+		return;
+	}
+
+	const [rulesDir, skillsDir, outputDir] = ["rules", "skills", "coding-tools"].map((dir) => resolve(cwd, dir));
+	const variantResults = await generateVariants(rulesDir, skillsDir, outputDir);
+	p.log.info(`Regenerated coding-tools/ (${variantResults.length} tools)`);
+
+	let previous = countTargetTokens(initial);
+
+	const rebuild = async (paths: Set<string>) => {
+		p.log.step(`Changed: ${[...paths].map((path) => relative(cwd, path) || path).join(", ")}`);
+		try {
+			const targets = await build();
+			if (!targets) {
+				p.log.warn("Rebuild failed; waiting for changes...");
+				return;
+			}
+			// A good build clears the exit code a failed one set
+			process.exitCode = 0;
+			const { written, removed } = await updateVariants(paths, rulesDir, skillsDir, outputDir);
+			if (written.length + removed.length > 0) {
+				p.log.info(`coding-tools/: ${written.length} updated, ${removed.length} removed`);
+			}
+			const current = countTargetTokens(targets);
+			p.log.message(formatTokenDeltas(previous, current, targetTokenizers(targets)).join("\n"));
+			previous = current;
+		} catch (err) {
+			p.log.error(err instanceof Error ? err.message : String(err));
+		}
+	};
+
+	const batch = createDebouncedBatch(rebuild, options.debounceMs);
+	const watchers: FSWatcher[] = dirs.map((dir) =>
+		watch(dir, { recursive: true }, (_event, filename) => {
+			if (filename) batch.push(join(dir, filename.toString()));
+		}),
+	);
+
+	p.log.info(
+		`Watching ${dirs.map((dir) => relative(cwd, dir) || dir).join(", ")} for changes. Press Ctrl+C to stop.`,
+	);
+
+	await new Promise<void>((done) => {
+		const stop = () => {
+			process.off("SIGINT", stop);
+			options.signal?.removeEventListener("abort", stop);
+			done();
+		};
+		process.on("SIGINT", stop);
+		options.signal?.addEventListener("abort", stop);
+	});
+
+	batch.cancel();
+	for (const watcher of watchers) watcher.close();
+};
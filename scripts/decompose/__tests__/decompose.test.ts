@@ -1,6 +1,14 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as p from "@clack/prompts";
 import matter from "gray-matter";
-import { extractProseDescription, buildRawContent } from "../index.js";
+import {
+	extractProseDescription,
+	buildRawContent,
+	decompose,
+	decrementHeadings,
+	splitsToRules,
+} from "../decomposer.js";
+import { runDecompose } from "../index.js";
 import { splitByHeadings } from "../splitter.js";
 import { extractSectionMetadata } from "../../shared/formats.js";
 import { resolveHashToRelative } from "../../shared/link-resolution.js";
@@ -41,11 +49,11 @@ describe("extractProseDescription", () => {
 		expect(extractProseDescription(content)).toBe("Actual prose here.");
 	});
 
-	it("truncates long descriptions to 120 characters", () => {
+	it("keeps long descriptions whole", () => {
 		const longLine = "A".repeat(200);
 		const content = `## Section\n\n${longLine}`;
 
-		expect(extractProseDescription(content)).toHaveLength(120);
+		expect(extractProseDescription(content)).toBe(longLine);
 	});
 
 	it("returns empty string for heading-only content and empty input", () => {
@@ -184,3 +192,133 @@ describe("decompose link resolution", () => {
 		expect(cleanContent).not.toContain("#1-approach");
 	});
 });
+
+describe("decompose", () => {
+	const input = [
+		"# Rules",
+		"",
+		"## 1. Approach",
+		"",
+		"Plan first. Rules live in `.cursor/rules/`.",
+		"",
+		"## 2. Testing",
+		"",
+		"> [!globs] **/*.test.ts",
+		"",
+		"Run tests. See [Approach](#1-approach).",
+		"",
+		"## 3. Review",
+		"",
+		"> [!type] skill",
+		"",
+		"Review checklist.",
+	].join("\n");
+
+	it("returns one rule per H2 with frontmatter for cursor", () => {
+		const rules = decompose(input);
+		expect(rules.map((r) => [r.name, r.type])).toEqual([
+			["approach", "rule"],
+			["testing", "rule"],
+			["review", "skill"],
+		]);
+
+		const testing = rules[1]!;
+		expect(testing.globs).toBe("**/*.test.ts");
+		expect(testing.alwaysApply).toBe(false);
+		expect(testing.body).toContain("[Approach](./01-approach.mdc)");
+		expect(testing.body).not.toContain("[!globs]");
+		expect(matter(testing.rawContent).data).toMatchObject({
+			alwaysApply: false,
+			description: "Run tests. See [Approach](./01-approach.mdc).",
+		});
+	});
+
+	it("replaces tool-specific paths with placeholders unless disabled", () => {
+		expect(decompose(input)[0]!.body).toContain("{{RULES_DIR}}");
+		expect(decompose(input)[0]!.hasPlaceholders).toBe(true);
+		expect(decompose(input, { placeholders: false })[0]!.body).toContain(".cursor/rules/");
+	});
+
+	it("never replaces paths inside a > [!frontmatter] payload", () => {
+		const composed =
+			'## Paths\n\n> [!frontmatter] `{"description":"Lives in .cursor/rules/"}`\n\nSee .cursor/rules/.';
+		const [rule] = decompose(composed);
+		expect(rule!.body).toContain("See {{RULES_DIR}}.");
+		expect(matter(rule!.rawContent).data).toEqual({ description: "Lives in .cursor/rules/" });
+	});
+
+	it("follows the tool format and numbering options", () => {
+		const rules = decompose(input, { tool: "claude", numbered: false });
+		expect(rules[1]!.rawContent).toBe(rules[1]!.body);
+		expect(rules[1]!.source).toBe("claude");
+		expect(rules[1]!.body).toContain("[Approach](./approach.md)");
+	});
+
+	it("restores agent-requested and manual rules from > [!activation] callouts", () => {
+		const rules = decompose(
+			"## Deploy\n\n> [!activation] agent\n\n> Use when deploying.\n\nSteps.\n\n## Legacy\n\n> [!activation] manual\n\n> Old notes.\n\nNotes.",
+			{ numbered: false },
+		);
+		expect(rules.map((r) => r.activation)).toEqual(["agent", "manual"]);
+		expect(matter(rules[0]!.rawContent).data).toEqual({ alwaysApply: false, description: "Use when deploying." });
+		// A description would make Cursor treat the rule as agent-requested
+		expect(matter(rules[1]!.rawContent).data).toEqual({ alwaysApply: false });
+		expect(rules[1]!.description).toBe("Old notes.");
+	});
+
+	it("uses the given type for sections without a > [!type] callout", () => {
+		const rules = splitsToRules(splitByHeadings(input), { type: "agent" });
+		expect(rules.map((r) => r.type)).toEqual(["agent", "agent", "skill"]);
+	});
+
+	it("restores file names and frontmatter from > [!name] and > [!frontmatter] callouts", () => {
+		const composed = [
+			"## Deploy",
+			"",
+			"> [!name] 03-deploy",
+			"",
+			'> [!frontmatter] `{"name":"deploy","description":"Ship to production","disable-model-invocation":true,"priority":2}`',
+			"",
+			"Ship it. See [Notes](#2-notes).",
+			"",
+			"## Notes",
+			"",
+			"> [!name] 99-notes",
+			"",
+			"Plain notes.",
+		].join("\n");
+
+		const rules = decompose(composed, { numbered: false });
+		expect(rules.map((r) => r.name)).toEqual(["03-deploy", "99-notes"]);
+		expect(rules[0]!.description).toBe("Ship to production");
+		expect(rules[0]!.priority).toBe(2);
+		expect(rules[0]!.body).toContain("[Notes](./99-notes.mdc)");
+		const { data } = matter(rules[0]!.rawContent);
+		expect(Object.keys(data)).toEqual(["name", "description", "disable-model-invocation", "priority"]);
+		expect(data["disable-model-invocation"]).toBe(true);
+
+		// Numbered output adds fresh prefixes, so the callout's own prefix is dropped
+		expect(decompose(composed).map((r) => r.name)).toEqual(["deploy", "notes"]);
+	});
+});
+
+describe("decrementHeadings", () => {
+	it("decrements H2–H6 by one, leaving H1s and fenced # lines alone", () => {
+		const content = "# Title\n\n## Rule\n\n### Sub\n\n```sh\n## not a heading\n```";
+		expect(decrementHeadings(content)).toBe("# Title\n\n# Rule\n\n## Sub\n\n```sh\n## not a heading\n```");
+	});
+});
+
+describe("runDecompose errors", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		process.exitCode = undefined;
+	});
+
+	it("logs the error and exits with code 1", async () => {
+		const error = vi.spyOn(p.log, "error").mockImplementation(() => {});
+		await runDecompose("does-not-exist.md", undefined, { yes: true });
+		expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Path not found: .*does-not-exist\.md$/));
+		expect(process.exitCode).toBe(1);
+	});
+});
@@ -243,3 +243,36 @@ describe("reconstructFromHeadings", () => {
 		expect(splits[0]!.description).toBe("Custom AI-generated description");
 	});
 });
+
+describe("split options", () => {
+	it("parseHeadingMap keys H1 headings with level 1 and marker names when markers are present", () => {
+		const h1Doc = "# Approach\n\nPlan.\n\n## Detail\n\nMore.\n\n# Testing\n\nVitest.";
+		expect([...parseHeadingMap(h1Doc, { level: 1 }).keys()]).toEqual(["Approach", "Testing"]);
+
+		const markerDoc = "Intro.\n\n<!-- rule: style -->\n## Tabs\n\nUse tabs.\n<!-- rule: tests -->\n## Vitest";
+		const map = parseHeadingMap(markerDoc);
+		expect([...map.keys()]).toEqual([PREAMBLE_KEY, "style", "tests"]);
+		expect(map.get("style")).toBe("## Tabs\n\nUse tabs.");
+	});
+
+	it("reconstructFromHeadings applies the split level and merges small rules", () => {
+		const h3Doc = "### Approach\n\nPlan.\nConfirm.\n\n### Testing\n\nVitest.";
+		const { splits, warnings } = reconstructFromHeadings(
+			h3Doc,
+			[
+				{ name: "approach", description: "How to work", headings: ["Approach"] },
+				{ name: "testing", description: "Tests", headings: ["Testing"] },
+			],
+			{ level: 3, minLines: 3 },
+		);
+		expect(warnings).toEqual([]);
+		expect(splits).toEqual([
+			{
+				name: "approach",
+				description: "How to work",
+				content: "### Approach\n\nPlan.\nConfirm.\n\n### Testing\n\nVitest.",
+				directory: undefined,
+			},
+		]);
+	});
+});
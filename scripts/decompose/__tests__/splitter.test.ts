@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { splitByHeadings, stripHeadingNumber } from "../splitter.js";
+import { mergeSmallSections, splitByHeadings, stripHeadingNumber } from "../splitter.js";
 
 describe("splitByHeadings", () => {
 	it("splits on H2 boundaries", () => {
@@ -128,6 +128,146 @@ describe("splitByHeadings", () => {
 	});
 });
 
+describe("splitByHeadings options", () => {
+	it("splits on H1 sections with level 1, keeping H2s inside", () => {
+		const markdown = [
+			"# 1. Approach",
+			"",
+			"Plan first.",
+			"",
+			"## Details",
+			"",
+			"More.",
+			"",
+			"# Coding",
+			"",
+			"Early returns.",
+		].join("\n");
+
+		const sections = splitByHeadings(markdown, { level: 1 });
+		expect(sections.map((s) => s.name)).toEqual(["approach", "coding"]);
+		expect(sections[0]!.content).toBe("# Approach\n\nPlan first.\n\n## Details\n\nMore.");
+	});
+
+	it("splits on H3 sections with level 3, ignoring a lone H2 above them", () => {
+		const markdown = [
+			"## Rules",
+			"",
+			"### Testing",
+			"",
+			"Run Vitest.",
+			"",
+			"### Naming",
+			"",
+			"kebab-case files.",
+		].join("\n");
+
+		const sections = splitByHeadings(markdown, { level: 3 });
+		expect(sections.map((s) => s.name)).toEqual(["testing", "naming"]);
+		expect(sections[1]!.content).toBe("### Naming\n\nkebab-case files.");
+	});
+
+	it("splits on <!-- rule: name --> markers when present, unless markers are disabled", () => {
+		const markdown = [
+			"# Rules",
+			"",
+			"<!-- rule: Style Guide -->",
+			"## Formatting",
+			"",
+			"Tabs.",
+			"",
+			"## Naming",
+			"",
+			"camelCase.",
+			"<!-- rule: testing -->",
+			"## Tests",
+			"",
+			"Vitest.",
+		].join("\n");
+
+		const sections = splitByHeadings(markdown);
+		expect(sections.map((s) => s.name)).toEqual(["style-guide", "testing"]);
+		expect(sections[0]!.content).toBe("## Formatting\n\nTabs.\n\n## Naming\n\ncamelCase.");
+		expect(sections[0]!.content).not.toContain("<!--");
+
+		expect(splitByHeadings(markdown, { marker: false }).map((s) => s.name)).toEqual([
+			"preamble",
+			"formatting",
+			"naming",
+			"tests",
+		]);
+	});
+
+	it("splits at > [!name] callouts with names, keeping each heading's level", () => {
+		const markdown = [
+			"## 1. Approach",
+			"",
+			"> [!name] 01-approach",
+			"",
+			"Plan.",
+			"",
+			"### Details",
+			"",
+			"Confirm.",
+			"",
+			"### Conventions",
+			"",
+			"> [!activation] manual",
+			"",
+			"> [!name] 02-conventions",
+			"",
+			"Tabs.",
+			"",
+			"> [!name] 03-untitled",
+			"",
+			"No heading.",
+		].join("\n");
+
+		const sections = splitByHeadings(markdown, { names: true });
+		expect(sections.map((s) => s.name)).toEqual(["01-approach", "02-conventions", "03-untitled"]);
+		expect(sections[0]!.content).toBe("## Approach\n\n> [!name] 01-approach\n\nPlan.\n\n### Details\n\nConfirm.");
+		expect(sections[1]!.content).toContain("### Conventions\n\n> [!activation] manual");
+		expect(sections[2]!.content).toBe("> [!name] 03-untitled\n\nNo heading.");
+		expect(splitByHeadings(markdown).map((s) => s.name)).toEqual(["approach"]);
+	});
+
+	it("merges sections under minLines into their neighbour", () => {
+		const markdown = [
+			"## Intro",
+			"",
+			"Hi.",
+			"",
+			"## Approach",
+			"",
+			"Plan.",
+			"Confirm.",
+			"Implement.",
+			"",
+			"## Misc",
+			"",
+			"Short.",
+		].join("\n");
+
+		const sections = splitByHeadings(markdown, { minLines: 3 });
+		expect(sections).toHaveLength(1);
+		expect(sections[0]!.name).toBe("approach");
+		expect(sections[0]!.content).toBe(
+			"## Intro\n\nHi.\n\n## Approach\n\nPlan.\nConfirm.\nImplement.\n\n## Misc\n\nShort.",
+		);
+	});
+});
+
+describe("mergeSmallSections", () => {
+	it("returns splits unchanged without minLines and keeps all-small documents together", () => {
+		const splits = [
+			{ name: "a", description: "A", content: "## A" },
+			{ name: "b", description: "B", content: "## B" },
+		];
+		expect(mergeSmallSections(splits)).toBe(splits);
+		expect(mergeSmallSections(splits, 5)).toEqual([{ name: "a", description: "A", content: "## A\n\n## B" }]);
+	});
+});
+
 describe("stripHeadingNumber", () => {
 	it.each([
 		["1. Approach", "Approach"],
@@ -0,0 +1,175 @@
+import matter from "gray-matter";
+import { splitByHeadings, type SplitOptions, type SplitResult } from "./splitter.js";
+import {
+	TOOL_REGISTRY,
+	ensureBlankLineAfterFrontmatter,
+	detectSourceTool,
+	replaceWithPlaceholders,
+	extractSectionMetadata,
+} from "../shared/formats.js";
+import { resolveHashToRelative } from "../shared/link-resolution.js";
+import { mapLines, markdownBlocks } from "../shared/markdown-ast.js";
+import type { RuleActivation, RuleFile, ToolId } from "../shared/types.js";
+
+/** Options for decompose: how to split (SplitOptions) and how to turn splits into rule files */
+export interface DecomposeOptions extends SplitOptions {
+	/** Output tool format: file extension and whether frontmatter is generated (default: cursor) */
+	tool?: ToolId;
+	/** Zero-padded filename prefixes (01-approach.mdc); also used to resolve #N-slug links (default: true) */
+	numbered?: boolean;
+	/** Replace the detected source tool's paths with {{PLACEHOLDERS}} (default: true) */
+	placeholders?: boolean;
+	/** Type for sections without a > [!type] callout (default: rule) */
+	type?: RuleFile["type"];
+	/** Decrement heading levels by one (## → #), undoing compose's incrementHeadings (default: false) */
+	decrementHeadings?: boolean;
+}
+
+/** Decrement all heading levels by one (## → #, ### → ##); H1s and `#` lines outside real headings stay as they are */
+export const decrementHeadings = (content: string): string => {
+	const lines = markdownBlocks(content)
+		.filter((block) => block.depth !== undefined && block.depth > 1)
+		.map((block) => block.startLine);
+	return mapLines(content, lines, (line) => line.replace("##", "#"));
+};
+
+/** Check if a line looks like a table row or list item */
+const isTableOrList = (line: string): boolean => {
+	const trimmed = line.trim();
+	return (
+		trimmed.startsWith("|") ||
+		trimmed.startsWith("- ") ||
+		trimmed.startsWith("* ") ||
+		trimmed.startsWith("+ ") ||
+		/^\d+\.\s/.test(trimmed)
+	);
+};
+
+/**
+ * Extract a prose description from split content.
+ * Returns empty string if the first non-heading content is a table or list.
+ */
+export const extractProseDescription = (content: string): string => {
+	const lines = content.split("\n");
+
+	for (const line of lines) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#")) continue;
+		if (isTableOrList(trimmed)) return "";
+		return trimmed;
+	}
+
+	return "";
+};
+
+/**
+ * Build rawContent with frontmatter for a decomposed rule.
+ * Tools without frontmatter support get plain content. When the section carried its original
+ * frontmatter (> [!frontmatter] callout), that is written as-is instead of being rebuilt. A manual
+ * rule is written without its description, since Cursor would otherwise treat it as agent-requested.
+ */
+export const buildRawContent = (
+	body: string,
+	description: string,
+	hasFrontmatter: boolean,
+	options?: {
+		globs?: string;
+		alwaysApply?: boolean;
+		activation?: RuleActivation;
+		frontmatter?: Record<string, unknown>;
+	},
+): string => {
+	if (!hasFrontmatter) return body;
+
+	if (options?.frontmatter) {
+		return ensureBlankLineAfterFrontmatter(matter.stringify(body, options.frontmatter));
+	}
+
+	const frontmatterData: Record<string, unknown> = {
+		alwaysApply: options?.activation ? options.activation === "always" : (options?.alwaysApply ?? true),
+	};
+
+	if (description && options?.activation !== "manual") {
+		frontmatterData["description"] = description;
+	}
+
+	if (options?.globs) {
+		frontmatterData["globs"] = options.globs;
+	}
+
+	return ensureBlankLineAfterFrontmatter(matter.stringify(body, frontmatterData));
+};
+
+/**
+ * Convert splits (from splitByHeadings or AI-assisted decomposition) into rule files for the given
+ * tool: section metadata extracted into frontmatter, hash links resolved to the output filenames.
+ * A > [!name] callout overrides the heading-derived name; its number prefix is dropped when
+ * numbered output adds a fresh one. `path` is left empty; writeAsDirectory decides where each rule goes.
+ */
+export const splitsToRules = (splits: SplitResult[], options: DecomposeOptions = {}): RuleFile[] => {
+	const { tool = "cursor", numbered = true, placeholders = true, type = "rule" } = options;
+	const toolConfig = TOOL_REGISTRY[tool];
+	const hasFrontmatter = toolConfig?.hasFrontmatter ?? false;
+	const ext = toolConfig?.extension || ".md";
+	// Tool-specific paths are replaced in section bodies only, never in the metadata callouts (a
+	// > [!frontmatter] payload is restored as it was), using the tool detected from all splits combined
+	const placeholderTool = placeholders ? detectSourceTool(splits.map((s) => s.content).join("\n")) : undefined;
+	const sections = splits.map((split) => {
+		const metadata = extractSectionMetadata(split.content);
+		const name = metadata.name ? (numbered ? metadata.name.replace(/^\d+-/, "") : metadata.name) : split.name;
+		return { split, name, metadata };
+	});
+
+	// Build section number → output filename map for hash→relative link resolution
+	const sectionMap = new Map<number, string>();
+	sections.forEach(({ name }, i) => {
+		const prefix = numbered ? `${String(i + 1).padStart(2, "0")}-` : "";
+		sectionMap.set(i + 1, `${prefix}${name}${ext}`);
+	});
+
+	return sections.map(({ split, name, metadata }) => {
+		const {
+			content: cleaned,
+			description: metaDesc,
+			globs,
+			alwaysApply,
+			activation,
+			type: sectionType,
+			frontmatter,
+		} = metadata;
+		const withPlaceholders = placeholderTool ? replaceWithPlaceholders(cleaned, placeholderTool).content : cleaned;
+		const resolved = resolveHashToRelative(withPlaceholders, sectionMap);
+		const body = options.decrementHeadings ? decrementHeadings(resolved) : resolved;
+		// With the original frontmatter at hand, a missing description stays missing
+		const description = metaDesc ?? (frontmatter ? "" : extractProseDescription(body));
+
+		return {
+			path: "",
+			name,
+			description,
+			body,
+			rawContent: buildRawContent(body, description, hasFrontmatter, {
+				globs,
+				alwaysApply,
+				activation,
+				frontmatter,
+			}),
+			source: tool,
+			// Use > [!type] from composed monolith when present so skills/agents/commands restore to the right dirs
+			type: sectionType ?? type,
+			hasPlaceholders: /\{\{\w+\}\}/.test(body),
+			directory: split.directory,
+			globs,
+			alwaysApply,
+			activation,
+			priority: typeof frontmatter?.["priority"] === "number" ? frontmatter["priority"] : undefined,
+		};
+	});
+};
+
+/**
+ * Split a monolithic rules document into rule files: on H2 boundaries unless options say otherwise
+ * (split level, markers, minLines). Pure: no prompts, no I/O.
+ */
+export const decompose = (content: string, options: DecomposeOptions = {}): RuleFile[] =>
+	splitsToRules(splitByHeadings(content, options), options);
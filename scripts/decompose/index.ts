@@ -2,30 +2,37 @@ import { readFile, access, stat, readdir } from "node:fs/promises";
 import { join, resolve, basename, relative } from "node:path";
 import * as p from "@clack/prompts";
 import color from "picocolors";
-import matter from "gray-matter";
-import { splitByHeadings, type SplitResult } from "./splitter.js";
+import {
+	RULE_MARKER,
+	SPLIT_LEVELS,
+	scanSections,
+	splitByHeadings,
+	type SplitLevel,
+	type SplitOptions,
+	type SplitResult,
+} from "./splitter.js";
 import { reconstructFromHeadings } from "./matcher.js";
-import { getApiKeyInteractive } from "../shared/cli.js";
-import { callLLM, resolvePromptPath } from "../shared/openrouter.js";
+import { splitsToRules } from "./decomposer.js";
+import { getApiKeyInteractive, warnLongDescriptions } from "../shared/cli.js";
+import { callLLM, getApiKey, resolvePromptPath } from "../shared/llm.js";
+import { LLM_PROVIDERS, resolveLLMConfig, type LLMConfig } from "../shared/providers.js";
+import { loadManifestLLMSettings } from "../compose/manifest.js";
 import { decomposeResponseSchema } from "../shared/schemas.js";
-import type { DecomposeResponse } from "../shared/schemas.js";
+import type { DecomposeResponse, LLMSettings } from "../shared/schemas.js";
 import { getPackageRoot } from "../shared/scanner.js";
-import { TOOL_IDS } from "../shared/types.js";
+import { DECOMPOSE_STRATEGIES, TOOL_IDS } from "../shared/types.js";
 import {
 	TOOL_REGISTRY,
 	writeAsDirectory,
 	formatMarkdown,
-	ensureBlankLineAfterFrontmatter,
 	detectSourceTool,
 	replaceWithPlaceholders,
-	extractSectionMetadata,
 	inferRuleTypeFromPath,
 	getOutputFilePathForRule,
 	getLayoutRootAndRulesDir,
 } from "../shared/formats.js";
-import { resolveHashToRelative } from "../shared/link-resolution.js";
-import type { ToolId, RuleFile } from "../shared/types.js";
-import type { LLMMessage } from "../shared/openrouter.js";
+import type { DecomposeStrategy, ToolId } from "../shared/types.js";
+import type { LLMMessage } from "../shared/llm.js";
 
 /** Known single-file rule files to detect */
 const SINGLE_FILE_RULES = [
@@ -79,62 +86,6 @@ const listAgentsAndCommands = async (root: string): Promise<Array<{ name: string
 	return out;
 };
 
-/** Check if a line looks like a table row or list item */
-const isTableOrList = (line: string): boolean => {
-	const trimmed = line.trim();
-	return (
-		trimmed.startsWith("|") ||
-		trimmed.startsWith("- ") ||
-		trimmed.startsWith("* ") ||
-		trimmed.startsWith("+ ") ||
-		/^\d+\.\s/.test(trimmed)
-	);
-};
-
-/**
- * Extract a prose description from split content.
- * Returns empty string if the first non-heading content is a table or list.
- */
-export const extractProseDescription = (content: string): string => {
-	const lines = content.split("\n");
-
-	for (const line of lines) {
-		const trimmed = line.trim();
-		if (!trimmed || trimmed.startsWith("#")) continue;
-		if (isTableOrList(trimmed)) return "";
-		return trimmed.slice(0, 120);
-	}
-
-	return "";
-};
-
-/**
- * Build rawContent with frontmatter for a decomposed rule.
- * Tools without frontmatter support get plain content.
- */
-export const buildRawContent = (
-	body: string,
-	description: string,
-	hasFrontmatter: boolean,
-	options?: { globs?: string; alwaysApply?: boolean },
-): string => {
-	if (!hasFrontmatter) return body;
-
-	const frontmatterData: Record<string, unknown> = {
-		alwaysApply: options?.alwaysApply ?? true,
-	};
-
-	if (description) {
-		frontmatterData["description"] = description;
-	}
-
-	if (options?.globs) {
-		frontmatterData["globs"] = options.globs;
-	}
-
-	return ensureBlankLineAfterFrontmatter(matter.stringify(body, frontmatterData));
-};
-
 /**
  * Try to parse and validate a raw LLM response string as DecomposeResponse.
  * Returns the validated data or an error message.
@@ -157,25 +108,60 @@ const tryParseResponse = (
 	return { data: validated.data };
 };
 
+/**
+ * Extra system message when sections are not H2s: the prompt describes H2 headings, but the
+ * matcher looks up whatever the split options produce (markers, or headings at another level).
+ */
+const splitHint = (inputContent: string, splitOptions: SplitOptions): LLMMessage[] => {
+	const sections = scanSections(inputContent, splitOptions);
+	if (sections.some((section) => section.kind === "marker")) {
+		return [
+			{
+				role: "system",
+				content:
+					"This document is divided by `<!-- rule: name -->` marker comments instead of H2 headings. " +
+					"In `headings`, reference the marker names exactly (without the comment syntax).",
+			},
+		];
+	}
+	const level = splitOptions.level ?? 2;
+	if (level === 2) return [];
+	const hashes = "#".repeat(level);
+	return [
+		{
+			role: "system",
+			content:
+				`This document's sections start at H${level} (\`${hashes}\`) headings, not H2. ` +
+				`In \`headings\`, reference the H${level} heading texts exactly (without \`${hashes}\`); deeper headings stay with their parent.`,
+		},
+	];
+};
+
 /**
  * AI-assisted decomposition with retry.
  * Attempt 1: send the decompose prompt.
  * Attempt 2 (on validation failure): resend with error feedback.
  * Falls back to heading-based split if both attempts fail.
  */
-const aiDecompose = async (inputContent: string, apiKey: string): Promise<SplitResult[]> => {
+const aiDecompose = async (
+	inputContent: string,
+	apiKey: string | null,
+	llmConfig: LLMConfig,
+	splitOptions: SplitOptions,
+): Promise<SplitResult[]> => {
 	const promptPath = resolvePromptPath("decompose/prompt.md");
 	let systemPrompt: string;
 	try {
 		systemPrompt = await readFile(promptPath, "utf-8");
 	} catch {
 		p.log.warn(color.yellow(`Failed to read prompt file. Using heading-based split.`));
-		return splitByHeadings(inputContent);
+		return splitByHeadings(inputContent, splitOptions);
 	}
 
 	const MAX_ATTEMPTS = 2;
 	const messages: LLMMessage[] = [
 		{ role: "system", content: systemPrompt },
+		...splitHint(inputContent, splitOptions),
 		{ role: "user", content: inputContent },
 	];
 
@@ -184,7 +170,7 @@ const aiDecompose = async (inputContent: string, apiKey: string): Promise<SplitR
 	for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
 		s.start(attempt === 1 ? "Analyzing document with LLM..." : "Retrying with error feedback...");
 
-		const result = await callLLM(messages, apiKey);
+		const result = await callLLM(messages, apiKey, llmConfig, (output) => !tryParseResponse(output).error);
 
 		if (!result.content) {
 			s.stop(color.yellow(`LLM failed: ${result.error}`));
@@ -200,16 +186,16 @@ const aiDecompose = async (inputContent: string, apiKey: string): Promise<SplitR
 				continue;
 			}
 			p.log.warn("Falling back to heading-based split.");
-			return splitByHeadings(inputContent);
+			return splitByHeadings(inputContent, splitOptions);
 		}
 
 		const parseResult = tryParseResponse(result.content);
 
 		if (parseResult.data) {
 			// Reconstruct content from the source document
-			const { splits, warnings } = reconstructFromHeadings(inputContent, parseResult.data);
+			const { splits, warnings } = reconstructFromHeadings(inputContent, parseResult.data, splitOptions);
 
-			s.stop(`LLM proposed ${splits.length} rules`);
+			s.stop(`LLM proposed ${splits.length} rules${result.cached ? color.dim(" (cached response)") : ""}`);
 
 			// Surface warnings
 			for (const w of warnings) {
@@ -222,7 +208,7 @@ const aiDecompose = async (inputContent: string, apiKey: string): Promise<SplitR
 
 			if (splits.length === 0) {
 				p.log.warn("LLM returned headings that matched nothing. Falling back to heading-based split.");
-				return splitByHeadings(inputContent);
+				return splitByHeadings(inputContent, splitOptions);
 			}
 
 			return splits;
@@ -248,12 +234,73 @@ const aiDecompose = async (inputContent: string, apiKey: string): Promise<SplitR
 		}
 	}
 
-	return splitByHeadings(inputContent);
+	return splitByHeadings(inputContent, splitOptions);
 };
 
-export const runDecompose = async (cliInputPath?: string, outputPath?: string): Promise<void> => {
+/**
+ * CLI flags for decompose. Each flag that is set skips its prompt; `yes` accepts the default
+ * for every remaining prompt (all sections, headings strategy, cursor format, overwrite).
+ */
+export interface DecomposeCliOptions {
+	/** Split strategy (--strategy headings|ai) */
+	strategy?: DecomposeStrategy;
+	/** Output tool format (--tool) */
+	tool?: ToolId;
+	/** Numbered filename prefixes (--numbered / --no-numbered) */
+	numbered?: boolean;
+	/** Replace tool-specific paths with {{PLACEHOLDERS}} (--placeholders / --no-placeholders) */
+	placeholders?: boolean;
+	/** Heading depth sections start at, 1–3 (--split-level; default 2) */
+	splitLevel?: number;
+	/** Split on `<!-- rule: name -->` markers when the document has any (--no-markers turns off; default true) */
+	markers?: boolean;
+	/** Sections with fewer non-blank lines join their neighbour (--min-lines) */
+	minLines?: number;
+	/** Accept defaults for every prompt not covered by a flag (--yes) */
+	yes?: boolean;
+	/** LLM settings from flags (--provider, --model, --base-url, --temperature, --max-output-tokens) */
+	llm?: LLMSettings;
+}
+
+/** Non-interactive API key: the provider's env var, or "" for keyless providers */
+const getApiKeyNonInteractive = (config: LLMConfig): string | null =>
+	getApiKey(config) ?? (LLM_PROVIDERS[config.provider].requiresApiKey ? null : "");
+
+/** Log an error and fail the run (exit code 1); the caller returns right after */
+const failDecompose = (err: unknown): void => {
+	p.log.error(err instanceof Error ? err.message : String(err));
+	process.exitCode = 1;
+};
+
+export const runDecompose = async (
+	cliInputPath?: string,
+	outputPath?: string,
+	options: DecomposeCliOptions = {},
+): Promise<void> => {
 	const cwd = process.cwd();
 
+	if (options.strategy && !DECOMPOSE_STRATEGIES.includes(options.strategy)) {
+		failDecompose(`Unknown --strategy: ${options.strategy} (use ${DECOMPOSE_STRATEGIES.join(", ")})`);
+		return;
+	}
+	if (options.tool && !TOOL_IDS.includes(options.tool)) {
+		failDecompose(`Unknown tool: ${options.tool}`);
+		return;
+	}
+	if (options.splitLevel !== undefined && !SPLIT_LEVELS.includes(options.splitLevel as SplitLevel)) {
+		failDecompose(`--split-level must be ${SPLIT_LEVELS.join(", ")}, got ${options.splitLevel}`);
+		return;
+	}
+	if (options.minLines !== undefined && !(Number.isInteger(options.minLines) && options.minLines >= 0)) {
+		failDecompose(`--min-lines must be a non-negative integer, got ${options.minLines}`);
+		return;
+	}
+	const splitOptions: SplitOptions = {
+		level: options.splitLevel as SplitLevel | undefined,
+		marker: options.markers === false ? false : RULE_MARKER,
+		minLines: options.minLines,
+	};
+
 	let inputPath: string;
 	let inputName: string;
 
@@ -262,7 +309,7 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 		const info = await stat(absPath).catch(() => null);
 
 		if (!info) {
-			p.log.error(`Path not found: ${absPath}`);
+			failDecompose(`Path not found: ${absPath}`);
 			return;
 		}
 
@@ -278,7 +325,7 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 			found.push(...(await listAgentsAndCommands(absPath)));
 
 			if (found.length === 0) {
-				p.log.error(
+				failDecompose(
 					`No rule files found in ${cliInputPath}. Looked for: ${SINGLE_FILE_RULES.join(", ")}, agents/*.md, commands/*.md`,
 				);
 				return;
@@ -287,6 +334,11 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 			if (found.length === 1) {
 				inputPath = found[0]!.path;
 				inputName = found[0]!.name;
+			} else if (options.yes) {
+				failDecompose(
+					`Multiple rule files found in ${cliInputPath}: ${found.map((d) => d.name).join(", ")}. Pass the file to decompose.`,
+				);
+				return;
 			} else {
 				const choice = await p.select({
 					message: "Multiple rule files found. Select one:",
@@ -334,6 +386,12 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 		if (detected.length === 0) {
 			p.log.warn("No rule files detected in the current directory or bundled package.");
 			p.log.info(`Looked for: ${SINGLE_FILE_RULES.join(", ")}, agents/*.md, commands/*.md`);
+			process.exitCode = 1;
+			return;
+		}
+
+		if (options.yes) {
+			failDecompose("Pass the file to decompose (e.g. decompose AGENTS.md --yes).");
 			return;
 		}
 
@@ -360,19 +418,23 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 	p.log.info(`Read ${inputContent.split("\n").length} lines from ${inputName}`);
 
 	// 3. Pick split strategy
-	const strategy = await p.select({
-		message: "Split strategy",
-		options: [
-			{
-				value: "headings",
-				label: "Heading-based (split on ## boundaries, no LLM needed)",
-			},
-			{
-				value: "ai",
-				label: "AI-assisted (smarter boundaries via LLM)",
-			},
-		],
-	});
+	const strategy =
+		options.strategy ??
+		(options.yes
+			? "headings"
+			: await p.select({
+					message: "Split strategy",
+					options: [
+						{
+							value: "headings",
+							label: "Heading-based (split on ## boundaries, no LLM needed)",
+						},
+						{
+							value: "ai",
+							label: "AI-assisted (smarter boundaries via LLM)",
+						},
+					],
+				}));
 
 	if (p.isCancel(strategy)) {
 		p.cancel("Operation cancelled.");
@@ -382,35 +444,44 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 	let splits: SplitResult[];
 
 	if (strategy === "ai") {
-		const apiKey = await getApiKeyInteractive();
+		let llmConfig: LLMConfig;
+		try {
+			llmConfig = resolveLLMConfig(options.llm, await loadManifestLLMSettings(cwd));
+		} catch (err) {
+			failDecompose(err);
+			return;
+		}
+		const apiKey = options.yes ? getApiKeyNonInteractive(llmConfig) : await getApiKeyInteractive(llmConfig);
 
-		if (apiKey) {
-			splits = await aiDecompose(inputContent, apiKey);
+		if (apiKey !== null) {
+			splits = await aiDecompose(inputContent, apiKey, llmConfig, splitOptions);
 		} else {
 			p.log.warn("No API key. Falling back to heading-based split.");
-			splits = splitByHeadings(inputContent);
+			splits = splitByHeadings(inputContent, splitOptions);
 		}
 	} else {
-		splits = splitByHeadings(inputContent);
+		splits = splitByHeadings(inputContent, splitOptions);
 	}
 
 	p.log.info(`Found ${splits.length} rule sections:`);
 
-	// 4. Let user pick which sections to extract
-	const selectedSplits = await p.multiselect({
-		message: "Select sections to extract",
-		options: splits.map((split, i) => {
-			const lines = split.content.split("\n").length;
-			const displayName = split.directory ? `${split.directory}/${split.name}` : split.name;
-			return {
-				value: i,
-				label: displayName,
-				hint: `${split.description} (${lines} lines)`,
-			};
-		}),
-		initialValues: splits.map((_, i) => i),
-		required: true,
-	});
+	// 4. Let user pick which sections to extract (--yes keeps all)
+	const selectedSplits = options.yes
+		? splits.map((_, i) => i)
+		: await p.multiselect({
+				message: "Select sections to extract",
+				options: splits.map((split, i) => {
+					const lines = split.content.split("\n").length;
+					const displayName = split.directory ? `${split.directory}/${split.name}` : split.name;
+					return {
+						value: i,
+						label: displayName,
+						hint: `${split.description} (${lines} lines)`,
+					};
+				}),
+				initialValues: splits.map((_, i) => i),
+				required: true,
+			});
 
 	if (p.isCancel(selectedSplits)) {
 		p.cancel("Operation cancelled.");
@@ -425,10 +496,14 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 	}
 
 	// 4.5. Numbered file prefix toggle
-	const wantsNumbered = await p.confirm({
-		message: "Add numbered prefixes to filenames? (e.g. 01-approach.mdc)",
-		initialValue: true,
-	});
+	const wantsNumbered =
+		options.numbered ??
+		(options.yes
+			? true
+			: await p.confirm({
+					message: "Add numbered prefixes to filenames? (e.g. 01-approach.mdc)",
+					initialValue: true,
+				}));
 
 	if (p.isCancel(wantsNumbered)) {
 		p.cancel("Operation cancelled.");
@@ -437,9 +512,10 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 
 	const numbered = !!wantsNumbered;
 
-	// 5. Detect tool-specific paths and offer placeholder replacement
+	// 5. Detect tool-specific paths and offer placeholder replacement (splitsToRules does the replacing)
 	const combinedContent = splits.map((s) => s.content).join("\n");
 	const detectedTool = detectSourceTool(combinedContent);
+	let placeholders = false;
 
 	if (detectedTool) {
 		const toolName = TOOL_REGISTRY[detectedTool]?.name ?? detectedTool;
@@ -453,10 +529,14 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 				);
 			}
 
-			const shouldReplace = await p.confirm({
-				message: `Replace with {{PLACEHOLDER}} syntax for cross-tool compatibility?`,
-				initialValue: true,
-			});
+			const shouldReplace =
+				options.placeholders ??
+				(options.yes
+					? true
+					: await p.confirm({
+							message: `Replace with {{PLACEHOLDER}} syntax for cross-tool compatibility?`,
+							initialValue: true,
+						}));
 
 			if (p.isCancel(shouldReplace)) {
 				p.cancel("Operation cancelled.");
@@ -464,24 +544,25 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 			}
 
 			if (shouldReplace) {
-				splits = splits.map((split) => {
-					const { content } = replaceWithPlaceholders(split.content, detectedTool);
-					return { ...split, content };
-				});
+				placeholders = true;
 				p.log.success("Replaced tool-specific paths with placeholders.");
 			}
 		}
 	}
 
 	// 6. Pick output tool format
-	const toolChoice = await p.select({
-		message: "Output tool format",
-		options: TOOL_IDS.map((id) => ({
-			value: id,
-			label: TOOL_REGISTRY[id]?.name ?? id,
-		})),
-		initialValue: "cursor" as ToolId,
-	});
+	const toolChoice =
+		options.tool ??
+		(options.yes
+			? "cursor"
+			: await p.select({
+					message: "Output tool format",
+					options: TOOL_IDS.map((id) => ({
+						value: id,
+						label: TOOL_REGISTRY[id]?.name ?? id,
+					})),
+					initialValue: "cursor" as ToolId,
+				}));
 
 	if (p.isCancel(toolChoice)) {
 		p.cancel("Operation cancelled.");
@@ -495,6 +576,9 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 	if (outputPath) {
 		outputDir = outputPath.endsWith("/") ? outputPath : outputPath;
 		p.log.info(`Output directory: ${outputDir}`);
+	} else if (options.yes) {
+		outputDir = TOOL_REGISTRY[toolId]?.directories[0] ?? "rules/";
+		p.log.info(`Output directory: ${outputDir}`);
 	} else {
 		const defaultDir = TOOL_REGISTRY[toolId]?.directories[0] ?? "rules/";
 		const dirChoice = await p.text({
@@ -510,50 +594,12 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 		outputDir = dirChoice as string;
 	}
 
-	// 8. Convert splits to RuleFiles and write
-	const inputFileType = inferRuleTypeFromPath(inputPath);
-	const toolConfig = TOOL_REGISTRY[toolId];
-	const hasFrontmatter = toolConfig?.hasFrontmatter ?? false;
-	const ext = toolConfig?.extension || ".md";
-
-	// Build section number → output filename map for hash→relative link resolution
-	const sectionMap = new Map<number, string>();
-	splits.forEach((split, i) => {
-		const prefix = numbered ? `${String(i + 1).padStart(2, "0")}-` : "";
-		const filename = `${prefix}${split.name}${ext}`;
-		sectionMap.set(i + 1, filename);
-	});
-
-	const ruleFiles: RuleFile[] = splits.map((split) => {
-		const {
-			content: cleaned,
-			description: metaDesc,
-			globs,
-			alwaysApply,
-			type: sectionType,
-		} = extractSectionMetadata(split.content);
-		const cleanContent = resolveHashToRelative(cleaned, sectionMap);
-		const description = metaDesc ?? extractProseDescription(cleanContent);
-		const rawContent = buildRawContent(cleanContent, description, hasFrontmatter, {
-			globs,
-			alwaysApply,
-		});
-		// Use > [!type] from composed monolith when present so skills/agents/commands restore to the right dirs
-		const ruleType = sectionType ?? inputFileType;
-
-		return {
-			path: "",
-			name: split.name,
-			description,
-			body: cleanContent,
-			rawContent,
-			source: toolId,
-			type: ruleType,
-			hasPlaceholders: /\{\{\w+\}\}/.test(cleanContent),
-			directory: split.directory,
-			globs,
-			alwaysApply,
-		};
+	// 8. Convert splits to RuleFiles (metadata → frontmatter, hash links → relative links)
+	const ruleFiles = splitsToRules(splits, {
+		tool: toolId,
+		numbered,
+		placeholders,
+		type: inferRuleTypeFromPath(inputPath),
 	});
 
 	// 9. Check for existing files that would be overwritten (canonical layout: rules/, skills/, agents/, commands/)
@@ -577,10 +623,12 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 			p.log.message(`  ${color.yellow(file)}`);
 		}
 
-		const confirmOverwrite = await p.confirm({
-			message: `Overwrite ${existingFiles.length} existing file(s)?`,
-			initialValue: false,
-		});
+		const confirmOverwrite =
+			options.yes ||
+			(await p.confirm({
+				message: `Overwrite ${existingFiles.length} existing file(s)?`,
+				initialValue: false,
+			}));
 
 		if (p.isCancel(confirmOverwrite) || !confirmOverwrite) {
 			p.cancel("Operation cancelled.");
@@ -600,8 +648,15 @@ export const runDecompose = async (cliInputPath?: string, outputPath?: string):
 		})),
 	);
 
-	await writeAsDirectory(formattedRules, outputDir, toolId, {
-		numbered,
-	});
+	try {
+		await writeAsDirectory(formattedRules, outputDir, toolId, {
+			numbered,
+		});
+	} catch (err) {
+		s.stop("Write failed", 2);
+		failDecompose(err);
+		return;
+	}
 	s.stop(`Written ${formattedRules.length} files to ${outputDir}`);
+	warnLongDescriptions(formattedRules, toolId);
 };
@@ -1,59 +1,19 @@
 import type { DecomposeResponse } from "../shared/schemas.js";
-import type { SplitResult } from "./splitter.js";
+import { mergeSmallSections, scanSections, type SplitOptions, type SplitResult } from "./splitter.js";
 
-/** Special key for content before the first H2 heading */
+/** Special key for content before the first section heading */
 export const PREAMBLE_KEY = "__preamble__";
 
 /**
- * Parse a markdown document into a map of H2 heading text to section content.
- * Preamble (content before first H2) is stored under `__preamble__`.
+ * Parse a markdown document into a map of heading text (or marker name) to section content,
+ * splitting like splitByHeadings (H2 by default, see SplitOptions).
+ * Preamble (content before the first section) is stored under `__preamble__`.
  */
-export const parseHeadingMap = (markdown: string): Map<string, string> => {
-	const lines = markdown.split("\n");
+export const parseHeadingMap = (markdown: string, options: SplitOptions = {}): Map<string, string> => {
 	const map = new Map<string, string>();
-
-	let currentHeading = "";
-	let currentLines: string[] = [];
-	let foundFirstH2 = false;
-	const preambleLines: string[] = [];
-
-	for (const line of lines) {
-		const h2Match = line.match(/^## (.+)$/);
-
-		if (h2Match) {
-			// Save previous section
-			if (foundFirstH2 && currentHeading) {
-				map.set(currentHeading, currentLines.join("\n").trim());
-			} else if (!foundFirstH2 && preambleLines.length > 0) {
-				const meaningful = preambleLines.filter((l) => l.trim() && !l.startsWith("# "));
-				if (meaningful.length > 0) {
-					map.set(PREAMBLE_KEY, preambleLines.join("\n").trim());
-				}
-			}
-
-			foundFirstH2 = true;
-			currentHeading = h2Match[1]!;
-			currentLines = [line];
-		} else if (foundFirstH2) {
-			currentLines.push(line);
-		} else {
-			preambleLines.push(line);
-		}
+	for (const section of scanSections(markdown, options)) {
+		map.set(section.title ?? PREAMBLE_KEY, section.lines.join("\n").trim());
 	}
-
-	// Last section
-	if (currentHeading) {
-		map.set(currentHeading, currentLines.join("\n").trim());
-	}
-
-	// If no H2 was found, check preamble
-	if (!foundFirstH2 && preambleLines.length > 0) {
-		const meaningful = preambleLines.filter((l) => l.trim() && !l.startsWith("# "));
-		if (meaningful.length > 0) {
-			map.set(PREAMBLE_KEY, preambleLines.join("\n").trim());
-		}
-	}
-
 	return map;
 };
 
@@ -67,13 +27,15 @@ export interface ReconstructWarning {
 /**
  * Reconstruct SplitResult[] from the source markdown using AI-provided
  * heading references. Content is always copied from the original source,
- * never from the LLM response.
+ * never from the LLM response. Split options match splitByHeadings; minLines merges
+ * small resulting rules into their neighbour.
  */
 export const reconstructFromHeadings = (
 	markdown: string,
 	rules: DecomposeResponse,
+	options: SplitOptions = {},
 ): { splits: SplitResult[]; warnings: ReconstructWarning[] } => {
-	const headingMap = parseHeadingMap(markdown);
+	const headingMap = parseHeadingMap(markdown, options);
 	const warnings: ReconstructWarning[] = [];
 	const claimedHeadings = new Set<string>();
 
@@ -116,5 +78,5 @@ export const reconstructFromHeadings = (
 		}
 	}
 
-	return { splits, warnings };
+	return { splits: mergeSmallSections(splits, options.minLines), warnings };
 };
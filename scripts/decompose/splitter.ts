@@ -1,3 +1,5 @@
+import { headingText, markdownBlocks, type MarkdownBlock } from "../shared/markdown-ast.js";
+
 export interface SplitResult {
 	name: string;
 	description: string;
@@ -6,71 +8,172 @@ export interface SplitResult {
 	directory?: string;
 }
 
+/** Heading depths a document can be split on: # (1), ## (2) or ### (3) */
+export const SPLIT_LEVELS = [1, 2, 3] as const;
+
+export type SplitLevel = (typeof SPLIT_LEVELS)[number];
+
+/** Default explicit split marker: `<!-- rule: name -->` on its own line */
+export const RULE_MARKER = /^<!--\s*rule:\s*(.+?)\s*-->$/;
+
+/** `> [!name] file-name`: the callout compose embeds with embedFrontmatter, one per source rule */
+const NAME_CALLOUT = /^> \[!name]\s+(\S+)$/;
+
+/** Options shared by splitByHeadings, parseHeadingMap and reconstructFromHeadings */
+export interface SplitOptions {
+	/** Heading depth that starts a section (default: 2); deeper headings stay with their parent */
+	level?: SplitLevel;
+	/**
+	 * Comment line that starts a section, with the section name in capture group 1 (default: RULE_MARKER).
+	 * A document containing any marker is split on markers only; `false` always splits on headings.
+	 */
+	marker?: RegExp | false;
+	/** Sections with fewer non-blank lines join their neighbour (default: 0, no merging) */
+	minLines?: number;
+	/**
+	 * Split at `> [!name]` callouts instead of headings when the document has any (default: false):
+	 * each section starts at the heading the callout follows, whatever its level, so a composed
+	 * document splits back into exactly its source rules. Markers still win.
+	 */
+	names?: boolean;
+}
+
+/** A section as found in the source, before naming: heading text (or marker name) and its lines */
+export interface SourceSection {
+	kind: "preamble" | "heading" | "marker" | "named";
+	/** Heading text without the # prefix, the marker name or the > [!name] name; null for the preamble */
+	title: string | null;
+	/** Source lines; for headings the first line is the heading itself, marker lines are dropped */
+	lines: string[];
+}
+
 /** Strip a leading number prefix (e.g. "1. " or "03. ") from a heading */
 export const stripHeadingNumber = (heading: string): string => {
 	return heading.replace(/^\d+\.\s+/, "");
 };
 
 /**
- * Split a markdown document on H2 (##) boundaries.
- * Each H2 section becomes a separate rule.
- * H3+ subsections stay with their parent H2.
- * Numbered prefixes (e.g. "## 1. Approach") are stripped from both
- * the filename and the content heading.
+ * Where each `> [!name]` section starts: the heading right above the callout, with only other
+ * callouts in between, or the first of those callouts when the rule had no heading.
  */
-export const splitByHeadings = (markdown: string): SplitResult[] => {
-	const lines = markdown.split("\n");
-	const sections: SplitResult[] = [];
-
-	let currentName = "";
-	let currentLines: string[] = [];
-	let foundFirstH2 = false;
-
-	// Collect any preamble (content before first H2) as its own section
-	const preambleLines: string[] = [];
-
-	for (const line of lines) {
-		const h2Match = line.match(/^## (.+)$/);
-
-		if (h2Match) {
-			// Save previous section
-			if (foundFirstH2 && currentName) {
-				sections.push(finishSection(currentName, currentLines));
-			} else if (!foundFirstH2 && preambleLines.length > 0) {
-				// Check if preamble has meaningful content (not just blank lines / H1)
-				const meaningfulPreamble = preambleLines.filter((l) => l.trim() && !l.startsWith("# "));
-				if (meaningfulPreamble.length > 0) {
-					sections.push(finishSection("preamble", preambleLines));
-				}
-			}
-
-			foundFirstH2 = true;
-			const rawHeading = h2Match[1]!;
-			const strippedHeading = stripHeadingNumber(rawHeading);
-			currentName = toKebabCase(strippedHeading);
-			// Store the heading line with the number stripped
-			currentLines = [`## ${strippedHeading}`];
-		} else if (foundFirstH2) {
-			currentLines.push(line);
+const nameBoundaries = (lines: string[], blocks: MarkdownBlock[]) => {
+	const boundaries: { line: number; kind: "named"; title: string }[] = [];
+	let heading: number | undefined;
+	let calloutStart: number | undefined;
+	for (const block of blocks) {
+		if (block.depth !== undefined) {
+			heading = block.startLine;
+			calloutStart = undefined;
+		} else if (block.type === "blockquote" && block.startLine === block.endLine) {
+			calloutStart ??= block.startLine;
+			const match = lines[block.startLine]!.trim().match(NAME_CALLOUT);
+			if (match) boundaries.push({ line: heading ?? calloutStart, kind: "named", title: match[1]! });
 		} else {
-			preambleLines.push(line);
+			heading = undefined;
+			calloutStart = undefined;
 		}
 	}
+	return boundaries;
+};
 
-	// Don't forget the last section
-	if (currentName) {
-		sections.push(finishSection(currentName, currentLines));
-	}
+/**
+ * Cut a document into sections at split markers (when it has any), at `> [!name]` callouts (with
+ * the names option, when it has any) or at headings of exactly the split level. Boundaries come from the markdown AST, so `#` lines in fenced code, HTML blocks
+ * and front matter never split. Content before the first boundary is returned as the preamble
+ * when it has more than blank lines and headings above the split level (e.g. a lone # Title).
+ */
+export const scanSections = (markdown: string, options: SplitOptions = {}): SourceSection[] => {
+	const { level = 2, marker = RULE_MARKER, names = false } = options;
+	const lines = markdown.split("\n");
+	const blocks = markdownBlocks(markdown);
 
-	// If no H2 was ever found, check preamble for meaningful content
-	if (!foundFirstH2 && preambleLines.length > 0) {
-		const meaningfulPreamble = preambleLines.filter((l) => l.trim() && !l.startsWith("# "));
-		if (meaningfulPreamble.length > 0) {
-			sections.push(finishSection("preamble", preambleLines));
+	const markers = blocks.flatMap((block) => {
+		const match =
+			marker && block.html && block.startLine === block.endLine ? block.html.trim().match(marker) : null;
+		return match ? [{ line: block.startLine, kind: "marker" as const, title: match[1]!.trim() }] : [];
+	});
+	const named = names && markers.length === 0 ? nameBoundaries(lines, blocks) : [];
+	const boundaries =
+		markers.length > 0
+			? markers
+			: named.length > 0
+				? named
+				: blocks
+						.filter((block) => block.depth === level)
+						.map((block) => ({
+							line: block.startLine,
+							kind: "heading" as const,
+							title: headingText(lines[block.startLine]!),
+						}));
+
+	const sections: SourceSection[] = boundaries.map((boundary, i) => {
+		const end = boundaries[i + 1]?.line ?? lines.length;
+		// Marker comments are not content; heading sections start with their heading line
+		const start = boundary.kind === "marker" ? boundary.line + 1 : boundary.line;
+		return { kind: boundary.kind, title: boundary.title, lines: lines.slice(start, end) };
+	});
+
+	const firstBoundary = boundaries[0]?.line ?? lines.length;
+	const meaningfulPreamble = blocks.some(
+		(block) => block.startLine < firstBoundary && !(block.depth !== undefined && block.depth < level),
+	);
+	return meaningfulPreamble
+		? [{ kind: "preamble", title: null, lines: lines.slice(0, firstBoundary) }, ...sections]
+		: sections;
+};
+
+/** Count of non-blank lines, the size used by minLines */
+const countLines = (content: string): number => content.split("\n").filter((l) => l.trim()).length;
+
+/**
+ * Merge sections with fewer than minLines non-blank lines into the previous section (or, at the
+ * start of the document, into the next one). The larger section keeps its name and description.
+ */
+export const mergeSmallSections = (splits: SplitResult[], minLines = 0): SplitResult[] => {
+	if (minLines <= 0 || splits.length < 2) return splits;
+
+	const merged: SplitResult[] = [];
+	let leading: string[] = [];
+	for (const split of splits) {
+		const previous = merged.at(-1);
+		if (countLines(split.content) >= minLines) {
+			merged.push({ ...split, content: [...leading, split.content].join("\n\n") });
+			leading = [];
+		} else if (previous) {
+			previous.content = `${previous.content}\n\n${split.content}`;
+		} else {
+			leading.push(split.content);
 		}
 	}
+	// Every section was small: keep them together under the first one
+	if (merged.length === 0) return [{ ...splits[0]!, content: leading.join("\n\n") }];
+	return merged;
+};
+
+/**
+ * Split a markdown document into rules, one per section (see scanSections): by default on H2
+ * (##) boundaries with H3+ subsections staying with their parent H2.
+ * Numbered prefixes (e.g. "## 1. Approach") are stripped from both
+ * the filename and the content heading. Marker sections are named after the marker.
+ */
+export const splitByHeadings = (markdown: string, options: SplitOptions = {}): SplitResult[] => {
+	const level = options.level ?? 2;
+	const sections = scanSections(markdown, options).map((section, i) => {
+		if (section.kind === "preamble") return finishSection("preamble", section.lines);
+		if (section.kind === "named") {
+			// Keep the heading's own level; only a "N. " prefix from numbered compose is dropped
+			const [first = "", ...rest] = section.lines;
+			return finishSection(section.title!, [first.replace(/^(#{1,6} )\d+\.\s+/, "$1"), ...rest]);
+		}
+		const title = section.kind === "heading" ? stripHeadingNumber(section.title!) : section.title!;
+		const name = toKebabCase(title) || `section-${i + 1}`;
+		// Store the heading line with the number stripped
+		const lines =
+			section.kind === "heading" ? [`${"#".repeat(level)} ${title}`, ...section.lines.slice(1)] : section.lines;
+		return finishSection(name, lines);
+	});
 
-	return sections;
+	return mergeSmallSections(sections, options.minLines);
 };
 
 /** Convert heading text to kebab-case file name */
@@ -89,7 +192,7 @@ const finishSection = (name: string, lines: string[]): SplitResult => {
 
 	// Extract description: first non-heading, non-empty line
 	const descLine = lines.find((l) => l.trim() && !l.startsWith("#") && !l.startsWith("---"));
-	const description = descLine ? descLine.trim().slice(0, 120) : `Rules from the "${name}" section`;
+	const description = descLine ? descLine.trim() : `Rules from the "${name}" section`;
 
 	return { name, description, content };
 };
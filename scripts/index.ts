@@ -2,7 +2,10 @@ import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import * as p from "@clack/prompts";
 import { getPackageRoot } from "./shared/scanner.js";
-import type { ToolId } from "./shared/types.js";
+import type { DecomposeStrategy, OverBudgetMode, TokenizerId, ToolId } from "./shared/types.js";
+import type { LLMSettings } from "./shared/schemas.js";
+import type { SyncDirection, SyncPreference } from "./sync/index.js";
+import type { SymlinkMode } from "./sync/sync-dir.js";
 
 const getCliIntro = async (): Promise<string> => {
 	const root = await getPackageRoot();
@@ -30,21 +33,71 @@ const parseArgs = (
 	command?: string;
 	inputPath?: string;
 	output?: string;
-	syncDirection?: "push" | "pull" | "diff" | "inspect";
+	syncDirection?: SyncDirection;
 	repo?: string;
 	tool?: string;
 	yes?: boolean;
 	cursorDb?: boolean;
+	json?: boolean;
+	dryRun?: boolean;
+	prefer?: string;
+	symlinks?: string;
+	include: string[];
+	exclude: string[];
+	order?: string[];
+	numbered?: boolean;
+	optimize?: boolean;
+	targets: string[];
+	config?: string;
+	profile?: string;
+	noConfig?: boolean;
+	check?: boolean;
+	watch?: boolean;
+	maxTokens?: number;
+	overBudget?: OverBudgetMode;
+	breakdown?: boolean;
+	tokenizer?: TokenizerId;
+	strategy?: DecomposeStrategy;
+	placeholders?: boolean;
+	splitLevel?: number;
+	markers?: boolean;
+	minLines?: number;
+	llm: LLMSettings;
 } => {
 	let output: string | undefined;
 	let repo: string | undefined;
 	let tool: string | undefined;
 	let yes = false;
 	let cursorDb = false;
+	let json = false;
+	let dryRun = false;
+	let prefer: string | undefined;
+	let symlinks: string | undefined;
+	const include: string[] = [];
+	const exclude: string[] = [];
+	let order: string[] | undefined;
+	let numbered: boolean | undefined;
+	let optimize: boolean | undefined;
+	const targets: string[] = [];
+	let config: string | undefined;
+	let profile: string | undefined;
+	let noConfig = false;
+	let check = false;
+	let watch = false;
+	let maxTokens: number | undefined;
+	let overBudget: OverBudgetMode | undefined;
+	let breakdown = false;
+	let tokenizer: TokenizerId | undefined;
+	let strategy: DecomposeStrategy | undefined;
+	let placeholders: boolean | undefined;
+	let splitLevel: number | undefined;
+	let markers: boolean | undefined;
+	let minLines: number | undefined;
+	const llm: LLMSettings = {};
 	const positional: string[] = [];
 	for (let i = 2; i < argv.length; i++) {
 		const arg = argv[i]!;
-		if (arg === "--output" || arg === "-o") {
+		if (arg === "--output" || arg === "--out" || arg === "-o") {
 			output = argv[++i];
 		} else if (arg === "--repo") {
 			repo = argv[++i];
@@ -54,14 +107,79 @@ const parseArgs = (
 			yes = true;
 		} else if (arg === "--cursor-db") {
 			cursorDb = true;
+		} else if (arg === "--json") {
+			json = true;
+		} else if (arg === "--dry-run") {
+			dryRun = true;
+		} else if (arg === "--prefer") {
+			prefer = argv[++i];
+		} else if (arg === "--symlinks") {
+			symlinks = argv[++i];
+		} else if (arg === "--include") {
+			const value = argv[++i];
+			if (value) include.push(value);
+		} else if (arg === "--exclude") {
+			const value = argv[++i];
+			if (value) exclude.push(value);
+		} else if (arg === "--order") {
+			order = (argv[++i] ?? "").split(",").filter((s) => s.trim());
+		} else if (arg === "--numbered" || arg === "--no-numbered") {
+			numbered = arg === "--numbered";
+		} else if (arg === "--optimize" || arg === "--no-optimize") {
+			optimize = arg === "--optimize";
+		} else if (arg === "--target") {
+			const value = argv[++i];
+			if (value) targets.push(value);
+		} else if (arg === "--config") {
+			config = argv[++i];
+		} else if (arg === "--profile") {
+			profile = argv[++i];
+		} else if (arg === "--no-config") {
+			noConfig = true;
+		} else if (arg === "--check") {
+			check = true;
+		} else if (arg === "--watch" || arg === "-w") {
+			watch = true;
+		} else if (arg === "--max-tokens") {
+			maxTokens = Number(argv[++i]);
+		} else if (arg === "--over-budget") {
+			overBudget = argv[++i] as OverBudgetMode;
+		} else if (arg === "--breakdown") {
+			breakdown = true;
+		} else if (arg === "--tokenizer") {
+			tokenizer = argv[++i] as TokenizerId;
+		} else if (arg === "--strategy") {
+			strategy = argv[++i] as DecomposeStrategy;
+		} else if (arg === "--placeholders" || arg === "--no-placeholders") {
+			placeholders = arg === "--placeholders";
+		} else if (arg === "--split-level") {
+			splitLevel = Number(argv[++i]);
+		} else if (arg === "--markers" || arg === "--no-markers") {
+			markers = arg === "--markers";
+		} else if (arg === "--min-lines") {
+			minLines = Number(argv[++i]);
+		} else if (arg === "--provider") {
+			llm.provider = argv[++i] as LLMSettings["provider"];
+		} else if (arg === "--model") {
+			llm.model = argv[++i];
+		} else if (arg === "--base-url") {
+			llm.baseUrl = argv[++i];
+		} else if (arg === "--temperature") {
+			llm.temperature = Number(argv[++i]);
+		} else if (arg === "--max-output-tokens") {
+			llm.maxOutputTokens = Number(argv[++i]);
+		} else if (arg === "--no-cache") {
+			llm.cache = false;
 		} else if (!arg.startsWith("-")) {
 			positional.push(arg);
 		}
 	}
 	const command = positional[0];
 	const syncDirection =
-		command === "sync" && positional[1] && ["push", "pull", "diff", "inspect"].includes(positional[1])
-			? (positional[1] as "push" | "pull" | "diff" | "inspect")
+		command === "sync" &&
+		positional[1] &&
+		["push", "pull", "diff", "inspect", "undo", "history"].includes(positional[1])
+			? (positional[1] as SyncDirection)
 			: undefined;
 	return {
 		command,
@@ -72,28 +190,103 @@ const parseArgs = (
 		tool,
 		yes,
 		cursorDb,
+		json,
+		dryRun,
+		prefer,
+		symlinks,
+		include,
+		exclude,
+		order,
+		numbered,
+		optimize,
+		targets,
+		config,
+		profile,
+		noConfig,
+		check,
+		watch,
+		maxTokens,
+		overBudget,
+		breakdown,
+		tokenizer,
+		strategy,
+		placeholders,
+		splitLevel,
+		markers,
+		minLines,
+		llm,
 	};
 };
 
 const main = async (): Promise<void> => {
-	const { command, inputPath, output, syncDirection, repo, tool, yes, cursorDb } = parseArgs(process.argv);
+	const {
+		command,
+		inputPath,
+		output,
+		syncDirection,
+		repo,
+		tool,
+		yes,
+		cursorDb,
+		json,
+		dryRun,
+		prefer,
+		symlinks,
+		strategy,
+		placeholders,
+		splitLevel,
+		markers,
+		minLines,
+		...composeFlags
+	} = parseArgs(process.argv);
 
-	p.intro(await getCliIntro());
+	// Keep stdout pure JSON for --json
+	if (!json) p.intro(await getCliIntro());
 
 	switch (command) {
 		case "compose": {
 			const { runCompose } = await import("./compose/index.js");
-			await runCompose(inputPath, output);
+			await runCompose(inputPath, output, { ...composeFlags, tool: tool as ToolId | undefined, yes });
 			break;
 		}
 		case "decompose": {
 			const { runDecompose } = await import("./decompose/index.js");
-			await runDecompose(inputPath, output);
+			await runDecompose(inputPath, output, {
+				strategy,
+				tool: tool as ToolId | undefined,
+				numbered: composeFlags.numbered,
+				placeholders,
+				splitLevel,
+				markers,
+				minLines,
+				yes,
+				llm: composeFlags.llm,
+			});
 			break;
 		}
 		case "sync": {
 			const { runSync } = await import("./sync/index.js");
-			await runSync(syncDirection, { repo, tool: tool as ToolId | undefined, yes, cursorDb });
+			await runSync(syncDirection, {
+				repo,
+				tool: tool as ToolId | undefined,
+				yes,
+				cursorDb,
+				dryRun,
+				prefer: prefer as SyncPreference | undefined,
+				symlinks: symlinks as SymlinkMode | undefined,
+				exclude: composeFlags.exclude,
+				json,
+			});
+			break;
+		}
+		case "verify-roundtrip": {
+			const { runVerifyRoundtrip } = await import("./verify/index.js");
+			await runVerifyRoundtrip(inputPath, { tool: tool as ToolId | undefined });
+			break;
+		}
+		case "cache": {
+			const { runCache } = await import("./cache/index.js");
+			await runCache(inputPath);
 			break;
 		}
 		default: {
@@ -123,18 +316,27 @@ const main = async (): Promise<void> => {
 
 			if (selected === "compose") {
 				const { runCompose } = await import("./compose/index.js");
-				await runCompose(undefined, output);
+				await runCompose(undefined, output, { ...composeFlags, tool: tool as ToolId | undefined, yes });
 			} else if (selected === "sync") {
 				const { runSync } = await import("./sync/index.js");
-				await runSync(undefined, { repo, tool: tool as ToolId | undefined, yes, cursorDb });
+				await runSync(undefined, {
+					repo,
+					tool: tool as ToolId | undefined,
+					yes,
+					cursorDb,
+					dryRun,
+					prefer: prefer as SyncPreference | undefined,
+					symlinks: symlinks as SymlinkMode | undefined,
+					exclude: composeFlags.exclude,
+				});
 			} else {
 				const { runDecompose } = await import("./decompose/index.js");
-				await runDecompose(undefined, output);
+				await runDecompose(undefined, output, { llm: composeFlags.llm });
 			}
 		}
 	}
 
-	p.outro("Done!");
+	if (!json) p.outro("Done!");
 };
 
 main().catch((err) => {
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { validateOptimizedContent } from "../content-validation.js";
+import { diffSections } from "../section-diff.js";
+
+const doc = (...sections: string[]) => `${sections.join("\n\n")}\n`;
+const validate = (original: string, optimized: string) =>
+	validateOptimizedContent(diffSections(original, optimized)).map((i) => [i.kind, i.heading, i.detail]);
+
+describe("validateOptimizedContent", () => {
+	const original = doc(
+		"# Rules",
+		"## 1. Testing\n\n> [!globs] **/*.test.ts\n\nYou MUST run `pnpm test` before committing.\n\nSee [Vitest](https://vitest.dev).",
+		"## 2. Style\n\n> [!type] skill\n\n```ts\nconst x = 1;\n```\n\n- **Never** use default exports in modules.",
+	);
+
+	it("reports nothing when content is preserved", () => {
+		const optimized = doc(
+			"# Rules",
+			"## 1. Testing\n\n> [!globs] **/*.test.ts\n\nMUST run `pnpm test` before commit. [Vitest](https://vitest.dev)",
+			"## 2. Style\n\n> [!type] skill\n\n```ts\nconst x  =  1;\n```\n\n**Never** use default exports.",
+		);
+		expect(validate(original, optimized)).toEqual([]);
+	});
+
+	it("reports a dropped section with everything in it", () => {
+		const optimized = doc(
+			"# Rules",
+			"## 1. Testing\n\n> [!globs] **/*.test.ts\n\nYou MUST run `pnpm test` before committing.\n\nSee [Vitest](https://vitest.dev).",
+		);
+		expect(validate(original, optimized)).toEqual([
+			["missing-heading", "2. Style", "## 2. Style"],
+			["lost-annotation", "2. Style", "> [!type] skill"],
+			["dropped-code-block", "2. Style", "```ts const x = 1;"],
+			["dropped-directive", "2. Style", "**Never** use default exports in modules."],
+		]);
+	});
+
+	it("reports lost annotations, links and directives inside kept sections", () => {
+		const optimized = doc(
+			"# Rules",
+			"## 1. Testing\n\nRun `pnpm test` before committing.",
+			"## 2. Style\n\n> [!type] skill\n\n```ts\nconst x = 1;\n```\n\n- **Never** use default exports in modules.",
+		);
+		expect(validate(original, optimized)).toEqual([
+			["lost-annotation", "1. Testing", "> [!globs] **/*.test.ts"],
+			["dropped-link", "1. Testing", "https://vitest.dev"],
+			["dropped-directive", "1. Testing", "You MUST run `pnpm test` before committing."],
+		]);
+	});
+
+	it("flags renamed headings but not renumbered ones", () => {
+		expect(validate(doc("## 1. Alpha\n\nA."), doc("## 2. Alpha\n\nA."))).toEqual([]);
+		expect(validate(doc("## 1. Alpha\n\nA."), doc("## 1. Beta\n\nA."))).toEqual([
+			["missing-heading", "1. Beta", '## 1. Alpha (renamed to "1. Beta")'],
+		]);
+	});
+
+	it("accepts content moved to another section", () => {
+		const before = doc("## A\n\nSee [docs](./docs.md).", "## B\n\nText.");
+		const after = doc("## A\n\nShort.", "## B\n\nText. See [docs](./docs.md).");
+		expect(validate(before, after)).toEqual([]);
+	});
+
+	it("ignores lowercase keywords and directives inside code blocks", () => {
+		const before = doc("## A\n\nYou must be kind.\n\n```sh\n# NEVER run this\nrm -rf /\n```");
+		const after = doc("## A\n\nBe kind.\n\n```sh\n# NEVER run this\nrm -rf /\n```");
+		expect(validate(before, after)).toEqual([]);
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+	diffSequences,
+	diffLines,
+	diffWords,
+	diffHunks,
+	mergeWithConflictMarkers,
+	splitLines,
+	unifiedDiff,
+} from "../diff.js";
+
+/** Apply an edit script to recover the new sequence */
+const applyOps = <T>(ops: { type: string; value: T }[]): T[] =>
+	ops.filter((op) => op.type !== "remove").map((op) => op.value);
+
+/** Recover the original sequence from an edit script */
+const originalOf = <T>(ops: { type: string; value: T }[]): T[] =>
+	ops.filter((op) => op.type !== "add").map((op) => op.value);
+
+describe("diffSequences", () => {
+	it("returns only equal ops for identical input", () => {
+		const ops = diffSequences(["a", "b", "c"], ["a", "b", "c"]);
+		expect(ops.every((op) => op.type === "equal")).toBe(true);
+		expect(ops).toHaveLength(3);
+	});
+
+	it("finds a minimal edit script", () => {
+		const ops = diffSequences([..."ABCABBA"], [..."CBABAC"]);
+		const edits = ops.filter((op) => op.type !== "equal");
+		// Classic Myers example: edit distance 5
+		expect(edits).toHaveLength(5);
+		expect(applyOps(ops).join("")).toBe("CBABAC");
+		expect(originalOf(ops).join("")).toBe("ABCABBA");
+	});
+
+	it("handles empty sides", () => {
+		expect(diffSequences([], ["x"])).toEqual([{ type: "add", value: "x" }]);
+		expect(diffSequences(["x"], [])).toEqual([{ type: "remove", value: "x" }]);
+		expect(diffSequences([], [])).toEqual([]);
+	});
+
+	it("round-trips larger random edits", () => {
+		const a = Array.from({ length: 200 }, (_, i) => `line ${i % 17}`);
+		const b = a.filter((_, i) => i % 7 !== 0).map((line, i) => (i % 11 === 0 ? `${line} changed` : line));
+		const ops = diffSequences(a, b);
+		expect(applyOps(ops)).toEqual(b);
+		expect(originalOf(ops)).toEqual(a);
+	});
+});
+
+describe("splitLines / diffLines / diffWords", () => {
+	it("ignores a single trailing newline", () => {
+		expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+		expect(splitLines("")).toEqual([]);
+	});
+
+	it("diffs by line", () => {
+		const ops = diffLines("a\nb\nc\n", "a\nB\nc\n");
+		expect(ops.map((op) => op.type)).toEqual(["equal", "remove", "add", "equal"]);
+	});
+
+	it("diffs by word, keeping whitespace tokens", () => {
+		const ops = diffWords("use tabs here", "use spaces here");
+		expect(ops.filter((op) => op.type === "remove").map((op) => op.value)).toEqual(["tabs"]);
+		expect(ops.filter((op) => op.type === "add").map((op) => op.value)).toEqual(["spaces"]);
+	});
+});
+
+describe("unifiedDiff", () => {
+	it("returns empty string for identical texts", () => {
+		expect(unifiedDiff("same\n", "same\n")).toBe("");
+	});
+
+	it("formats headers, hunk ranges and context", () => {
+		const a = ["1", "2", "3", "4", "5", "6", "7", "8"].join("\n");
+		const b = ["1", "2", "3", "4", "five", "6", "7", "8"].join("\n");
+		const diff = unifiedDiff(a, b, { fromFile: "a/x.md", toFile: "b/x.md" });
+		expect(diff).toBe(
+			["--- a/x.md", "+++ b/x.md", "@@ -2,7 +2,7 @@", " 2", " 3", " 4", "-5", "+five", " 6", " 7", " 8", ""].join(
+				"\n",
+			),
+		);
+	});
+
+	it("splits distant changes into separate hunks", () => {
+		const a = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n");
+		const b = a.replace("line 2\n", "LINE 2\n").replace("line 27\n", "LINE 27\n");
+		const diff = unifiedDiff(a, b, { context: 1 });
+		expect(diff.match(/^@@/gm)).toHaveLength(2);
+	});
+
+	it("uses start 0 for an empty original", () => {
+		const diff = unifiedDiff("", "new\n", { fromFile: "/dev/null", toFile: "b/new.md" });
+		expect(diff).toContain("@@ -0,0 +1,1 @@");
+		expect(diff).toContain("+new");
+	});
+});
+
+describe("diffHunks", () => {
+	it("returns no hunks for identical texts", () => {
+		expect(diffHunks("a\nb\n", "a\nb\n")).toEqual([]);
+	});
+
+	it("annotates rows with line numbers on both sides", () => {
+		const [hunk] = diffHunks("a\nb\nc\n", "a\nx\ny\nc\n", 1);
+		expect(hunk).toMatchObject({ aStart: 1, aCount: 3, bStart: 1, bCount: 4 });
+		expect(hunk!.rows.map((r) => [r.type, r.aLine, r.bLine])).toEqual([
+			["equal", 1, 1],
+			["remove", 2, 2],
+			["add", 3, 2],
+			["add", 3, 3],
+			["equal", 3, 4],
+		]);
+	});
+});
+
+describe("mergeWithConflictMarkers", () => {
+	it("keeps shared lines once and wraps each differing run in conflict markers", () => {
+		expect(mergeWithConflictMarkers("a\nb\nc\nd\n", "a\nB\nc\nd\ne\n", "repo", "global")).toBe(
+			"a\n<<<<<<< repo\nb\n=======\nB\n>>>>>>> global\nc\nd\n<<<<<<< repo\n=======\ne\n>>>>>>> global\n",
+		);
+	});
+
+	it("returns identical texts unchanged", () => {
+		expect(mergeWithConflictMarkers("a\nb\n", "a\nb\n")).toBe("a\nb\n");
+	});
+});
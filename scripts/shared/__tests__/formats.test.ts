@@ -8,18 +8,23 @@ import {
 	replaceWithPlaceholders,
 	readRule,
 	writeAsDirectory,
+	renderAsDirectory,
 	writeAsSingleFile,
 	extractGlobAnnotation,
 	extractSectionMetadata,
+	formatFrontmatterCallout,
+	quoteGlobs,
 	unquoteGlobs,
 	ensureBlankLineAfterFrontmatter,
 	inferRuleTypeFromPath,
+	inferActivation,
+	findLongDescriptions,
 	getOutputFilePathForRule,
 	getLayoutRootAndRulesDir,
 	TOOL_REGISTRY,
 	TOOL_VARIABLES,
 } from "../formats.js";
-import { TOOL_IDS } from "../types.js";
+import { TOKENIZER_IDS, TOOL_IDS, type RuleFile, type ToolId } from "../types.js";
 
 describe("TOOL_REGISTRY", () => {
 	it("has an entry for every tool ID", () => {
@@ -27,6 +32,7 @@ describe("TOOL_REGISTRY", () => {
 			expect(TOOL_REGISTRY[id]).toBeDefined();
 			expect(TOOL_REGISTRY[id]!.id).toBe(id);
 			expect(TOOL_REGISTRY[id]!.name).toBeTruthy();
+			expect(TOKENIZER_IDS).toContain(TOOL_REGISTRY[id]!.tokenizer);
 		}
 	});
 
@@ -280,6 +286,13 @@ describe("readRule", () => {
 		expect(rule.hasPlaceholders).toBe(false);
 	});
 
+	it("reads a frontmatter priority", async () => {
+		const filePath = join(tmpDir, "low-priority.mdc");
+		await writeFile(filePath, "---\ndescription: Optional\npriority: 90\n---\n\n# Optional\n", "utf-8");
+
+		expect((await readRule(filePath, "cursor")).priority).toBe(90);
+	});
+
 	it("parses .md file without frontmatter", async () => {
 		const filePath = join(tmpDir, "plain-rule.md");
 		const content = "# Plain Rule\n\nThis is a plain rule.";
@@ -309,6 +322,45 @@ describe("readRule", () => {
 		expect(rule.name).toBe("my-rule");
 	});
 
+	it("parses frontmatter in .md files instead of leaving it in the body", async () => {
+		const filePath = join(tmpDir, "reviewer.md");
+		await writeFile(
+			filePath,
+			"---\nname: reviewer\ndescription: Reviews diffs\ntools: Read, Grep\n---\n\n# Reviewer\n\nRead the diff.",
+			"utf-8",
+		);
+
+		const rule = await readRule(filePath, "claude", "agent");
+		expect(rule.description).toBe("Reviews diffs");
+		expect(rule.body).toBe("# Reviewer\n\nRead the diff.");
+		expect(rule.rawContent).toContain("tools: Read, Grep");
+	});
+
+	it("maps Copilot applyTo and Windsurf trigger back to globs and activation", async () => {
+		const scoped = join(tmpDir, "scoped.instructions.md");
+		await writeFile(scoped, "---\napplyTo: **/*.ts\n---\n\n# Scoped", "utf-8");
+		const everywhere = join(tmpDir, "everywhere.instructions.md");
+		await writeFile(everywhere, '---\napplyTo: "**"\n---\n\n# Everywhere', "utf-8");
+		const agent = join(tmpDir, "deploy.md");
+		await writeFile(agent, "---\ntrigger: model_decision\ndescription: When deploying\n---\n\n# Deploy", "utf-8");
+
+		const copilot = await readRule(scoped, "copilot");
+		expect([copilot.globs, copilot.alwaysApply, copilot.activation]).toEqual(["**/*.ts", false, "auto"]);
+		expect((await readRule(everywhere, "copilot")).activation).toBe("always");
+		const windsurf = await readRule(agent, "windsurf");
+		expect([windsurf.description, windsurf.activation]).toEqual(["When deploying", "agent"]);
+	});
+
+	it("writes a Copilot rule to Cursor with globs and alwaysApply: false, not applyTo", async () => {
+		const filePath = join(tmpDir, "api.instructions.md");
+		await writeFile(filePath, '---\napplyTo: "src/api/**/*.ts"\n---\n\n# API\n\nValidate input.', "utf-8");
+
+		const [file] = renderAsDirectory([await readRule(filePath, "copilot")], "out/.cursor/rules", "cursor");
+		expect(file!.content).toBe(
+			"---\nalwaysApply: false\nglobs: src/api/**/*.ts\n---\n\n# API\n\nValidate input.\n",
+		);
+	});
+
 	it("handles skill type", async () => {
 		const filePath = join(tmpDir, "SKILL.md");
 		await writeFile(filePath, "# My Skill\n\nDo things.", "utf-8");
@@ -350,6 +402,29 @@ describe("writeAsSingleFile", () => {
 	});
 });
 
+describe("findLongDescriptions", () => {
+	const makeRule = (name: string, description: string) => ({
+		path: "",
+		name,
+		description,
+		body: "",
+		rawContent: "",
+		source: "cursor" as const,
+		type: "rule" as const,
+		hasPlaceholders: false,
+	});
+
+	it("flags descriptions over the tool's limit", () => {
+		const long = makeRule("long", "x".repeat(1100));
+		const result = findLongDescriptions([makeRule("short", "Short"), long], "cursor");
+		expect(result).toEqual([{ rule: long, length: 1100, limit: 1024 }]);
+	});
+
+	it("returns nothing for tools without a known limit", () => {
+		expect(findLongDescriptions([makeRule("long", "x".repeat(1100))], "windsurf")).toEqual([]);
+	});
+});
+
 describe("inferRuleTypeFromPath", () => {
 	it("returns skill for path containing /skills/ and basename SKILL.md", () => {
 		expect(inferRuleTypeFromPath("/repo/.cursor/skills/foo/SKILL.md")).toBe("skill");
@@ -418,6 +493,150 @@ describe("getOutputFilePathForRule", () => {
 	});
 });
 
+describe("renderAsDirectory", () => {
+	const rule = (name: string, type: "rule" | "skill" = "rule") => ({
+		path: `/fake/${name}.mdc`,
+		name,
+		description: name,
+		body: `# ${name}\n`,
+		rawContent: `---\ndescription: ${name}\n---\n\n# ${name}\n`,
+		source: "cursor" as const,
+		type,
+		hasPlaceholders: false,
+	});
+
+	it("returns the paths writeAsDirectory would write, numbering only rules", () => {
+		const files = renderAsDirectory([rule("a"), rule("s", "skill"), rule("b")], "out/.claude/rules", "claude", {
+			numbered: true,
+		});
+		expect(files.map((f) => f.path)).toEqual([
+			join("out/.claude/rules", "01-a.md"),
+			join("out/.claude", "skills", "s", "SKILL.md"),
+			join("out/.claude/rules", "02-b.md"),
+		]);
+		expect(files[0]!.content).toBe("# a\n");
+	});
+
+	it("keeps frontmatter for tools that use it", () => {
+		const [file] = renderAsDirectory([rule("a")], "out/.cursor/rules", "cursor");
+		expect(file!.content).toContain("description: a");
+		expect(file!.content).toContain("# a");
+	});
+
+	it("writes Copilot applyTo and Windsurf trigger frontmatter for the rule's activation", () => {
+		const auto = { ...rule("auto"), activation: "auto" as const, globs: "src/**/*.ts" };
+		const agent = { ...rule("agent"), activation: "agent" as const, description: "Use when deploying" };
+		const manual = { ...rule("manual"), activation: "manual" as const };
+
+		const copilot = renderAsDirectory([auto, agent, manual], "out/.github/instructions", "copilot");
+		expect(copilot[0]!.content).toBe("---\napplyTo: src/**/*.ts\n---\n\n# auto\n");
+		expect(copilot[1]!.content).toBe("---\ndescription: Use when deploying\n---\n\n# agent\n");
+		expect(copilot[2]!.content).toBe("# manual\n");
+
+		const windsurf = renderAsDirectory([auto, agent, manual], "out/.windsurf", "windsurf");
+		expect(windsurf.map((f) => f.content.split("\n")[1])).toEqual([
+			"trigger: glob",
+			"trigger: model_decision",
+			"trigger: manual",
+		]);
+		expect(windsurf[0]!.content).toContain("globs: src/**/*.ts");
+	});
+});
+
+describe("serializeFrontmatter", () => {
+	const base = {
+		path: "",
+		name: "r",
+		description: "Use when deploying",
+		body: "",
+		rawContent: "",
+		source: "cursor" as const,
+		type: "rule" as const,
+		hasPlaceholders: false,
+	};
+	const serialize = (toolId: ToolId, overrides: Partial<RuleFile> = {}) =>
+		TOOL_REGISTRY[toolId].serializeFrontmatter?.({ ...base, ...overrides });
+
+	it("maps always-on rules to each tool's native field", () => {
+		expect(serialize("copilot", { activation: "always" })).toEqual({ applyTo: "**" });
+		expect(serialize("windsurf", { activation: "always" })).toEqual({ trigger: "always_on" });
+		expect(serialize("jetbrains-ai", { activation: "always" })).toEqual({ apply: "always" });
+		expect(serialize("claude", { activation: "always" })).toBeUndefined();
+		expect(serialize("cline", { activation: "always" })).toBeUndefined();
+	});
+
+	it("keeps scoped rules scoped", () => {
+		const auto = { activation: "auto" as const, globs: "src/**/*.ts, lib/*.ts" };
+		expect(serialize("claude", auto)).toEqual({ paths: ["src/**/*.ts", "lib/*.ts"] });
+		expect(serialize("cline", auto)).toEqual({ paths: ["src/**/*.ts", "lib/*.ts"] });
+		expect(serialize("jetbrains-ai", auto)).toEqual({
+			apply: "by file patterns",
+			patterns: "src/**/*.ts, lib/*.ts",
+		});
+		expect(serialize("jetbrains-ai", { activation: "agent" })).toEqual({
+			apply: "by model decision",
+			instructions: "Use when deploying",
+		});
+	});
+
+	it("builds Cursor's fields from the activation and keeps only custom keys of the rule's own frontmatter", () => {
+		const rawContent = "---\ndescription: Mine\ncustom: 1\n---\n\n# R\n";
+		expect(serialize("cursor", { rawContent, description: "Mine", activation: "agent" })).toEqual({
+			description: "Mine",
+			custom: 1,
+			alwaysApply: false,
+		});
+		const copilot = "---\napplyTo: src/**\n---\n\n# R\n";
+		expect(
+			serialize("cursor", { rawContent: copilot, activation: "auto", globs: "src/**", description: "" }),
+		).toEqual({
+			alwaysApply: false,
+			globs: "src/**",
+		});
+		const windsurf = "---\ntrigger: glob\nglobs: [a.ts, b.ts]\n---\n\n# R\n";
+		expect(serialize("cursor", { rawContent: windsurf, activation: "auto", globs: "a.ts, b.ts" })).toEqual({
+			globs: ["a.ts", "b.ts"],
+			alwaysApply: false,
+			description: "Use when deploying",
+		});
+		expect(serialize("cursor", { activation: "auto", globs: "*.ts" })).toEqual({
+			alwaysApply: false,
+			description: "Use when deploying",
+			globs: "*.ts",
+		});
+		expect(serialize("cursor", { activation: "manual" })).toEqual({ alwaysApply: false });
+	});
+
+	it("reads back what it writes through parseFrontmatter", () => {
+		const rules = [
+			{ activation: "always" as const },
+			{ activation: "auto" as const, globs: "src/**/*.ts, lib/*.ts" },
+			{ activation: "agent" as const },
+			{ activation: "manual" as const, description: "" },
+		];
+		for (const toolId of ["copilot", "windsurf", "jetbrains-ai"] as const) {
+			const { serializeFrontmatter, parseFrontmatter } = TOOL_REGISTRY[toolId];
+			for (const overrides of rules) {
+				const rule = { ...base, ...overrides };
+				const metadata = parseFrontmatter!(serializeFrontmatter!(rule) ?? {});
+				expect(inferActivation({ ...metadata, description: metadata.description ?? "" }), toolId).toBe(
+					rule.activation,
+				);
+				expect(metadata.globs).toBe(rule.globs);
+			}
+		}
+		expect(TOOL_REGISTRY.cline.parseFrontmatter!({ paths: ["src/*.ts", "lib/*.ts"] })).toMatchObject({
+			globs: "src/*.ts, lib/*.ts",
+			alwaysApply: false,
+		});
+	});
+
+	it("leaves skills and tools without activation metadata alone", () => {
+		expect(serialize("windsurf", { type: "skill" })).toBeUndefined();
+		expect(TOOL_REGISTRY.amazonq.serializeFrontmatter).toBeUndefined();
+	});
+});
+
 describe("writeAsDirectory", () => {
 	const tmpDir = join(tmpdir(), "arc-test-write-dir");
 
@@ -645,6 +864,27 @@ describe("extractGlobAnnotation", () => {
 });
 
 describe("extractSectionMetadata", () => {
+	it("reads > [!activation] and otherwise infers the activation", () => {
+		const manual = extractSectionMetadata("## Deploy\n\n> [!activation] manual\n\n> Deploy steps.\n\nBody.");
+		expect(manual.activation).toBe("manual");
+		expect(manual.alwaysApply).toBe(false);
+		expect(manual.description).toBe("Deploy steps.");
+		expect(manual.content).toBe("## Deploy\n\nBody.");
+
+		expect(extractSectionMetadata("## A\n\n> [!globs] *.ts\n\nBody.").activation).toBe("auto");
+		expect(extractSectionMetadata("## A\n\n> [!globs]\n\n> Summary.\n\nBody.").activation).toBe("agent");
+		expect(extractSectionMetadata("## A\n\nBody.").activation).toBe("always");
+	});
+
+	it("skips the section heading at any level and reads marker sections without one", () => {
+		const h3 = extractSectionMetadata("### Deploy\n\n> [!activation] manual\n\n> Deploy steps.\n\nBody.");
+		expect([h3.activation, h3.description, h3.content]).toEqual(["manual", "Deploy steps.", "### Deploy\n\nBody."]);
+		const h1 = extractSectionMetadata("# Deploy\n\n> [!globs] *.ts\n\nBody.");
+		expect([h1.globs, h1.content]).toEqual(["*.ts", "# Deploy\n\nBody."]);
+		const marker = extractSectionMetadata("> Deploy steps.\n\nBody.");
+		expect([marker.description, marker.content]).toEqual(["Deploy steps.", "Body."]);
+	});
+
 	it("extracts blockquote description only when no callouts", () => {
 		const content = "## Approach\n\n> Plan first, confirm, then implement.\n\nOnly move to Agent mode.";
 		const r = extractSectionMetadata(content);
@@ -681,11 +921,11 @@ describe("extractSectionMetadata", () => {
 		expect(r.content).toBe(content);
 	});
 
-	it("joins multiple blockquote lines for description and caps at 120 chars", () => {
-		const long = "a".repeat(80);
+	it("joins multiple blockquote lines for description without truncating", () => {
+		const long = "a".repeat(200);
 		const content = `## Section\n\n> ${long}\n\n> Second line.\n\nBody.`;
 		const r = extractSectionMetadata(content);
-		expect(r.description).toBe(`${long} Second line.`.slice(0, 120));
+		expect(r.description).toBe(`${long} Second line.`);
 		expect(r.content).toBe("## Section\n\nBody.");
 	});
 
@@ -715,6 +955,38 @@ describe("extractSectionMetadata", () => {
 		expect(c.type).toBe("command");
 		expect(c.content).not.toContain("[!type]");
 	});
+
+	it("extracts > [!name] and > [!frontmatter], whose description wins over a blockquote", () => {
+		const content =
+			'## Deploy\n\n> Short summary.\n\n> [!name] 03-deploy\n\n> [!frontmatter] `{"name":"deploy","description":"Full description","disable-model-invocation":true}`\n\nShip it.';
+		const r = extractSectionMetadata(content);
+		expect(r.name).toBe("03-deploy");
+		expect(r.frontmatter).toEqual({
+			name: "deploy",
+			description: "Full description",
+			"disable-model-invocation": true,
+		});
+		expect(Object.keys(r.frontmatter!)).toEqual(["name", "description", "disable-model-invocation"]);
+		expect(r.description).toBe("Full description");
+		expect(r.content).toBe("## Deploy\n\nShip it.");
+	});
+
+	it("round-trips frontmatter containing backticks through formatFrontmatterCallout", () => {
+		const data = { description: "Run `pnpm test` first", globs: "**/*.ts" };
+		const callout = formatFrontmatterCallout(data);
+		expect(callout).toBe('> [!frontmatter] `` {"description":"Run `pnpm test` first","globs":"**/*.ts"} ``');
+		expect(extractSectionMetadata(`## Rule\n\n${callout}\n\nBody.`).frontmatter).toEqual(data);
+	});
+});
+
+describe("quoteGlobs", () => {
+	it("quotes unquoted glob values and leaves already-quoted ones alone", () => {
+		expect(quoteGlobs("---\nglobs: **/*.ts\n---")).toBe('---\nglobs: "**/*.ts"\n---');
+		expect(quoteGlobs("---\nglobs: '**/*.ts'\n---")).toBe("---\nglobs: '**/*.ts'\n---");
+		expect(quoteGlobs("---\napplyTo: **/*.ts\npatterns: *.md\n---")).toBe(
+			'---\napplyTo: "**/*.ts"\npatterns: "*.md"\n---',
+		);
+	});
 });
 
 describe("unquoteGlobs", () => {
@@ -790,4 +1062,33 @@ describe("readRule glob extraction", () => {
 		expect(rule.globs).toBeUndefined();
 		expect(rule.alwaysApply).toBe(true);
 	});
+
+	it("derives the activation from frontmatter, and always for plain markdown", async () => {
+		const cases: [string, string][] = [
+			["always.mdc", "description: Always\nalwaysApply: true"],
+			["auto.mdc", "description: Auto\nalwaysApply: false\nglobs: src/*.ts"],
+			["agent.mdc", "description: Agent\nalwaysApply: false"],
+			["manual.mdc", "alwaysApply: false"],
+		];
+		const activations = [];
+		for (const [name, frontmatter] of cases) {
+			await writeFile(join(tmpDir, name), `---\n${frontmatter}\n---\n\nContent.`, "utf-8");
+			activations.push((await readRule(join(tmpDir, name), "cursor")).activation);
+		}
+		expect(activations).toEqual(["always", "auto", "agent", "manual"]);
+
+		await writeFile(join(tmpDir, "plain.md"), "# Plain\n\nContent.", "utf-8");
+		expect((await readRule(join(tmpDir, "plain.md"), "claude")).activation).toBe("always");
+	});
+});
+
+describe("inferActivation", () => {
+	it("follows Cursor's rule types, treating a missing alwaysApply without globs as always", () => {
+		expect(inferActivation({ alwaysApply: true, globs: "*.ts" })).toBe("always");
+		expect(inferActivation({ alwaysApply: false, globs: "*.ts" })).toBe("auto");
+		expect(inferActivation({ globs: "*.ts" })).toBe("auto");
+		expect(inferActivation({ alwaysApply: false, description: "When deploying" })).toBe("agent");
+		expect(inferActivation({ alwaysApply: false, description: "" })).toBe("manual");
+		expect(inferActivation({ description: "Plain" })).toBe("always");
+	});
 });
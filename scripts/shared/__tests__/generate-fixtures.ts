@@ -13,7 +13,7 @@ import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { rm, mkdir, readdir } from "node:fs/promises";
 import { splitByHeadings } from "../../decompose/splitter.js";
-import { extractProseDescription, buildRawContent } from "../../decompose/index.js";
+import { extractProseDescription, buildRawContent } from "../../decompose/decomposer.js";
 import { writeAsDirectory, writeAsSingleFile, readRule } from "../formats.js";
 import { compose } from "../../compose/composer.js";
 import type { RuleFile } from "../types.js";
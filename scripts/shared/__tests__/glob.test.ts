@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { globToRegExp, matchesGlob, matchesAnyGlob } from "../glob.js";
+
+describe("globToRegExp", () => {
+	it("anchors patterns with a leading slash to the start of the path", () => {
+		expect(globToRegExp("/rules/*.mdc").test("rules/a.mdc")).toBe(true);
+		expect(globToRegExp("/rules/*.mdc").test("nested/rules/a.mdc")).toBe(false);
+	});
+});
+
+describe("matchesGlob", () => {
+	it("matches * within a single segment only", () => {
+		expect(matchesGlob("01-approach", "01-*")).toBe(true);
+		expect(matchesGlob("rules/sub/a.mdc", "rules/*.mdc")).toBe(false);
+	});
+
+	it("matches ** across segments, including zero segments", () => {
+		expect(matchesGlob("rules/sub/a.mdc", "rules/**/*.mdc")).toBe(true);
+		expect(matchesGlob("rules/a.mdc", "rules/**/*.mdc")).toBe(true);
+		expect(matchesGlob("/home/me/skills/x/SKILL.md", "skills/**")).toBe(true);
+	});
+
+	it("supports [a-z] and [!x] character classes", () => {
+		expect(matchesGlob("03-testing", "0[1-4]-*")).toBe(true);
+		expect(matchesGlob("05-testing", "0[1-4]-*")).toBe(false);
+		expect(matchesGlob("05-testing", "0[!1-4]-*")).toBe(true);
+	});
+
+	it("supports ? and {a,b} alternatives", () => {
+		expect(matchesGlob("0a-x", "0?-x")).toBe(true);
+		expect(matchesGlob("rules/a.md", "*.{md,mdc}")).toBe(true);
+		expect(matchesGlob("rules/a.txt", "*.{md,mdc}")).toBe(false);
+	});
+
+	it("matches at path-segment boundaries, not mid-segment", () => {
+		expect(matchesGlob("my-rules/a.mdc", "rules/*.mdc")).toBe(false);
+		expect(matchesGlob("C:\\repo\\rules\\a.mdc", "rules/*.mdc")).toBe(true);
+	});
+});
+
+describe("matchesAnyGlob", () => {
+	it("returns true when any pattern matches and false for an empty list", () => {
+		expect(matchesAnyGlob("a.md", ["*.txt", "*.md"])).toBe(true);
+		expect(matchesAnyGlob("a.md", [])).toBe(false);
+	});
+});
@@ -4,7 +4,7 @@ import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { tmpdir } from "node:os";
 import { splitByHeadings } from "../../decompose/splitter.js";
-import { extractProseDescription, buildRawContent } from "../../decompose/index.js";
+import { extractProseDescription, buildRawContent } from "../../decompose/decomposer.js";
 import { reconstructFromHeadings } from "../../decompose/matcher.js";
 import { extractSectionMetadata } from "../formats.js";
 import { readRule, writeAsDirectory } from "../formats.js";
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	clearCache,
+	countCachedResponses,
+	getCacheDir,
+	llmCacheKey,
+	readCachedResponse,
+	writeCachedResponse,
+} from "../llm-cache.js";
+import { callLLM } from "../llm.js";
+import { llmSettingsFromEnv, resolveLLMConfig } from "../providers.js";
+
+const config = resolveLLMConfig({}, {}, {});
+const messages = [
+	{ role: "system" as const, content: "Prompt file contents" },
+	{ role: "user" as const, content: "# Input" },
+];
+
+describe("getCacheDir", () => {
+	it("prefers RULE_COMPOSER_CACHE_DIR, then XDG_CACHE_HOME", () => {
+		expect(getCacheDir({ RULE_COMPOSER_CACHE_DIR: "/tmp/rc", XDG_CACHE_HOME: "/xdg" })).toBe("/tmp/rc");
+		expect(getCacheDir({ XDG_CACHE_HOME: "/xdg" })).toBe(join("/xdg", "rule-composer"));
+		expect(getCacheDir({})).toMatch(/[/\\]\.cache[/\\]rule-composer$/);
+	});
+});
+
+describe("llmCacheKey", () => {
+	it("changes with the prompt, input and model but not the cache flag", () => {
+		const key = llmCacheKey(messages, config);
+		expect(key).toMatch(/^[0-9a-f]{64}$/);
+		expect(llmCacheKey(messages, { ...config, cache: false })).toBe(key);
+		expect(llmCacheKey(messages, { ...config, model: "other" })).not.toBe(key);
+		expect(llmCacheKey([{ ...messages[0]!, content: "Edited prompt" }, messages[1]!], config)).not.toBe(key);
+		expect(llmCacheKey([messages[0]!, { ...messages[1]!, content: "# Other" }], config)).not.toBe(key);
+	});
+});
+
+describe("RULE_COMPOSER_CACHE", () => {
+	it("parses booleans and rejects anything else", () => {
+		expect(llmSettingsFromEnv({ RULE_COMPOSER_CACHE: "false" })).toEqual({ cache: false });
+		expect(llmSettingsFromEnv({ RULE_COMPOSER_CACHE: "1" })).toEqual({ cache: true });
+		expect(() => llmSettingsFromEnv({ RULE_COMPOSER_CACHE: "off" })).toThrow("RULE_COMPOSER_CACHE must be");
+	});
+});
+
+describe("cache storage", () => {
+	const cacheDir = join(tmpdir(), "arc-test-llm-cache");
+
+	beforeEach(async () => {
+		await rm(cacheDir, { recursive: true, force: true });
+	});
+
+	afterEach(async () => {
+		vi.unstubAllGlobals();
+		vi.unstubAllEnvs();
+		await rm(cacheDir, { recursive: true, force: true });
+	});
+
+	it("round-trips responses and counts them", async () => {
+		expect(await readCachedResponse("abc", cacheDir)).toBeNull();
+		await writeCachedResponse("abc", "model-x", "# Cached", cacheDir);
+		expect(await readCachedResponse("abc", cacheDir)).toBe("# Cached");
+		expect(await countCachedResponses(cacheDir)).toBe(1);
+	});
+
+	it("treats malformed entries as misses", async () => {
+		await mkdir(join(cacheDir, "llm"), { recursive: true });
+		await writeFile(join(cacheDir, "llm", "bad.json"), "{ not json");
+		await writeFile(join(cacheDir, "llm", "wrong.json"), JSON.stringify({ content: 1 }));
+		expect(await readCachedResponse("bad", cacheDir)).toBeNull();
+		expect(await readCachedResponse("wrong", cacheDir)).toBeNull();
+	});
+
+	it("clearCache removes every entry and reports the count", async () => {
+		await writeCachedResponse("a", "m", "one", cacheDir);
+		await writeCachedResponse("b", "m", "two", cacheDir);
+		expect(await clearCache(cacheDir)).toBe(2);
+		expect(await countCachedResponses(cacheDir)).toBe(0);
+		expect(await clearCache(cacheDir)).toBe(0);
+	});
+
+	it("callLLM answers repeated requests from the cache unless caching is off", async () => {
+		vi.stubEnv("RULE_COMPOSER_CACHE_DIR", cacheDir);
+		const fetchMock = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({ id: "1", choices: [{ message: { content: "# Out" }, finish_reason: "stop" }] }),
+				),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		expect(await callLLM(messages, "key", config)).toEqual({ content: "# Out" });
+		expect(await callLLM(messages, "key", config)).toEqual({ content: "# Out", cached: true });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		await callLLM(messages, "key", { ...config, cache: false });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("caches only responses the caller accepts, so a rejected one is fetched fresh next time", async () => {
+		vi.stubEnv("RULE_COMPOSER_CACHE_DIR", cacheDir);
+		const replies = ["not markdown", "# Valid"];
+		const fetchMock = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({
+						id: "1",
+						choices: [{ message: { content: replies.shift() }, finish_reason: "stop" }],
+					}),
+				),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+		const accept = (content: string) => content.startsWith("#");
+
+		expect(await callLLM(messages, "key", config, accept)).toEqual({ content: "not markdown" });
+		expect(await countCachedResponses(cacheDir)).toBe(0);
+		expect(await callLLM(messages, "key", config, accept)).toEqual({ content: "# Valid" });
+		expect(await callLLM(messages, "key", config, accept)).toEqual({ content: "# Valid", cached: true });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("does not cache failed calls", async () => {
+		vi.stubEnv("RULE_COMPOSER_CACHE_DIR", cacheDir);
+		vi.stubGlobal("fetch", async () => new Response("down", { status: 503 }));
+
+		expect((await callLLM(messages, "key", config)).content).toBeNull();
+		expect(await countCachedResponses(cacheDir)).toBe(0);
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { optimizeChunked, resolvePromptPath, splitSectionHead } from "../llm.js";
+import { resolveLLMConfig } from "../providers.js";
+
+describe("splitSectionHead", () => {
+	it("keeps the heading and the callouts under it out of the body", () => {
+		expect(
+			splitSectionHead("## 2. Testing\n\n> [!globs] *.test.ts\n\n> [!type] skill\n\nUse vitest.\n\nMore."),
+		).toEqual({
+			head: "## 2. Testing\n\n> [!globs] *.test.ts\n\n> [!type] skill",
+			body: "Use vitest.\n\nMore.",
+		});
+	});
+
+	it("treats a preamble without heading as all body", () => {
+		expect(splitSectionHead("Intro text.\n\n---")).toEqual({ head: "", body: "Intro text.\n\n---" });
+	});
+});
+
+describe("optimizeChunked", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	const promptPath = resolvePromptPath("compose/prompt.md");
+	const config = resolveLLMConfig({ cache: false }, {}, {});
+	const doc = [
+		"# Rules",
+		"",
+		"## 1. Alpha",
+		"",
+		"> [!globs] src/**/*.ts",
+		"",
+		"Alpha body that is long.",
+		"",
+		"## 2. Beta",
+		"",
+		"Beta body that is long.",
+		"",
+		"## 3. Empty",
+		"",
+	].join("\n");
+
+	/** Answer each request with reply(user message), optionally after a delay */
+	const stubFetch = (reply: (body: string) => string, delayMs = 0) => {
+		const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+			const request = JSON.parse(init.body as string) as { messages: Array<{ role: string; content: string }> };
+			const user = request.messages.find((m) => m.role === "user")!.content;
+			if (delayMs) await new Promise((r) => setTimeout(r, delayMs));
+			const content = reply(user);
+			return new Response(
+				JSON.stringify({ id: "1", choices: [{ message: { content }, finish_reason: "stop" }] }),
+			);
+		});
+		vi.stubGlobal("fetch", fetchMock);
+		return fetchMock;
+	};
+
+	it("optimizes section bodies and keeps headings, numbering and callouts", async () => {
+		const fetchMock = stubFetch((body) => body.replace(" that is long", ""));
+		const result = await optimizeChunked(doc, "key", promptPath, config);
+
+		expect(result.optimized).toBe(
+			"# Rules\n\n## 1. Alpha\n\n> [!globs] src/**/*.ts\n\nAlpha body.\n\n## 2. Beta\n\nBeta body.\n\n## 3. Empty\n",
+		);
+		// The empty section and the heading-only preamble are not sent
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		const sent = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body as string).messages.at(-1).content);
+		expect(sent).toEqual(["Alpha body that is long.", "Beta body that is long."]);
+		// The chunk instructions name every callout validation protects
+		const instructions = JSON.parse(fetchMock.mock.calls[0]![1].body as string).messages[1].content as string;
+		for (const name of ["globs", "activation", "type", "name", "frontmatter"]) {
+			expect(instructions).toContain(`\`> [!${name}]\``);
+		}
+		expect(result.chunks.map((c) => [c.heading, c.error])).toEqual([
+			[null, undefined],
+			["1. Alpha", undefined],
+			["2. Beta", undefined],
+			["3. Empty", undefined],
+		]);
+	});
+
+	it("strips an echoed heading and keeps the original for invalid chunks", async () => {
+		stubFetch((body) => (body.startsWith("Alpha") ? "## 1. Alpha\n\nAlpha." : "## Split\n\nBeta."));
+		const result = await optimizeChunked(doc, "key", promptPath, config);
+
+		expect(result.chunks[1]!.optimized).toBe("## 1. Alpha\n\n> [!globs] src/**/*.ts\n\nAlpha.");
+		expect(result.chunks[2]!.error).toBe("Chunk output added an H2 heading");
+		expect(result.chunks[2]!.optimized).toBe(result.chunks[2]!.original);
+	});
+
+	it("runs at most `concurrency` requests at once", async () => {
+		let inFlight = 0;
+		let peak = 0;
+		const sections = Array.from({ length: 6 }, (_, i) => `## ${i + 1}. S${i}\n\nBody ${i}.`).join("\n\n");
+		stubFetch((body) => {
+			inFlight--;
+			return body;
+		}, 5);
+		const realFetch = globalThis.fetch;
+		vi.stubGlobal("fetch", (url: string, init: RequestInit) => {
+			inFlight++;
+			peak = Math.max(peak, inFlight);
+			return realFetch(url, init);
+		});
+
+		const result = await optimizeChunked(sections, "key", promptPath, config, { concurrency: 2 });
+		expect(result.chunks).toHaveLength(6);
+		expect(peak).toBe(2);
+	});
+
+	it("returns null when every chunk fails", async () => {
+		vi.stubGlobal("fetch", async () => new Response("down", { status: 503 }));
+		const result = await optimizeChunked(doc, "key", promptPath, config);
+		expect(result.optimized).toBeNull();
+		expect(result.error).toMatch(/^API error 503/);
+	});
+});
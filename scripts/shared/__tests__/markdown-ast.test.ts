@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { headingLines, headingText, mapLines, markdownBlocks } from "../markdown-ast.js";
+import { addSectionNumbers, incrementHeadings, injectGlobAnnotation } from "../../compose/composer.js";
+import { splitByHeadings } from "../../decompose/splitter.js";
+import { parseHeadingMap } from "../../decompose/matcher.js";
+
+/** A rule document whose code, HTML and front matter all contain heading-like lines */
+const TRICKY = [
+	"---",
+	"description: Shell tips",
+	"# not a heading",
+	"---",
+	"",
+	"## Shell",
+	"",
+	"```sh",
+	"## list files",
+	"ls -la",
+	"# comment",
+	"```",
+	"",
+	"<div>",
+	"## inside html",
+	"</div>",
+	"",
+	"~~~md",
+	"## Fenced markdown",
+	"~~~",
+	"",
+	"## Git",
+	"",
+	"    ## indented code",
+	"",
+	"Commit often.",
+].join("\n");
+
+const FENCE = "```sh\n## list files\nls -la\n# comment\n```";
+
+describe("markdownBlocks", () => {
+	it("reports only real headings, with 0-based line numbers", () => {
+		expect(headingLines(TRICKY)).toEqual([5, 21]);
+		expect(markdownBlocks(TRICKY).map((b) => b.type)).toEqual([
+			"yaml",
+			"heading",
+			"code",
+			"html",
+			"code",
+			"heading",
+			"code",
+			"paragraph",
+		]);
+	});
+
+	it("ignores setext headings and headings nested in blockquotes", () => {
+		expect(headingLines("Title\n=====\n\n> ## Quoted\n\n### Real")).toEqual([5]);
+		expect(headingText("### 2. Real  ")).toBe("2. Real  ");
+	});
+
+	it("mapLines rewrites only the given lines", () => {
+		expect(mapLines("a\nb\nc", [1], (line) => line.toUpperCase())).toBe("a\nB\nc");
+	});
+});
+
+describe("code-fence aware round trips", () => {
+	it("splitByHeadings and parseHeadingMap keep fenced and HTML content inside their section", () => {
+		const sections = splitByHeadings(TRICKY);
+		expect(sections.map((s) => s.name)).toEqual(["preamble", "shell", "git"]);
+		expect(sections[1]!.content).toContain(FENCE);
+		expect(sections[1]!.content).toContain("<div>\n## inside html\n</div>");
+		expect(sections.map((s) => s.content).join("\n\n")).toBe(TRICKY);
+
+		expect([...parseHeadingMap(TRICKY).keys()]).toEqual(["__preamble__", "Shell", "Git"]);
+	});
+
+	it("incrementHeadings shifts headings and nothing else", () => {
+		const incremented = incrementHeadings(TRICKY);
+		expect(incremented).toBe(TRICKY.replace("## Shell", "### Shell").replace("## Git", "### Git"));
+	});
+
+	it("addSectionNumbers numbers real H2s only", () => {
+		const numbered = addSectionNumbers(TRICKY);
+		expect(numbered).toBe(TRICKY.replace("## Shell", "## 1. Shell").replace("## Git", "## 2. Git"));
+	});
+
+	it("compose-style transforms then splitting restore the original sections byte for byte", () => {
+		const body = "## Shell\n\n" + FENCE + "\n\n## Git\n\nCommit often.";
+		const composed = addSectionNumbers(incrementHeadings(injectGlobAnnotation(body, "**/*.sh", false)));
+		expect(composed).toContain(FENCE);
+
+		const sections = splitByHeadings(composed, { level: 3 });
+		expect(sections.map((s) => s.name)).toEqual(["shell", "git"]);
+		expect(sections[0]!.content).toBe("### Shell\n\n> [!globs] **/*.sh\n\n" + FENCE);
+	});
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LLM_PROVIDERS, llmSettingsFromEnv, resolveLLMConfig, toAnthropicMessages } from "../providers.js";
+import { callLLM } from "../llm.js";
+
+describe("resolveLLMConfig", () => {
+	it("defaults to OpenRouter with its default model", () => {
+		expect(resolveLLMConfig({}, {}, {})).toEqual({
+			provider: "openrouter",
+			model: "anthropic/claude-sonnet-4",
+			baseUrl: "https://openrouter.ai/api/v1",
+			temperature: 0.3,
+			maxOutputTokens: 4096,
+			cache: true,
+		});
+	});
+
+	it("uses the selected provider's defaults", () => {
+		const config = resolveLLMConfig({ provider: "anthropic" }, {}, {});
+		expect(config.model).toBe(LLM_PROVIDERS.anthropic.defaultModel);
+		expect(config.baseUrl).toBe("https://api.anthropic.com/v1");
+	});
+
+	it("layers flags over env over config, per field", () => {
+		const config = resolveLLMConfig(
+			{ model: "from-flag" },
+			{ provider: "openai-compatible", model: "from-config", baseUrl: "http://config:1/v1", temperature: 0.9 },
+			{ RULE_COMPOSER_BASE_URL: "http://localhost:11434/v1", RULE_COMPOSER_TEMPERATURE: "0" },
+		);
+		expect(config).toEqual({
+			provider: "openai-compatible",
+			model: "from-flag",
+			baseUrl: "http://localhost:11434/v1",
+			temperature: 0,
+			maxOutputTokens: 4096,
+			cache: true,
+		});
+	});
+
+	it("rejects invalid flag values", () => {
+		expect(() => resolveLLMConfig({ temperature: Number("warm") }, {}, {})).toThrow(
+			/Invalid LLM flags: temperature/,
+		);
+		expect(() => resolveLLMConfig({ provider: "nope" as never }, {}, {})).toThrow(/provider/);
+	});
+});
+
+describe("llmSettingsFromEnv", () => {
+	it("reads RULE_COMPOSER_* variables and ignores empty ones", () => {
+		expect(
+			llmSettingsFromEnv({
+				RULE_COMPOSER_PROVIDER: "anthropic",
+				RULE_COMPOSER_MODEL: "",
+				RULE_COMPOSER_MAX_OUTPUT_TOKENS: "8192",
+			}),
+		).toEqual({ provider: "anthropic", maxOutputTokens: 8192 });
+	});
+
+	it("throws on non-numeric numbers", () => {
+		expect(() => llmSettingsFromEnv({ RULE_COMPOSER_MAX_OUTPUT_TOKENS: "lots" })).toThrow(
+			"RULE_COMPOSER_MAX_OUTPUT_TOKENS must be a number",
+		);
+	});
+
+	it("throws on unknown providers", () => {
+		expect(() => llmSettingsFromEnv({ RULE_COMPOSER_PROVIDER: "mystery" })).toThrow(/environment: provider/);
+	});
+});
+
+describe("toAnthropicMessages", () => {
+	it("drops system and empty turns and joins consecutive turns of the same role", () => {
+		expect(
+			toAnthropicMessages([
+				{ role: "system", content: "sys" },
+				{ role: "user", content: "doc" },
+				{ role: "assistant", content: "" },
+				{ role: "user", content: "retry" },
+			]),
+		).toEqual([{ role: "user", content: "doc\n\nretry" }]);
+	});
+});
+
+describe("callLLM", () => {
+	const cacheDir = join(tmpdir(), "arc-test-providers-cache");
+
+	// Each test starts from an empty cache so requests always reach the stubbed fetch
+	beforeEach(async () => {
+		await rm(cacheDir, { recursive: true, force: true });
+		vi.stubEnv("RULE_COMPOSER_CACHE_DIR", cacheDir);
+	});
+
+	afterEach(async () => {
+		vi.unstubAllGlobals();
+		vi.unstubAllEnvs();
+		await rm(cacheDir, { recursive: true, force: true });
+	});
+
+	const stubFetch = (body: unknown, status = 200) => {
+		const fetchMock = vi.fn(
+			async (_url: string, _init: RequestInit) => new Response(JSON.stringify(body), { status }),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+		return fetchMock;
+	};
+
+	const chatResponse = { id: "1", choices: [{ message: { content: "# Out" }, finish_reason: "stop" }] };
+	const messages = [
+		{ role: "system" as const, content: "Be brief." },
+		{ role: "user" as const, content: "# In" },
+	];
+
+	it("posts OpenAI-format requests to an OpenAI-compatible base URL without a key", async () => {
+		const fetchMock = stubFetch(chatResponse);
+		const config = resolveLLMConfig(
+			{ provider: "openai-compatible", baseUrl: "http://localhost:11434/v1/", model: "llama3.1" },
+			{},
+			{},
+		);
+
+		expect(await callLLM(messages, "", config)).toEqual({ content: "# Out" });
+
+		const [url, init] = fetchMock.mock.calls[0]!;
+		expect(url).toBe("http://localhost:11434/v1/chat/completions");
+		expect(init.headers).not.toHaveProperty("Authorization");
+		expect(JSON.parse(init.body as string)).toMatchObject({ model: "llama3.1", messages, max_tokens: 4096 });
+	});
+
+	it("sends OpenRouter's bearer token", async () => {
+		const fetchMock = stubFetch(chatResponse);
+		await callLLM(messages, "sk-or", resolveLLMConfig({}, {}, {}));
+		const [url, init] = fetchMock.mock.calls[0]!;
+		expect(url).toBe("https://openrouter.ai/api/v1/chat/completions");
+		expect(init.headers).toMatchObject({ Authorization: "Bearer sk-or" });
+	});
+
+	it("maps to the Anthropic Messages API", async () => {
+		const fetchMock = stubFetch({ id: "msg", content: [{ type: "text", text: "# Out" }], stop_reason: "end_turn" });
+		const config = resolveLLMConfig({ provider: "anthropic", maxOutputTokens: 8000 }, {}, {});
+
+		expect(await callLLM(messages, "sk-ant", config)).toEqual({ content: "# Out" });
+
+		const [url, init] = fetchMock.mock.calls[0]!;
+		expect(url).toBe("https://api.anthropic.com/v1/messages");
+		expect(init.headers).toMatchObject({ "x-api-key": "sk-ant", "anthropic-version": "2023-06-01" });
+		expect(JSON.parse(init.body as string)).toMatchObject({
+			system: "Be brief.",
+			messages: [{ role: "user", content: "# In" }],
+			max_tokens: 8000,
+		});
+	});
+
+	it("returns API errors instead of throwing", async () => {
+		stubFetch({ error: "bad key" }, 401);
+		const result = await callLLM(messages, "x", resolveLLMConfig({}, {}, {}));
+		expect(result.content).toBeNull();
+		expect(result.error).toMatch(/^API error 401/);
+	});
+});
@@ -4,6 +4,7 @@ import {
 	optimizedOutputSchema,
 	ruleFrontmatterSchema,
 	decomposeResponseSchema,
+	composeManifestSchema,
 } from "../schemas.js";
 
 describe("openRouterResponseSchema", () => {
@@ -225,3 +226,25 @@ describe("decomposeResponseSchema", () => {
 		expect(result.success).toBe(false);
 	});
 });
+
+describe("composeManifestSchema", () => {
+	it("accepts top-level defaults with named profiles", () => {
+		const result = composeManifestSchema.safeParse({
+			sources: ["."],
+			tool: "claude",
+			options: { numbered: false },
+			profiles: {
+				backend: { include: ["rules/*"], targets: ["AGENTS.backend.md"] },
+				frontend: { types: ["rule", "skill"], order: ["01-approach"] },
+			},
+		});
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects unknown keys, unknown tools, and invalid profile names", () => {
+		expect(composeManifestSchema.safeParse({ rules: ["a"] }).success).toBe(false);
+		expect(composeManifestSchema.safeParse({ tool: "vim" }).success).toBe(false);
+		expect(composeManifestSchema.safeParse({ options: { numbred: true } }).success).toBe(false);
+		expect(composeManifestSchema.safeParse({ profiles: { "bad name": {} } }).success).toBe(false);
+	});
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { splitH2Sections, diffSections, mergeSections } from "../section-diff.js";
+
+const doc = (...sections: string[]) => `${sections.join("\n\n")}\n`;
+
+describe("splitH2Sections", () => {
+	it("splits at H2 headings and keeps the preamble", () => {
+		const sections = splitH2Sections("# Title\n\nIntro.\n\n## One\n\nFirst.\n\n## Two\n\nSecond.\n");
+		expect(sections).toEqual([
+			{ heading: null, content: "# Title\n\nIntro." },
+			{ heading: "One", content: "## One\n\nFirst." },
+			{ heading: "Two", content: "## Two\n\nSecond." },
+		]);
+	});
+
+	it("omits an empty preamble", () => {
+		expect(splitH2Sections("## Only\n\nBody.")).toEqual([{ heading: "Only", content: "## Only\n\nBody." }]);
+	});
+
+	it("ignores ## lines inside fenced code blocks", () => {
+		const sections = splitH2Sections("## Real\n\n```md\n## Not a heading\n```\n\nAfter.");
+		expect(sections).toHaveLength(1);
+		expect(sections[0]!.content).toContain("## Not a heading");
+	});
+
+	it("does not split on H3", () => {
+		expect(splitH2Sections("## A\n\n### Sub\n\nText.")).toHaveLength(1);
+	});
+});
+
+describe("diffSections", () => {
+	it("pairs sections by heading and flags only changed ones", () => {
+		const original = doc("## 1. Alpha\n\nKeep.", "## 2. Beta\n\nLong winded text here.");
+		const optimized = doc("## 1. Alpha\n\nKeep.", "## 2. Beta\n\nShort text.");
+		const changes = diffSections(original, optimized);
+		expect(changes.map((c) => [c.heading, c.changed])).toEqual([
+			["1. Alpha", false],
+			["2. Beta", true],
+		]);
+	});
+
+	it("matches headings whose numbering changed", () => {
+		const changes = diffSections(doc("## 3. Gamma\n\nText."), doc("## 2. Gamma\n\nText."));
+		expect(changes).toHaveLength(1);
+		expect(changes[0]!.original).toContain("3. Gamma");
+		expect(changes[0]!.optimized).toContain("2. Gamma");
+	});
+
+	it("reports sections the optimizer dropped or added", () => {
+		const changes = diffSections(
+			doc("## A\n\na", "## B\n\nb", "## C\n\nc"),
+			doc("## A\n\na", "## C\n\nc", "## D\n\nd"),
+		);
+		expect(changes.map((c) => [c.heading, c.original !== null, c.optimized !== null])).toEqual([
+			["A", true, true],
+			["B", true, false],
+			["C", true, true],
+			["D", false, true],
+		]);
+	});
+
+	it("treats a removed section followed by an added one as a rename", () => {
+		const changes = diffSections(doc("## Old name\n\nText."), doc("## New name\n\nText."));
+		expect(changes).toEqual([
+			{ heading: "New name", original: "## Old name\n\nText.", optimized: "## New name\n\nText.", changed: true },
+		]);
+	});
+});
+
+describe("mergeSections", () => {
+	const original = doc("# T", "## A\n\nOriginal A.", "## B\n\nOriginal B.", "## C\n\nOriginal C.");
+	const optimized = doc("# T", "## A\n\nShort A.", "## B\n\nShort B.");
+	const changes = diffSections(original, optimized);
+
+	it("takes optimized text for accepted sections and original for the rest", () => {
+		const merged = mergeSections(changes, new Set([0, 1]));
+		expect(merged).toBe(doc("# T", "## A\n\nShort A.", "## B\n\nOriginal B.", "## C\n\nOriginal C."));
+	});
+
+	it("drops a section when its removal is accepted", () => {
+		const merged = mergeSections(changes, new Set(changes.map((_, i) => i)));
+		expect(merged).toBe(optimized);
+	});
+
+	it("reproduces the original when nothing is accepted", () => {
+		expect(mergeSections(changes, new Set())).toBe(original);
+	});
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { countTokens } from "gpt-tokenizer";
+import { countTokens as countCl100k } from "gpt-tokenizer/encoding/cl100k_base";
+import { TOKENIZERS, formatTokenCount, resolveTokenizer } from "../tokenizer.js";
+
+const text = "## 1. Testing\n\nYou MUST run `pnpm test` before committing. See [Vitest](https://vitest.dev).\n";
+
+describe("TOKENIZERS", () => {
+	it("counts o200k and cl100k exactly", () => {
+		expect(TOKENIZERS.o200k.count(text)).toBe(countTokens(text));
+		expect(TOKENIZERS.cl100k.count(text)).toBe(countCl100k(text));
+		expect(TOKENIZERS.o200k.count("")).toBe(0);
+	});
+
+	it("scales the OpenAI counts for the Claude and Gemini approximations", () => {
+		expect(TOKENIZERS.claude.count(text)).toBe(Math.ceil(countCl100k(text) * 1.15));
+		expect(TOKENIZERS.gemini.count(text)).toBe(Math.ceil(countTokens(text) * 1.05));
+		expect(TOKENIZERS.claude.count(text)).toBeGreaterThan(TOKENIZERS.cl100k.count(text));
+	});
+});
+
+describe("resolveTokenizer", () => {
+	it("follows the target tool unless an id is given", () => {
+		expect(resolveTokenizer(undefined, "cursor").id).toBe("o200k");
+		expect(resolveTokenizer(undefined, "claude").id).toBe("claude");
+		expect(resolveTokenizer(undefined, "gemini").id).toBe("gemini");
+		expect(resolveTokenizer("cl100k", "claude").id).toBe("cl100k");
+		expect(resolveTokenizer().id).toBe("o200k");
+	});
+
+	it("rejects unknown ids", () => {
+		expect(() => resolveTokenizer("p50k")).toThrow("Unknown tokenizer: p50k");
+	});
+});
+
+describe("formatTokenCount", () => {
+	it("marks approximations with ~", () => {
+		expect(formatTokenCount(120, TOKENIZERS.o200k)).toBe("120");
+		expect(formatTokenCount(120, TOKENIZERS.claude)).toBe("~120");
+	});
+});
@@ -65,6 +65,14 @@ describe("buildTree", () => {
 		expect(tree[0]!.children![0]!.hint).toBe("approach description");
 	});
 
+	it("truncates long descriptions in the hint only", () => {
+		const rule = { ...makeRule("approach", "/rules/approach.mdc"), description: "word ".repeat(60).trim() };
+		const hint = buildTree([makeSource("agents-repo", [rule])])[0]!.children![0]!.hint!;
+		expect(hint).toHaveLength(120);
+		expect(hint.endsWith("…")).toBe(true);
+		expect(rule.description).toHaveLength(299);
+	});
+
 	it("handles empty sources", () => {
 		const tree = buildTree([]);
 		expect(tree).toHaveLength(0);
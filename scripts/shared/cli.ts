@@ -1,8 +1,15 @@
+import { spawnSync } from "node:child_process";
 import * as p from "@clack/prompts";
+import color from "picocolors";
 import type { ToolId, DiscoveredSource, RuleFile, OutputTarget } from "./types.js";
 import { TOOL_IDS } from "./types.js";
-import { TOOL_REGISTRY } from "./formats.js";
+import { TOOL_REGISTRY, findLongDescriptions } from "./formats.js";
 import { buildTree, treeMultiSelect } from "./tree-prompt.js";
+import { diffHunks, diffWords } from "./diff.js";
+import { diffSections, type SectionChange } from "./section-diff.js";
+import type { ContentIssue, ContentIssueKind } from "./content-validation.js";
+import { LLM_PROVIDERS, type LLMConfig } from "./providers.js";
+import { TOKENIZERS, formatTokenCount, type Tokenizer } from "./tokenizer.js";
 
 /** Let user pick which detected sources to read from */
 export const pickSources = async (
@@ -109,12 +116,15 @@ export const askOptimize = async (): Promise<boolean> => {
 };
 
 /** Prompt for API key if not in env */
-export const getApiKeyInteractive = async (): Promise<string | null> => {
-	const envKey = process.env["OPENROUTER_API_KEY"];
+export const getApiKeyInteractive = async (config: LLMConfig): Promise<string | null> => {
+	const provider = LLM_PROVIDERS[config.provider];
+	const envKey = process.env[provider.apiKeyEnv];
 	if (envKey) return envKey;
+	// Keyless endpoints (local Ollama / llama.cpp servers) need no prompt
+	if (!provider.requiresApiKey) return "";
 
 	const key = await p.password({
-		message: "OpenRouter API key (or press Enter to skip)",
+		message: `${provider.name} API key (or press Enter to skip)`,
 	});
 
 	if (p.isCancel(key)) {
@@ -125,32 +135,254 @@ export const getApiKeyInteractive = async (): Promise<string | null> => {
 	return key || null;
 };
 
-/** Show diff preview between original and optimized */
+/** Colorize a unified diff for the terminal: additions green, removals red, hunk headers cyan */
+export const colorizeDiff = (diff: string): string =>
+	diff
+		.split("\n")
+		.map((line) => {
+			if (line.startsWith("+++") || line.startsWith("---")) return color.bold(line);
+			if (line.startsWith("@@")) return color.cyan(line);
+			if (line.startsWith("+")) return color.green(line);
+			if (line.startsWith("-")) return color.red(line);
+			return line;
+		})
+		.join("\n");
+
+/** Color a removed/added line, highlighting the words that changed against its counterpart */
+const colorizeWordDiff = (removed: string, added: string): { removed: string; added: string } => {
+	const ops = diffWords(removed, added);
+	return {
+		removed: ops
+			.filter((op) => op.type !== "add")
+			.map((op) => (op.type === "remove" ? color.inverse(color.red(op.value)) : color.red(op.value)))
+			.join(""),
+		added: ops
+			.filter((op) => op.type !== "remove")
+			.map((op) => (op.type === "add" ? color.inverse(color.green(op.value)) : color.green(op.value)))
+			.join(""),
+	};
+};
+
+/**
+ * Render a colorized line diff. Runs of removed lines directly followed by the same number of
+ * added lines are paired and word-diffed.
+ */
+export const formatColorDiff = (original: string, optimized: string, context = 3): string => {
+	const out: string[] = [];
+	for (const hunk of diffHunks(original, optimized, context)) {
+		out.push(color.cyan(`@@ -${hunk.aStart},${hunk.aCount} +${hunk.bStart},${hunk.bCount} @@`));
+		const rows = hunk.rows;
+		for (let i = 0; i < rows.length; ) {
+			if (rows[i]!.type === "equal") {
+				out.push(color.dim(` ${rows[i]!.value}`));
+				i++;
+				continue;
+			}
+			const removed: string[] = [];
+			const added: string[] = [];
+			while (i < rows.length && rows[i]!.type === "remove") removed.push(rows[i++]!.value);
+			while (i < rows.length && rows[i]!.type === "add") added.push(rows[i++]!.value);
+			if (removed.length === added.length) {
+				const pairs = removed.map((line, j) => colorizeWordDiff(line, added[j]!));
+				out.push(...pairs.map((pair) => color.red("-") + pair.removed));
+				out.push(...pairs.map((pair) => color.green("+") + pair.added));
+			} else {
+				out.push(...removed.map((line) => color.red(`-${line}`)));
+				out.push(...added.map((line) => color.green(`+${line}`)));
+			}
+		}
+	}
+	return out.join("\n");
+};
+
+const sectionLabel = (change: SectionChange): string =>
+	change.heading === null ? "(preamble)" : `## ${change.heading}`;
+
+const sectionStatus = (change: SectionChange): string =>
+	change.original === null ? "added" : change.optimized === null ? "removed" : "modified";
+
+/**
+ * Print text, through $PAGER (default `less -R`) when it is taller than the terminal.
+ * Falls back to plain output when stdout is not a TTY or the pager cannot run.
+ */
+export const showInPager = (text: string): void => {
+	const output = text.endsWith("\n") ? text : `${text}\n`;
+	const rows = process.stdout.rows ?? 0;
+	if (!process.stdout.isTTY || output.split("\n").length <= rows) {
+		process.stdout.write(output);
+		return;
+	}
+	const result = spawnSync(process.env.PAGER || "less -R", {
+		input: output,
+		stdio: ["pipe", "inherit", "inherit"],
+		shell: true,
+	});
+	if (result.error || result.status !== 0) process.stdout.write(output);
+};
+
+/** Per-chunk token counts from chunked optimization; error means the chunk kept its original text */
+export interface ChunkSavings {
+	heading: string | null;
+	originalTokens: number;
+	optimizedTokens: number;
+	error?: string;
+	cached?: boolean;
+}
+
+/** Print one line per optimized chunk with its token savings, and a line per failed chunk */
+export const showChunkSavings = (chunks: ChunkSavings[], tokenizer: Tokenizer = TOKENIZERS.o200k): void => {
+	const lines = chunks.map((chunk) => {
+		const label = chunk.heading === null ? "(preamble)" : `## ${chunk.heading}`;
+		if (chunk.error) return `${label}: ${color.yellow(`kept original (${chunk.error})`)}`;
+		const savings = chunk.originalTokens - chunk.optimizedTokens;
+		const pct = chunk.originalTokens > 0 ? Math.round((savings / chunk.originalTokens) * 100) : 0;
+		const delta =
+			savings > 0 ? color.green(`-${savings}`) : savings < 0 ? color.yellow(`+${-savings}`) : color.dim("±0");
+		const source = chunk.cached ? color.dim(" cached") : "";
+		const before = formatTokenCount(chunk.originalTokens, tokenizer);
+		const after = formatTokenCount(chunk.optimizedTokens, tokenizer);
+		return `${label}: ${before} → ${after} tokens (${delta}, ${pct}%)${source}`;
+	});
+	p.log.message(lines.join("\n"));
+};
+
+/**
+ * Show the optimization as a colorized line/word diff grouped by H2 section (paged when long).
+ * Token counts and the savings percentage use the given tokenizer (the target tool's).
+ * Returns the aligned sections for askAcceptSections/mergeSections.
+ */
 export const showDiffPreview = (
 	original: string,
 	optimized: string,
-	originalTokens: number,
-	optimizedTokens: number,
-): void => {
+	tokenizer: Tokenizer = TOKENIZERS.o200k,
+): SectionChange[] => {
+	const originalTokens = tokenizer.count(original);
+	const optimizedTokens = tokenizer.count(optimized);
 	const savings = originalTokens - optimizedTokens;
-	const pct = Math.round((savings / originalTokens) * 100);
+	const pct = originalTokens > 0 ? Math.round((savings / originalTokens) * 100) : 0;
+
+	p.log.info(
+		`Before: ${formatTokenCount(originalTokens, tokenizer)} tokens | ` +
+			`After: ${formatTokenCount(optimizedTokens, tokenizer)} tokens (${pct}% savings, ${tokenizer.name})`,
+	);
+
+	const changes = diffSections(original, optimized);
+	const changed = changes.filter((c) => c.changed);
+	if (changed.length === 0) {
+		p.log.info("No changes.");
+		return changes;
+	}
 
-	p.log.info(`Before: ~${originalTokens} tokens | After: ~${optimizedTokens} tokens (${pct}% savings)`);
+	const blocks = changed.map(
+		(change) =>
+			`${color.bold(sectionLabel(change))} ${color.dim(`(${sectionStatus(change)})`)}\n` +
+			formatColorDiff(change.original ?? "", change.optimized ?? ""),
+	);
+	showInPager(blocks.join("\n\n"));
+	p.log.info(`${changed.length} of ${changes.length} sections changed`);
+	return changes;
 };
 
-/** Ask to accept optimized version */
-export const askAcceptOptimized = async (): Promise<boolean> => {
-	const result = await p.confirm({
+const ISSUE_LABELS: Record<ContentIssueKind, string> = {
+	"missing-heading": "missing heading",
+	"lost-annotation": "lost annotation",
+	"dropped-link": "dropped link",
+	"dropped-code-block": "dropped code block",
+	"dropped-directive": "dropped directive",
+};
+
+/** Warn about content the optimization lost, grouped by the section it came from */
+export const showContentIssues = (issues: ContentIssue[]): void => {
+	if (issues.length === 0) {
+		p.log.success("Validation: headings, annotations, links, code blocks and directives preserved");
+		return;
+	}
+
+	const bySection = new Map<number, ContentIssue[]>();
+	for (const issue of issues) bySection.set(issue.section, [...(bySection.get(issue.section) ?? []), issue]);
+
+	const blocks = [...bySection.values()].map((sectionIssues) => {
+		const heading = sectionIssues[0]!.heading;
+		const lines = sectionIssues.map((issue) => `  ${color.yellow(ISSUE_LABELS[issue.kind])}: ${issue.detail}`);
+		return [color.bold(heading === null ? "(preamble)" : `## ${heading}`), ...lines].join("\n");
+	});
+	p.log.warn(
+		`Validation found ${issues.length} issue${issues.length === 1 ? "" : "s"} in ${bySection.size} section(s):\n` +
+			blocks.join("\n"),
+	);
+};
+
+/** Warn about descriptions longer than the tool accepts (see ToolConfig.descriptionLimit); they are written whole */
+export const warnLongDescriptions = (rules: RuleFile[], toolId: ToolId): void => {
+	const long = findLongDescriptions(rules, toolId);
+	if (long.length === 0) return;
+	const lines = long.map(({ rule, length }) => `  ${rule.name}: ${length} characters`);
+	p.log.warn(
+		`${long.length} description${long.length === 1 ? "" : "s"} longer than ${TOOL_REGISTRY[toolId].name} accepts (${long[0]!.limit} characters):\n` +
+			lines.join("\n"),
+	);
+};
+
+/**
+ * Ask which optimized sections to keep: all, none, or a per-section pick.
+ * With validation issues, sections that have them are offered unselected by default.
+ * Returns indices into changes; unchanged sections are always included.
+ */
+export const askAcceptSections = async (
+	changes: SectionChange[],
+	issues: ContentIssue[] = [],
+): Promise<Set<number>> => {
+	const all = new Set(changes.map((_, i) => i));
+	const changedIndices = changes.flatMap((c, i) => (c.changed ? [i] : []));
+	if (changedIndices.length === 0) return all;
+
+	const issueCounts = new Map<number, number>();
+	for (const issue of issues) issueCounts.set(issue.section, (issueCounts.get(issue.section) ?? 0) + 1);
+	const clean = new Set([...all].filter((i) => !issueCounts.has(i)));
+
+	const choice = await p.select({
 		message: "Accept optimized version?",
-		initialValue: true,
+		options: [
+			...(issueCounts.size > 0 ? [{ value: "clean", label: "Accept sections without validation issues" }] : []),
+			{ value: "all", label: "Accept all sections" },
+			{ value: "pick", label: "Choose sections..." },
+			{ value: "none", label: "Reject (keep original)" },
+		],
+		initialValue: issueCounts.size > 0 ? "clean" : "all",
 	});
 
-	if (p.isCancel(result)) {
+	if (p.isCancel(choice)) {
 		p.cancel("Operation cancelled.");
 		process.exit(0);
 	}
 
-	return result;
+	if (choice === "all") return all;
+	if (choice === "clean") return clean;
+	const unchanged = changes.flatMap((c, i) => (c.changed ? [] : [i]));
+	if (choice === "none") return new Set(unchanged);
+
+	const picked = await p.multiselect({
+		message: "Sections to accept (space to toggle)",
+		options: changedIndices.map((i) => {
+			const count = issueCounts.get(i);
+			return {
+				value: i,
+				label: sectionLabel(changes[i]!),
+				hint: count
+					? `${sectionStatus(changes[i]!)}, ${count} validation issue${count === 1 ? "" : "s"}`
+					: sectionStatus(changes[i]!),
+			};
+		}),
+		initialValues: changedIndices.filter((i) => clean.has(i)),
+		required: false,
+	});
+
+	if (p.isCancel(picked)) {
+		p.cancel("Operation cancelled.");
+		process.exit(0);
+	}
+
+	return new Set([...unchanged, ...picked]);
 };
 
 /** Pick output targets */
@@ -0,0 +1,187 @@
+/**
+ * Semantic checks that an optimized document still carries the original's rule content:
+ * H2 headings, `> [!globs]`/`> [!activation]`/`> [!type]`/`> [!name]`/`> [!frontmatter]` annotations, links, code
+ * blocks and MUST/NEVER-style directives. Pure — the terminal report lives in cli.ts.
+ */
+import type { SectionChange } from "./section-diff.js";
+
+export type ContentIssueKind =
+	| "missing-heading"
+	| "lost-annotation"
+	| "dropped-link"
+	| "dropped-code-block"
+	| "dropped-directive";
+
+/** Something from the original that the optimized document no longer contains */
+export interface ContentIssue {
+	kind: ContentIssueKind;
+	/** Index into the SectionChange[] the issue belongs to (the section the content came from) */
+	section: number;
+	heading: string | null;
+	detail: string;
+}
+
+/** Uppercase RFC 2119-style keywords, plus bold-led imperatives like **Never ...** */
+const DIRECTIVE =
+	/\b(MUST NOT|MUST|NEVER|ALWAYS|SHALL NOT|SHALL|SHOULD NOT|REQUIRED|DO NOT|DON'T)\b|\*\*([Nn]ever|[Aa]lways|[Mm]ust|[Dd]o not|[Dd]on't)\b/g;
+
+/** Keyword words ignored when comparing directive lines */
+const DIRECTIVE_WORDS = new Set(["must", "never", "always", "shall", "should", "not", "required", "don't"]);
+
+const ANNOTATION = /^> \[!(globs|activation|type|name|frontmatter)\].*$/;
+
+/** Truncate for one-line issue details */
+const preview = (text: string, max = 80): string => {
+	const line = text.replace(/\s+/g, " ").trim();
+	return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+};
+
+/** Split markdown into prose (code blocks removed) and the bodies of its fenced code blocks */
+const splitCode = (markdown: string): { prose: string; blocks: Array<{ lang: string; body: string }> } => {
+	const prose: string[] = [];
+	const blocks: Array<{ lang: string; body: string }> = [];
+	let fence: { marker: string; lang: string; lines: string[] } | null = null;
+
+	for (const line of markdown.split("\n")) {
+		const match = line.match(/^\s*(`{3,}|~{3,})(.*)$/);
+		if (!fence) {
+			if (match) fence = { marker: match[1]!, lang: match[2]!.trim(), lines: [] };
+			else prose.push(line);
+		} else if (
+			match &&
+			match[1]![0] === fence.marker[0] &&
+			match[1]!.length >= fence.marker.length &&
+			!match[2]!.trim()
+		) {
+			blocks.push({ lang: fence.lang, body: fence.lines.join("\n") });
+			fence = null;
+		} else {
+			fence.lines.push(line);
+		}
+	}
+	// Unclosed fence: treat the rest as code, like CommonMark
+	if (fence) blocks.push({ lang: fence.lang, body: fence.lines.join("\n") });
+	return { prose: prose.join("\n"), blocks };
+};
+
+/** Whitespace-insensitive form used to compare code blocks */
+const normalizeCode = (body: string): string => body.replace(/\s+/g, " ").trim();
+
+/** Link targets of inline links and autolinks */
+const extractLinks = (prose: string): string[] => [
+	...[...prose.matchAll(/\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g)].map((m) => m[1]!),
+	...[...prose.matchAll(/<(https?:\/\/[^>\s]+)>/g)].map((m) => m[1]!),
+];
+
+interface Directive {
+	keyword: string;
+	line: string;
+	words: Set<string>;
+}
+
+/** Significant words of a line, for fuzzy directive matching */
+const contentWords = (line: string): Set<string> =>
+	new Set((line.toLowerCase().match(/[a-z0-9][a-z0-9'-]{2,}/g) ?? []).filter((w) => !DIRECTIVE_WORDS.has(w)));
+
+/** Each directive keyword occurrence with the (list-marker-free) line it appears on */
+const extractDirectives = (prose: string): Directive[] =>
+	prose.split("\n").flatMap((raw) => {
+		const line = raw.replace(/^\s*(?:[-*+]|\d+\.)\s+/, "").trim();
+		return [...line.matchAll(DIRECTIVE)].map((m) => ({
+			keyword: (m[1] ?? m[2]!).toUpperCase(),
+			line,
+			words: contentWords(line),
+		}));
+	});
+
+/**
+ * A directive survives when the optimized text has the same keyword on a line sharing at least
+ * half of the original line's significant words. Rewording is fine; losing the keyword is not.
+ */
+const directiveSurvives = (directive: Directive, candidates: Directive[]): boolean =>
+	candidates.some((c) => {
+		if (c.keyword !== directive.keyword) return false;
+		if (directive.words.size === 0) return true;
+		const shared = [...directive.words].filter((w) => c.words.has(w)).length;
+		return shared / directive.words.size >= 0.5;
+	});
+
+/** Remove one occurrence of value from a multiset; false when none is left */
+const take = (counts: Map<string, number>, value: string): boolean => {
+	const n = counts.get(value) ?? 0;
+	if (n === 0) return false;
+	counts.set(value, n - 1);
+	return true;
+};
+
+const countValues = (values: string[]): Map<string, number> => {
+	const counts = new Map<string, number>();
+	for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+	return counts;
+};
+
+/** Heading key used to detect renames: number prefix stripped, case-insensitive */
+const headingKey = (heading: string): string =>
+	heading
+		.replace(/^\d+(\.\d+)*\.?\s+/, "")
+		.trim()
+		.toLowerCase();
+
+/**
+ * Compare aligned original/optimized sections (from diffSections) and list content the optimized
+ * document lost. Annotations, links, code blocks and directives are looked up anywhere in the
+ * optimized document, so content moved between sections is not reported; each issue is attributed
+ * to the section the content came from.
+ */
+export const validateOptimizedContent = (changes: SectionChange[]): ContentIssue[] => {
+	const optimized = splitCode(
+		changes
+			.map((c) => c.optimized)
+			.filter((content): content is string => content !== null)
+			.join("\n\n"),
+	);
+	const annotations = countValues(
+		optimized.prose
+			.split("\n")
+			.map((line) => line.trim())
+			.filter((line) => ANNOTATION.test(line)),
+	);
+	const links = countValues(extractLinks(optimized.prose));
+	const blocks = countValues(optimized.blocks.map((b) => normalizeCode(b.body)));
+	const directives = extractDirectives(optimized.prose);
+
+	const issues: ContentIssue[] = [];
+	changes.forEach((change, section) => {
+		if (change.original === null) return;
+		const add = (kind: ContentIssueKind, detail: string) =>
+			issues.push({ kind, section, heading: change.heading, detail });
+
+		if (change.optimized === null) {
+			if (change.heading !== null) add("missing-heading", `## ${change.heading}`);
+		} else {
+			const before = change.original.match(/^## (.+)$/m)?.[1]?.trim();
+			const after = change.optimized.match(/^## (.+)$/m)?.[1]?.trim();
+			if (before && (!after || headingKey(before) !== headingKey(after))) {
+				add("missing-heading", after ? `## ${before} (renamed to "${after}")` : `## ${before}`);
+			}
+		}
+
+		const original = splitCode(change.original);
+		for (const line of original.prose.split("\n").map((l) => l.trim())) {
+			if (ANNOTATION.test(line) && !take(annotations, line)) add("lost-annotation", line);
+		}
+		for (const target of extractLinks(original.prose)) {
+			if (!take(links, target)) add("dropped-link", target);
+		}
+		for (const block of original.blocks) {
+			if (!take(blocks, normalizeCode(block.body))) {
+				const firstLine = block.body.split("\n").find((l) => l.trim()) ?? "";
+				add("dropped-code-block", `\`\`\`${block.lang} ${preview(firstLine, 60)}`.trim());
+			}
+		}
+		for (const directive of extractDirectives(original.prose)) {
+			if (!directiveSurvives(directive, directives)) add("dropped-directive", preview(directive.line));
+		}
+	});
+	return issues;
+};
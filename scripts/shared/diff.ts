@@ -0,0 +1,219 @@
+/**
+ * Sequence diffing (Myers O(ND)) and unified diff formatting.
+ * Pure — no I/O, no colors. Terminal rendering lives in cli.ts.
+ */
+
+export interface DiffOp<T> {
+	type: "equal" | "add" | "remove";
+	value: T;
+}
+
+/** Past this edit distance, fall back to remove-all/add-all instead of finding a minimal diff (bounds memory). */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Myers diff of two sequences with no common prefix/suffix handling. */
+const myers = <T>(a: readonly T[], b: readonly T[], equals: (x: T, y: T) => boolean): DiffOp<T>[] => {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+	const offset = n + m + 1;
+	const v = new Int32Array(2 * offset + 1);
+	// trace[d] = snapshot of v for k in [-d, d] before round d
+	const trace: Int32Array[] = [];
+	let found = false;
+
+	for (let d = 0; d <= max && !found; d++) {
+		trace.push(v.slice(offset - d, offset + d + 1));
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+					? v[offset + k + 1]!
+					: v[offset + k - 1]! + 1;
+			let y = x - k;
+			while (x < n && y < m && equals(a[x]!, b[y]!)) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+	}
+
+	if (!found) {
+		return [
+			...a.map((value) => ({ type: "remove" as const, value })),
+			...b.map((value) => ({ type: "add" as const, value })),
+		];
+	}
+
+	const ops: DiffOp<T>[] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const snapshot = trace[d]!;
+		const get = (k: number): number => (k < -d || k > d ? 0 : snapshot[k + d]!);
+		const k = x - y;
+		const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+		const prevX = get(prevK);
+		const prevY = prevX - prevK;
+		while (x > prevX && y > prevY) {
+			ops.push({ type: "equal", value: a[x - 1]! });
+			x--;
+			y--;
+		}
+		if (d > 0) {
+			if (x === prevX) {
+				ops.push({ type: "add", value: b[y - 1]! });
+			} else {
+				ops.push({ type: "remove", value: a[x - 1]! });
+			}
+		}
+		x = prevX;
+		y = prevY;
+	}
+	return ops.reverse();
+};
+
+/** Minimal edit script turning `a` into `b`. Common prefix/suffix are trimmed before running Myers. */
+export const diffSequences = <T>(
+	a: readonly T[],
+	b: readonly T[],
+	equals: (x: T, y: T) => boolean = (x, y) => x === y,
+): DiffOp<T>[] => {
+	let start = 0;
+	while (start < a.length && start < b.length && equals(a[start]!, b[start]!)) start++;
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && equals(a[endA - 1]!, b[endB - 1]!)) {
+		endA--;
+		endB--;
+	}
+
+	const prefix = a.slice(0, start).map((value) => ({ type: "equal" as const, value }));
+	const suffix = a.slice(endA).map((value) => ({ type: "equal" as const, value }));
+	return [...prefix, ...myers(a.slice(start, endA), b.slice(start, endB), equals), ...suffix];
+};
+
+/** Split text into lines for diffing. A trailing newline does not produce an extra empty line. */
+export const splitLines = (text: string): string[] => {
+	if (text === "") return [];
+	const lines = text.split("\n");
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines;
+};
+
+/** Line-level diff of two texts */
+export const diffLines = (a: string, b: string): DiffOp<string>[] => diffSequences(splitLines(a), splitLines(b));
+
+/** Split text into words and the whitespace/punctuation between them, for word-level diffs. */
+export const splitWords = (text: string): string[] => text.match(/\w+|\s+|[^\w\s]+/g) ?? [];
+
+/** Word-level diff of two lines */
+export const diffWords = (a: string, b: string): DiffOp<string>[] => diffSequences(splitWords(a), splitWords(b));
+
+export interface UnifiedDiffOptions {
+	/** Label for the original side (--- line) */
+	fromFile?: string;
+	/** Label for the new side (+++ line) */
+	toFile?: string;
+	/** Unchanged lines shown around each change (default: 3) */
+	context?: number;
+}
+
+/** A diff row annotated with its 1-based line numbers on both sides */
+export type DiffRow = DiffOp<string> & { aLine: number; bLine: number };
+
+/** A group of changed rows plus surrounding context, with `@@` ranges */
+export interface DiffHunk {
+	aStart: number;
+	aCount: number;
+	bStart: number;
+	bCount: number;
+	rows: DiffRow[];
+}
+
+/** Line diff grouped into hunks with `context` unchanged lines around each change. Empty when identical. */
+export const diffHunks = (a: string, b: string, context = 3): DiffHunk[] => {
+	const rows: DiffRow[] = [];
+	let aLine = 1;
+	let bLine = 1;
+	for (const op of diffLines(a, b)) {
+		rows.push({ ...op, aLine, bLine });
+		if (op.type !== "add") aLine++;
+		if (op.type !== "remove") bLine++;
+	}
+
+	// Group changed rows into hunks, merging hunks whose context overlaps
+	const ranges: Array<{ start: number; end: number }> = [];
+	rows.forEach((row, i) => {
+		if (row.type === "equal") return;
+		const start = Math.max(0, i - context);
+		const end = Math.min(rows.length, i + context + 1);
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last.end) {
+			last.end = Math.max(last.end, end);
+		} else {
+			ranges.push({ start, end });
+		}
+	});
+
+	return ranges.map(({ start, end }) => {
+		const slice = rows.slice(start, end);
+		const aCount = slice.filter((r) => r.type !== "add").length;
+		const bCount = slice.filter((r) => r.type !== "remove").length;
+		return {
+			aStart: aCount === 0 ? slice[0]!.aLine - 1 : slice.find((r) => r.type !== "add")!.aLine,
+			aCount,
+			bStart: bCount === 0 ? slice[0]!.bLine - 1 : slice.find((r) => r.type !== "remove")!.bLine,
+			bCount,
+			rows: slice,
+		};
+	});
+};
+
+/** Format a unified diff (`diff -u` style). Returns "" when the texts are identical. */
+export const unifiedDiff = (a: string, b: string, options: UnifiedDiffOptions = {}): string => {
+	const hunks = diffHunks(a, b, options.context ?? 3);
+	if (hunks.length === 0) return "";
+
+	const out = [`--- ${options.fromFile ?? "a"}`, `+++ ${options.toFile ?? "b"}`];
+	for (const hunk of hunks) {
+		out.push(`@@ -${hunk.aStart},${hunk.aCount} +${hunk.bStart},${hunk.bCount} @@`);
+		for (const row of hunk.rows) {
+			const prefix = row.type === "add" ? "+" : row.type === "remove" ? "-" : " ";
+			out.push(`${prefix}${row.value}`);
+		}
+	}
+	return `${out.join("\n")}\n`;
+};
+
+/**
+ * Two-way merge of a and b: lines both share are kept once, and every run where they differ becomes
+ * a git-style conflict block (`<<<<<<< aLabel`, a's lines, `=======`, b's lines, `>>>>>>> bLabel`).
+ */
+export const mergeWithConflictMarkers = (a: string, b: string, aLabel = "a", bLabel = "b"): string => {
+	const out: string[] = [];
+	let ours: string[] = [];
+	let theirs: string[] = [];
+	const flush = () => {
+		if (ours.length === 0 && theirs.length === 0) return;
+		out.push(`<<<<<<< ${aLabel}`, ...ours, "=======", ...theirs, `>>>>>>> ${bLabel}`);
+		ours = [];
+		theirs = [];
+	};
+	for (const op of diffLines(a, b)) {
+		if (op.type === "remove") {
+			ours.push(op.value);
+		} else if (op.type === "add") {
+			theirs.push(op.value);
+		} else {
+			flush();
+			out.push(op.value);
+		}
+	}
+	flush();
+	return out.length > 0 ? `${out.join("\n")}\n` : "";
+};
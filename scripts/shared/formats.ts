@@ -1,16 +1,22 @@
 import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { join, basename, dirname, extname } from "node:path";
 import matter from "gray-matter";
-import type { ToolId, ToolConfig, RuleFile, SourceId } from "./types.js";
+import type { ToolId, ToolConfig, RuleFile, SourceId, RenderedFile, RuleActivation, RuleMetadata } from "./types.js";
 import { TOOL_IDS } from "./types.js";
-import { ruleFrontmatterSchema } from "./schemas.js";
-
-// Quote unquoted `globs` values in YAML frontmatter before parsing.
-// Glob patterns starting with `*` are valid glob syntax but invalid YAML
-// (`*` is the YAML alias character). Wrapping in quotes lets gray-matter
-// parse the frontmatter without errors.
+import {
+	copilotFrontmatterSchema,
+	jetbrainsFrontmatterSchema,
+	pathsFrontmatterSchema,
+	ruleFrontmatterSchema,
+	windsurfFrontmatterSchema,
+} from "./schemas.js";
+
+// Quote unquoted glob values (`globs`, Copilot's `applyTo`, JetBrains' `patterns`)
+// in YAML frontmatter before parsing. Glob patterns starting with `*` are valid
+// glob syntax but invalid YAML (`*` is the YAML alias character). Wrapping in
+// quotes lets gray-matter parse the frontmatter without errors.
 export const quoteGlobs = (raw: string): string =>
-	raw.replace(/^(globs:\s*)([^"'\n][^\n]*)/m, (_, prefix: string, value: string) =>
+	raw.replace(/^((?:globs|applyTo|patterns):[ \t]*)([^"'\s][^\n]*)/gm, (_, prefix: string, value: string) =>
 		value.trim().includes("*") ? `${prefix}"${value.trim()}"` : `${prefix}${value}`,
 	);
 
@@ -29,6 +35,143 @@ export const unquoteGlobs = (raw: string): string =>
 export const ensureBlankLineAfterFrontmatter = (raw: string): string =>
 	raw.replace(/(---\r?\n(?:.*\r?\n)*?---\r?\n)([^\r\n])/m, "$1\n$2");
 
+/** Agent Skills spec: SKILL.md (and subagent) descriptions are capped at 1024 characters */
+const AGENT_SKILLS_DESCRIPTION_LIMIT = 1024;
+
+/** Comma-separated globs as a list, for tools that take an array of patterns */
+const globList = (globs?: string): string[] =>
+	(globs ?? "")
+		.split(",")
+		.map((glob) => glob.trim())
+		.filter(Boolean);
+
+/** Frontmatter keys that belong to another tool's rule format; Cursor would ignore them */
+const FOREIGN_RULE_KEYS = new Set(["applyTo", "trigger", "paths", "apply", "patterns", "instructions"]);
+
+/**
+ * Cursor .mdc: alwaysApply/description/globs built from the rule's activation every time, so rules
+ * read from any tool keep their scoping. Other keys of the rule's own frontmatter (custom ones like
+ * priority) pass through in their original order; keys another tool owns are dropped. Manual rules
+ * get no description, or Cursor would treat them as agent-requested. Skills, subagents and commands
+ * keep their own frontmatter.
+ */
+const cursorFrontmatter = (rule: RuleFile): Record<string, unknown> | undefined => {
+	const { data } = matter(quoteGlobs(rule.rawContent));
+	if (rule.type !== "rule") return data;
+	const activation = rule.activation ?? inferActivation(rule);
+	const fields: Record<string, unknown> = { alwaysApply: activation === "always" };
+	if (rule.description && activation !== "manual") fields["description"] = rule.description;
+	if (rule.globs) fields["globs"] = rule.globs;
+
+	const frontmatter: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(data)) {
+		if (FOREIGN_RULE_KEYS.has(key)) continue;
+		if (key === "alwaysApply" || key === "description" || key === "globs") {
+			if (!(key in fields)) continue;
+			// A glob list that says the same as the canonical globs keeps its form
+			const same = key === "globs" && joinGlobs(value as string | string[]) === fields["globs"];
+			frontmatter[key] = same ? value : fields[key];
+			continue;
+		}
+		frontmatter[key] = value;
+	}
+	for (const [key, value] of Object.entries(fields)) if (!(key in frontmatter)) frontmatter[key] = value;
+	return frontmatter;
+};
+
+/** `paths` scopes a rule to matching files; rules without it always load */
+const pathsFrontmatter = (rule: RuleFile): Record<string, unknown> | undefined =>
+	rule.type === "rule" && (rule.activation ?? inferActivation(rule)) === "auto"
+		? { paths: globList(rule.globs) }
+		: undefined;
+
+/** Claude Code: `paths` for rules; skills, subagents and commands keep their own frontmatter (name, description, tools, …) */
+const claudeFrontmatter = (rule: RuleFile): Record<string, unknown> | undefined =>
+	rule.type === "rule" ? pathsFrontmatter(rule) : matter(quoteGlobs(rule.rawContent)).data;
+
+/** Copilot .instructions.md: `applyTo` globs; instructions without it are only attached by hand */
+const copilotFrontmatter = (rule: RuleFile): Record<string, unknown> | undefined => {
+	if (rule.type !== "rule") return undefined;
+	const activation = rule.activation ?? inferActivation(rule);
+	if (activation === "always") return { applyTo: "**" };
+	if (activation === "auto") return { applyTo: rule.globs };
+	if (activation === "agent") return { description: rule.description };
+	return undefined;
+};
+
+/** Windsurf rules: `trigger` (always_on, glob, model_decision, manual) plus `globs` or `description` */
+const windsurfFrontmatter = (rule: RuleFile): Record<string, unknown> | undefined => {
+	if (rule.type !== "rule") return undefined;
+	const activation = rule.activation ?? inferActivation(rule);
+	if (activation === "always") return { trigger: "always_on" };
+	if (activation === "auto") return { trigger: "glob", globs: rule.globs };
+	if (activation === "agent") return { trigger: "model_decision", description: rule.description };
+	return { trigger: "manual" };
+};
+
+/** A glob field that may be a string or a list, as comma-separated globs */
+const joinGlobs = (globs?: string | string[]): string | undefined =>
+	(Array.isArray(globs) ? globs.join(", ") : globs) || undefined;
+
+/** Cursor .mdc fields (also the fallback for sources that are not a tool, like the agents repo) */
+const cursorMetadata = (data: Record<string, unknown>): RuleMetadata => {
+	const fm = ruleFrontmatterSchema.safeParse(data);
+	if (!fm.success) return {};
+	return {
+		description: fm.data.description,
+		globs: joinGlobs(fm.data.globs),
+		alwaysApply: fm.data.alwaysApply,
+		priority: fm.data.priority,
+	};
+};
+
+/** Claude Code and Cline: `paths` → globs, which makes the rule auto-attached */
+const pathsMetadata = (data: Record<string, unknown>): RuleMetadata => {
+	const fm = pathsFrontmatterSchema.safeParse(data);
+	if (!fm.success) return cursorMetadata(data);
+	const paths = joinGlobs(fm.data.paths);
+	return paths ? { ...cursorMetadata(data), globs: paths, alwaysApply: false } : cursorMetadata(data);
+};
+
+/** Copilot: `applyTo: "**"` → always; other `applyTo` → globs; none → agent or manual by description */
+const copilotMetadata = (data: Record<string, unknown>): RuleMetadata => {
+	const fm = copilotFrontmatterSchema.safeParse(data);
+	if (!fm.success) return cursorMetadata(data);
+	const applyTo = joinGlobs(fm.data.applyTo);
+	if (applyTo === "**" || applyTo === "**/*") return { ...cursorMetadata(data), alwaysApply: true };
+	if (applyTo) return { ...cursorMetadata(data), globs: applyTo, alwaysApply: false };
+	return { ...cursorMetadata(data), alwaysApply: false };
+};
+
+/** Windsurf: `trigger` decides alwaysApply; `globs` and `description` carry over as they are */
+const windsurfMetadata = (data: Record<string, unknown>): RuleMetadata => {
+	const fm = windsurfFrontmatterSchema.safeParse(data);
+	if (!fm.success || !fm.data.trigger) return cursorMetadata(data);
+	return { ...cursorMetadata(data), alwaysApply: fm.data.trigger === "always_on" };
+};
+
+/** JetBrains: `apply` decides alwaysApply, `patterns` → globs, `instructions` → description */
+const jetbrainsMetadata = (data: Record<string, unknown>): RuleMetadata => {
+	const fm = jetbrainsFrontmatterSchema.safeParse(data);
+	if (!fm.success || !fm.data.apply) return cursorMetadata(data);
+	return {
+		...cursorMetadata(data),
+		description: fm.data.instructions ?? fm.data.description,
+		globs: joinGlobs(fm.data.patterns),
+		alwaysApply: fm.data.apply === "always",
+	};
+};
+
+/** JetBrains AI Assistant project rules: `apply` type, with `patterns` or `instructions` where it needs them */
+const jetbrainsFrontmatter = (rule: RuleFile): Record<string, unknown> | undefined => {
+	if (rule.type !== "rule") return undefined;
+	const activation = rule.activation ?? inferActivation(rule);
+	if (activation === "always") return { apply: "always" };
+	if (activation === "auto") return { apply: "by file patterns", patterns: rule.globs };
+	if (activation === "agent") return { apply: "by model decision", instructions: rule.description };
+	return { apply: "manually" };
+};
+
 /** Tool registry — config for all supported tools */
 export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 	cursor: {
@@ -38,6 +181,9 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [".cursorrules"],
 		extension: ".mdc",
 		hasFrontmatter: true,
+		tokenizer: "o200k",
+		serializeFrontmatter: cursorFrontmatter,
+		descriptionLimit: AGENT_SKILLS_DESCRIPTION_LIMIT,
 	},
 	claude: {
 		id: "claude",
@@ -46,6 +192,10 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: ["CLAUDE.md"],
 		extension: ".md",
 		hasFrontmatter: false,
+		tokenizer: "claude",
+		serializeFrontmatter: claudeFrontmatter,
+		parseFrontmatter: pathsMetadata,
+		descriptionLimit: AGENT_SKILLS_DESCRIPTION_LIMIT,
 	},
 	copilot: {
 		id: "copilot",
@@ -54,6 +204,9 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [".github/copilot-instructions.md"],
 		extension: ".instructions.md",
 		hasFrontmatter: false,
+		tokenizer: "o200k",
+		serializeFrontmatter: copilotFrontmatter,
+		parseFrontmatter: copilotMetadata,
 	},
 	windsurf: {
 		id: "windsurf",
@@ -62,6 +215,9 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [".windsurfrules"],
 		extension: ".md",
 		hasFrontmatter: false,
+		tokenizer: "o200k",
+		serializeFrontmatter: windsurfFrontmatter,
+		parseFrontmatter: windsurfMetadata,
 	},
 	cline: {
 		id: "cline",
@@ -70,6 +226,9 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [],
 		extension: ".md",
 		hasFrontmatter: false,
+		tokenizer: "claude",
+		serializeFrontmatter: pathsFrontmatter,
+		parseFrontmatter: pathsMetadata,
 	},
 	zed: {
 		id: "zed",
@@ -78,6 +237,7 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [".rules"],
 		extension: "",
 		hasFrontmatter: false,
+		tokenizer: "claude",
 	},
 	"jetbrains-ai": {
 		id: "jetbrains-ai",
@@ -86,6 +246,9 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [".junie/guidelines.md"],
 		extension: ".md",
 		hasFrontmatter: false,
+		tokenizer: "o200k",
+		serializeFrontmatter: jetbrainsFrontmatter,
+		parseFrontmatter: jetbrainsMetadata,
 	},
 	amazonq: {
 		id: "amazonq",
@@ -94,6 +257,7 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: [],
 		extension: ".md",
 		hasFrontmatter: false,
+		tokenizer: "claude",
 	},
 	gemini: {
 		id: "gemini",
@@ -102,6 +266,7 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: ["GEMINI.md"],
 		extension: ".md",
 		hasFrontmatter: false,
+		tokenizer: "gemini",
 	},
 	aider: {
 		id: "aider",
@@ -110,6 +275,7 @@ export const TOOL_REGISTRY: Record<ToolId, ToolConfig> = {
 		singleFiles: ["CONVENTIONS.md"],
 		extension: "",
 		hasFrontmatter: false,
+		tokenizer: "o200k",
 	},
 };
 
@@ -310,17 +476,19 @@ export interface PlaceholderReplacement {
  * Replace tool-specific values in content with {{PLACEHOLDER}} syntax.
  * Replaces longest values first to avoid partial matches.
  * Skips values shorter than 4 characters to avoid false positives (e.g. ".md").
+ * With variables, only those placeholders are restored.
  */
 export const replaceWithPlaceholders = (
 	content: string,
 	toolId: ToolId,
+	variables?: string[],
 ): { content: string; replacements: PlaceholderReplacement[] } => {
 	const vars = TOOL_VARIABLES[toolId];
 	if (!vars) return { content, replacements: [] };
 
 	// Build replacement pairs, sorted by value length (longest first)
 	const pairs = Object.entries(vars)
-		.filter(([, value]) => value.length >= 4)
+		.filter(([key, value]) => value.length >= 4 && (!variables || variables.includes(key)))
 		.sort(([, a], [, b]) => b.length - a.length);
 
 	const replacements: PlaceholderReplacement[] = [];
@@ -393,15 +561,61 @@ export const extractGlobAnnotation = (content: string): { content: string; globs
 
 const RE_GLOBS = /^> \[!globs\](?: (.+))?$/;
 const RE_ALWAYS_APPLY = /^> \[!alwaysApply]\s*(true|false)$/i;
+/** > [!activation] agent|manual: rule types that neither a glob callout nor its absence can express */
+const RE_ACTIVATION = /^> \[!activation]\s+(always|auto|agent|manual)$/i;
 /** Matches > [!type] skill|agent|command so decomposed sections restore to the right dirs */
 const RE_TYPE = /^> \[!type]\s+(skill|agent|command)$/i;
+/** > [!name] rule-file-name: the composed rule's file name, so decompose restores it */
+const RE_NAME = /^> \[!name]\s+(\S+)$/;
+/** > [!frontmatter] `{json}`: the composed rule's full frontmatter, in its original key order */
+const RE_FRONTMATTER = /^> \[!frontmatter]\s+(`+)\s?(.*?)\s?\1$/;
 const RE_PLAIN_BLOCKQUOTE = /^> ?(.*)$/;
 
+/** Parse the JSON of a > [!frontmatter] callout; undefined when it is not a JSON object */
+const parseFrontmatterJson = (json: string): Record<string, unknown> | undefined => {
+	try {
+		const data: unknown = JSON.parse(json);
+		return data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Encode frontmatter as a one-line `> [!frontmatter]` callout. The JSON sits in a code span
+ * (fenced with more backticks than it contains) so Prettier leaves it alone.
+ */
+export const formatFrontmatterCallout = (data: Record<string, unknown>): string => {
+	const json = JSON.stringify(data);
+	const longestRun = Math.max(0, ...(json.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = "`".repeat(longestRun + 1);
+	return longestRun > 0 ? `> [!frontmatter] ${fence} ${json} ${fence}` : `> [!frontmatter] ${fence}${json}${fence}`;
+};
+
+/**
+ * Cursor's rule type from frontmatter fields: alwaysApply true → always; globs → auto; otherwise,
+ * with alwaysApply false, a description → agent and none → manual. Without alwaysApply or globs
+ * the rule always applies, as plain markdown rules do.
+ */
+export const inferActivation = (fields: {
+	alwaysApply?: boolean;
+	globs?: string;
+	description?: string;
+}): RuleActivation => {
+	if (fields.alwaysApply === true) return "always";
+	if (fields.globs) return "auto";
+	if (fields.alwaysApply === undefined) return "always";
+	return fields.description ? "agent" : "manual";
+};
+
 /**
  * Extract inline section metadata from the start of content: plain blockquote (description),
- * > [!globs], > [!alwaysApply], and > [!type] skill|agent|command. Strips all consumed lines
- * and returns cleaned content. Used when decomposing a monolith so frontmatter and section
- * type (for skills/agents/commands dirs) are reliable.
+ * > [!globs], > [!alwaysApply], > [!activation], > [!type] skill|agent|command, > [!name] and > [!frontmatter].
+ * Strips all consumed lines and returns cleaned content. Used when decomposing a monolith so
+ * frontmatter, file names and section type (for skills/agents/commands dirs) are reliable.
+ * A > [!frontmatter] callout's description wins over a plain blockquote, and its globs over
+ * > [!globs] (whose patterns Prettier may have escaped as emphasis). Without an
+ * > [!activation] callout the activation is inferred from the other fields (see inferActivation).
  */
 export const extractSectionMetadata = (
 	content: string,
@@ -410,16 +624,25 @@ export const extractSectionMetadata = (
 	description?: string;
 	globs?: string;
 	alwaysApply: boolean;
+	activation: RuleActivation;
 	/** When present, section should be written to skills/agents/commands (from composed callout). */
 	type?: "skill" | "agent" | "command";
+	/** Rule file name from a composed > [!name] callout */
+	name?: string;
+	/** Full original frontmatter from a composed > [!frontmatter] callout */
+	frontmatter?: Record<string, unknown>;
 } => {
 	const lines = content.split("\n");
-	const startIdx = lines[0]?.trim().match(/^## /) ? 1 : 0;
+	// The section's own heading, at whatever level it was split on (none for marker sections without one)
+	const startIdx = lines[0]?.trim().match(/^#{1,6} /) ? 1 : 0;
 
 	const descriptionParts: string[] = [];
 	let globs: string | undefined;
 	let alwaysApply = true;
+	let activation: RuleActivation | undefined;
 	let sectionType: "skill" | "agent" | "command" | undefined;
+	let name: string | undefined;
+	let frontmatter: Record<string, unknown> | undefined;
 	let bodyStart = startIdx;
 
 	for (let i = startIdx; i < lines.length; i++) {
@@ -442,12 +665,30 @@ export const extractSectionMetadata = (
 			bodyStart = i + 1;
 			continue;
 		}
+		const activationMatch = trimmed.match(RE_ACTIVATION);
+		if (activationMatch) {
+			activation = activationMatch[1]!.toLowerCase() as RuleActivation;
+			bodyStart = i + 1;
+			continue;
+		}
 		const typeMatch = trimmed.match(RE_TYPE);
 		if (typeMatch) {
 			sectionType = typeMatch[1]!.toLowerCase() as "skill" | "agent" | "command";
 			bodyStart = i + 1;
 			continue;
 		}
+		const nameMatch = trimmed.match(RE_NAME);
+		if (nameMatch) {
+			name = nameMatch[1];
+			bodyStart = i + 1;
+			continue;
+		}
+		const frontmatterMatch = trimmed.match(RE_FRONTMATTER);
+		if (frontmatterMatch) {
+			frontmatter = parseFrontmatterJson(frontmatterMatch[2]!);
+			bodyStart = i + 1;
+			continue;
+		}
 		const quoteMatch = trimmed.match(RE_PLAIN_BLOCKQUOTE);
 		if (quoteMatch) {
 			descriptionParts.push(quoteMatch[1]!.trim());
@@ -459,13 +700,45 @@ export const extractSectionMetadata = (
 		break;
 	}
 
-	const description = descriptionParts.length > 0 ? descriptionParts.join(" ").trim().slice(0, 120) : undefined;
+	const quoted = descriptionParts.length > 0 ? descriptionParts.join(" ").trim() : undefined;
+	const description = typeof frontmatter?.["description"] === "string" ? frontmatter["description"] : quoted;
+	const frontmatterGlobs = frontmatter?.["globs"];
+	if (typeof frontmatterGlobs === "string" || Array.isArray(frontmatterGlobs)) {
+		globs = joinGlobs(frontmatterGlobs as string | string[]);
+	}
 
 	const prefix = startIdx > 0 ? lines.slice(0, startIdx).join("\n") : "";
 	const body = lines.slice(bodyStart).join("\n");
 	const cleaned = (prefix ? `${prefix}\n\n${body}` : body).replace(/\n{3,}/g, "\n\n").trim();
 
-	return { content: cleaned, description, globs, alwaysApply, type: sectionType };
+	if (activation) alwaysApply = activation === "always";
+
+	return {
+		content: cleaned,
+		description,
+		globs,
+		alwaysApply,
+		activation: activation ?? inferActivation({ alwaysApply, globs, description }),
+		type: sectionType,
+		name,
+		frontmatter,
+	};
+};
+
+/** A rule whose description is longer than its tool accepts */
+export interface LongDescription {
+	rule: RuleFile;
+	length: number;
+	limit: number;
+}
+
+/** Rules whose description exceeds the tool's descriptionLimit; none when the tool has no known limit */
+export const findLongDescriptions = (rules: RuleFile[], toolId: ToolId): LongDescription[] => {
+	const limit = TOOL_REGISTRY[toolId]?.descriptionLimit;
+	if (limit === undefined) return [];
+	return rules
+		.filter((rule) => rule.description.length > limit)
+		.map((rule) => ({ rule, length: rule.description.length, limit }));
 };
 
 /** Infer rule/skill/agent/command from file path (e.g. .../agents/foo.md → "agent"). */
@@ -478,7 +751,11 @@ export const inferRuleTypeFromPath = (filePath: string): "rule" | "skill" | "age
 	return "rule";
 };
 
-/** Parse any tool's rule file into a RuleFile */
+/**
+ * Parse any tool's rule file into a RuleFile. Frontmatter is read in every format and mapped to
+ * canonical metadata by the source tool's parseFrontmatter (Cursor's fields for other sources);
+ * without frontmatter, the description falls back to the first prose line.
+ */
 export const readRule = async (
 	filePath: string,
 	source: SourceId,
@@ -490,28 +767,19 @@ export const readRule = async (
 	// Skills are identified by their parent directory (e.g. skills/organize-commits/SKILL.md → "organize-commits"), not the filename "SKILL"
 	const name = type === "skill" ? basename(dirname(filePath)) : fileBaseName;
 
-	let body: string;
-	let description = "";
-	let globs: string | undefined;
-	let alwaysApply: boolean | undefined;
-
-	if (ext === ".mdc") {
-		const parsed = matter(quoteGlobs(rawContent));
-		body = parsed.content.trim();
-		const fm = ruleFrontmatterSchema.safeParse(parsed.data);
-		if (fm.success) {
-			if (fm.data.description) description = fm.data.description;
-			if (fm.data.globs) {
-				globs = Array.isArray(fm.data.globs) ? fm.data.globs.join(", ") : fm.data.globs;
-			}
-			if (fm.data.alwaysApply !== undefined) alwaysApply = fm.data.alwaysApply;
-		}
-	} else {
-		body = rawContent.trim();
+	const parsed = matter(quoteGlobs(rawContent));
+	const body = parsed.content.trim();
+	const hasFrontmatter = Object.keys(parsed.data).length > 0;
+	// agents-repo and bundled sources have no registry entry (undefined here), so they get Cursor's fields
+	const parseFrontmatter = TOOL_REGISTRY[source as ToolId]?.parseFrontmatter ?? cursorMetadata;
+	const { globs, alwaysApply, priority, ...metadata } = hasFrontmatter ? parseFrontmatter(parsed.data) : {};
+
+	let description = metadata.description ?? "";
+	if (!hasFrontmatter) {
 		// Try to extract description from first paragraph
 		const firstLine = body.split("\n").find((l) => l.trim() && !l.startsWith("#"));
 		if (firstLine) {
-			description = firstLine.trim().slice(0, 120);
+			description = firstLine.trim();
 		}
 	}
 
@@ -528,6 +796,8 @@ export const readRule = async (
 		hasPlaceholders,
 		globs,
 		alwaysApply,
+		activation: inferActivation({ alwaysApply, globs, description }),
+		priority,
 	};
 };
 
@@ -592,50 +862,47 @@ export const getOutputFilePathForRule = (
 	return join(targetDir, `${prefix}${rule.name}${ext}`);
 };
 
-/** Write rules/skills/agents/commands to canonical layout: rules in rulesDir, skills in layoutRoot/skills/<name>/SKILL.md, agents/commands in layoutRoot/agents|commands/<name>.md */
-export const writeAsDirectory = async (
+/** Render rules/skills/agents/commands to the canonical layout without touching disk (see writeAsDirectory). */
+export const renderAsDirectory = (
 	rules: RuleFile[],
 	dir: string,
 	toolId: ToolId,
 	options?: WriteDirectoryOptions,
-): Promise<void> => {
+): RenderedFile[] => {
 	const config = TOOL_REGISTRY[toolId];
-	if (!config) return;
-
-	const { layoutRoot, rulesDir } = getLayoutRootAndRulesDir(dir);
-	await mkdir(rulesDir, { recursive: true });
+	if (!config) return [];
 
+	const files: RenderedFile[] = [];
 	let ruleIndex = 0;
 	for (const rule of rules) {
-		let filePath: string;
-		let content: string;
-
-		if (config.hasFrontmatter) {
-			const parsed = matter(quoteGlobs(rule.rawContent));
-			content = ensureBlankLineAfterFrontmatter(unquoteGlobs(matter.stringify(rule.body, parsed.data)));
-		} else {
-			content = rule.body;
-		}
+		const frontmatter = config.serializeFrontmatter?.(rule);
+		const content = frontmatter
+			? ensureBlankLineAfterFrontmatter(unquoteGlobs(matter.stringify(rule.body, frontmatter)))
+			: rule.body;
+
+		if (rule.type === "rule") ruleIndex += 1;
+		files.push({
+			path: getOutputFilePathForRule(rule, dir, toolId, { numbered: options?.numbered, ruleIndex }),
+			content,
+		});
+	}
+	return files;
+};
 
-		if (rule.type === "skill") {
-			filePath = join(layoutRoot, "skills", rule.name, "SKILL.md");
-			await mkdir(dirname(filePath), { recursive: true });
-		} else if (rule.type === "agent") {
-			filePath = join(layoutRoot, "agents", `${rule.name}.md`);
-			await mkdir(dirname(filePath), { recursive: true });
-		} else if (rule.type === "command") {
-			filePath = join(layoutRoot, "commands", `${rule.name}.md`);
-			await mkdir(dirname(filePath), { recursive: true });
-		} else {
-			ruleIndex += 1;
-			const ext = config.extension || ".md";
-			const prefix = options?.numbered ? `${String(ruleIndex).padStart(2, "0")}-` : "";
-			const fileName = `${prefix}${rule.name}${ext}`;
-			const targetDir = rule.directory ? join(rulesDir, rule.directory) : rulesDir;
-			await mkdir(targetDir, { recursive: true });
-			filePath = join(targetDir, fileName);
-		}
+/** Write rules/skills/agents/commands to canonical layout: rules in rulesDir, skills in layoutRoot/skills/<name>/SKILL.md, agents/commands in layoutRoot/agents|commands/<name>.md */
+export const writeAsDirectory = async (
+	rules: RuleFile[],
+	dir: string,
+	toolId: ToolId,
+	options?: WriteDirectoryOptions,
+): Promise<void> => {
+	if (!TOOL_REGISTRY[toolId]) return;
+
+	const { rulesDir } = getLayoutRootAndRulesDir(dir);
+	await mkdir(rulesDir, { recursive: true });
 
-		await writeFile(filePath, content, "utf-8");
+	for (const file of renderAsDirectory(rules, dir, toolId, options)) {
+		await mkdir(dirname(file.path), { recursive: true });
+		await writeFile(file.path, file.content, "utf-8");
 	}
 };
@@ -0,0 +1,58 @@
+/**
+ * Minimal glob matching for rule selection flags (--include/--exclude).
+ * Supports `*` (within a segment), `**` (across segments), `?`, `[a-z]`/`[!x]` classes, and `{a,b}` alternatives.
+ */
+
+/** Convert a glob pattern to an anchored RegExp source (without ^/$). */
+const globToRegExpSource = (pattern: string): string => {
+	let out = "";
+	let inBraces = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i]!;
+		if (ch === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" matches zero or more directories; trailing "**" matches everything
+				const followedBySlash = pattern[i + 2] === "/";
+				out += followedBySlash ? "(?:.*/)?" : ".*";
+				i += followedBySlash ? 2 : 1;
+			} else {
+				out += "[^/]*";
+			}
+		} else if (ch === "?") {
+			out += "[^/]";
+		} else if (ch === "[" && pattern.indexOf("]", i + 2) !== -1) {
+			const end = pattern.indexOf("]", i + 2);
+			const body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+			out += body.startsWith("!") ? `[^/${body.slice(1)}]` : `[${body}]`;
+			i = end;
+		} else if (ch === "{") {
+			inBraces++;
+			out += "(?:";
+		} else if (ch === "}" && inBraces > 0) {
+			inBraces--;
+			out += ")";
+		} else if (ch === "," && inBraces > 0) {
+			out += "|";
+		} else {
+			out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return out;
+};
+
+/** Compile a glob to a RegExp. Patterns without a leading "/" may match at any path-segment boundary. */
+export const globToRegExp = (pattern: string): RegExp => {
+	const normalized = pattern.replace(/\\/g, "/");
+	if (normalized.startsWith("/")) {
+		return new RegExp(`^${globToRegExpSource(normalized.slice(1))}$`);
+	}
+	return new RegExp(`(?:^|/)${globToRegExpSource(normalized)}$`);
+};
+
+/** True if the path (or name) matches the glob. Backslashes in the path are normalized to "/". */
+export const matchesGlob = (path: string, pattern: string): boolean =>
+	globToRegExp(pattern).test(path.replace(/\\/g, "/").replace(/^\/+/, ""));
+
+/** True if the path matches any of the globs. */
+export const matchesAnyGlob = (path: string, patterns: readonly string[]): boolean =>
+	patterns.some((pattern) => matchesGlob(path, pattern));
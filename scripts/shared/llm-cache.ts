@@ -0,0 +1,66 @@
+/**
+ * On-disk cache of LLM responses, keyed by a hash of everything that determines the request:
+ * provider, endpoint, model, sampling settings and the full message list (which includes the
+ * system prompt file's contents and the input).
+ */
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { llmCacheEntrySchema, type LLMCacheEntry } from "./schemas.js";
+import type { LLMConfig, LLMMessage } from "./providers.js";
+
+/** Cache root: RULE_COMPOSER_CACHE_DIR, else $XDG_CACHE_HOME/rule-composer, else ~/.cache/rule-composer */
+export const getCacheDir = (env: NodeJS.ProcessEnv = process.env): string =>
+	env["RULE_COMPOSER_CACHE_DIR"] || join(env["XDG_CACHE_HOME"] || join(homedir(), ".cache"), "rule-composer");
+
+/** Directory holding one JSON file per cached response */
+const responsesDir = (cacheDir: string): string => join(cacheDir, "llm");
+
+/** sha256 of the request. The `cache` flag itself does not affect the response, so it is left out. */
+export const llmCacheKey = (messages: LLMMessage[], config: LLMConfig): string => {
+	const { cache: _cache, ...request } = config;
+	return createHash("sha256")
+		.update(JSON.stringify({ ...request, messages }))
+		.digest("hex");
+};
+
+/** Cached response content for key, or null on a miss (unreadable or malformed entries count as misses) */
+export const readCachedResponse = async (key: string, cacheDir: string = getCacheDir()): Promise<string | null> => {
+	try {
+		const raw = await readFile(join(responsesDir(cacheDir), `${key}.json`), "utf-8");
+		const parsed = llmCacheEntrySchema.safeParse(JSON.parse(raw));
+		return parsed.success ? parsed.data.content : null;
+	} catch {
+		return null;
+	}
+};
+
+/** Store a response. Failures are ignored: the cache is an optimization, never a reason to fail a run. */
+export const writeCachedResponse = async (
+	key: string,
+	model: string,
+	content: string,
+	cacheDir: string = getCacheDir(),
+): Promise<void> => {
+	const entry: LLMCacheEntry = { model, createdAt: new Date().toISOString(), content };
+	try {
+		await mkdir(responsesDir(cacheDir), { recursive: true });
+		await writeFile(join(responsesDir(cacheDir), `${key}.json`), JSON.stringify(entry, null, "\t"), "utf-8");
+	} catch {
+		// read-only home, full disk, ...
+	}
+};
+
+/** Number of cached responses */
+export const countCachedResponses = async (cacheDir: string = getCacheDir()): Promise<number> => {
+	const entries = await readdir(responsesDir(cacheDir)).catch(() => [] as string[]);
+	return entries.filter((name) => name.endsWith(".json")).length;
+};
+
+/** Delete every cached response. Returns how many were removed. */
+export const clearCache = async (cacheDir: string = getCacheDir()): Promise<number> => {
+	const count = await countCachedResponses(cacheDir);
+	await rm(responsesDir(cacheDir), { recursive: true, force: true });
+	return count;
+};
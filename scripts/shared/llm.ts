@@ -0,0 +1,250 @@
+import { readFile } from "node:fs/promises";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { optimizedOutputSchema } from "./schemas.js";
+import { splitH2Sections } from "./section-diff.js";
+import { llmCacheKey, readCachedResponse, writeCachedResponse } from "./llm-cache.js";
+import { LLM_PROVIDERS, resolveLLMConfig, type LLMConfig, type LLMMessage, type LLMResult } from "./providers.js";
+
+export type { LLMConfig, LLMMessage } from "./providers.js";
+
+/** Get the configured provider's API key from its environment variable */
+export const getApiKey = (config: LLMConfig = resolveLLMConfig()): string | null => {
+	return process.env[LLM_PROVIDERS[config.provider].apiKeyEnv] || null;
+};
+
+/**
+ * Resolve prompt .md files relative to the package root.
+ * Works both in dev (tsx) and published (dist/) contexts.
+ */
+export const resolvePromptPath = (relPath: string): string => {
+	const __dirname = dirname(fileURLToPath(import.meta.url));
+	// Try dev path first: scripts/shared/ -> scripts/<relPath>
+	const devPath = resolve(__dirname, "..", relPath);
+	// Published path: dist/ -> scripts/<relPath>
+	const _publishedPath = resolve(__dirname, "..", "scripts", relPath);
+
+	// Return dev path by default (more common during development)
+	return devPath;
+};
+
+/**
+ * Low-level LLM API call. Sends messages to the configured provider and returns
+ * the raw message content string. No domain-specific validation.
+ * Identical requests are answered from the on-disk cache unless config.cache is false.
+ * With accept (the caller's validation), only accepted responses are cached, and a cached
+ * response it rejects counts as a miss, so a bad reply is never replayed.
+ */
+export const callLLM = async (
+	messages: LLMMessage[],
+	apiKey: string | null,
+	config: LLMConfig = resolveLLMConfig(),
+	accept: (content: string) => boolean = () => true,
+): Promise<LLMResult> => {
+	const key = config.cache ? llmCacheKey(messages, config) : null;
+	if (key) {
+		const cached = await readCachedResponse(key);
+		if (cached !== null && accept(cached)) return { content: cached, cached: true };
+	}
+
+	const result = await LLM_PROVIDERS[config.provider].complete(messages, config, apiKey);
+	if (key && result.content && accept(result.content)) {
+		await writeCachedResponse(key, config.model, result.content);
+	}
+	return result;
+};
+
+/**
+ * Call the configured LLM for rule optimization (compose flow).
+ * Reads a system prompt from a file, sends it with the content,
+ * and validates the output as markdown.
+ */
+export const optimize = async (
+	content: string,
+	apiKey: string | null,
+	promptPath: string,
+	config?: LLMConfig,
+): Promise<{ optimized: string | null; error?: string }> => {
+	let systemPrompt: string;
+	try {
+		systemPrompt = await readFile(promptPath, "utf-8");
+	} catch {
+		return {
+			optimized: null,
+			error: `Failed to read prompt file: ${promptPath}`,
+		};
+	}
+
+	const result = await callLLM(
+		[
+			{ role: "system", content: systemPrompt },
+			{ role: "user", content },
+		],
+		apiKey,
+		config,
+		(output) => optimizedOutputSchema.safeParse(output).success,
+	);
+
+	if (!result.content) {
+		return { optimized: null, error: result.error };
+	}
+
+	// Validate the optimized output as markdown
+	const validated = optimizedOutputSchema.safeParse(result.content);
+	if (!validated.success) {
+		return {
+			optimized: null,
+			error: `Optimized output validation failed: ${validated.error.message}`,
+		};
+	}
+
+	return { optimized: validated.data };
+};
+
+/** Maximum number of section chunks optimized at the same time */
+export const OPTIMIZE_CONCURRENCY = 4;
+
+/** Callouts that decompose relies on; they must come back byte-for-byte */
+const PROTECTED_CALLOUTS = ["globs", "activation", "type", "name", "frontmatter"] as const;
+
+const PROTECTED_CALLOUT = new RegExp(`^> \\[!(${PROTECTED_CALLOUTS.join("|")})\\]`);
+
+/** The protected callouts as "`> [!globs]`, …", for the chunk prompt and validation errors */
+const PROTECTED_CALLOUT_LIST = PROTECTED_CALLOUTS.map((name) => `\`> [!${name}]\``).join(", ");
+
+/** Outcome of optimizing one H2 section. optimized equals original when the chunk was skipped or failed. */
+export interface ChunkResult {
+	/** H2 text without "## ", or null for the preamble */
+	heading: string | null;
+	original: string;
+	optimized: string;
+	/** Set when the LLM call or chunk validation failed */
+	error?: string;
+	/** true when the response came from the on-disk cache */
+	cached?: boolean;
+}
+
+/**
+ * Split a section into the lines the optimizer must not touch — the heading and the callouts
+ * directly under it — and the body it may rewrite.
+ */
+export const splitSectionHead = (content: string): { head: string; body: string } => {
+	const lines = content.split("\n");
+	let end = 0;
+	if (lines[0]?.startsWith("#")) end = 1;
+	while (end < lines.length && (lines[end]!.trim() === "" || PROTECTED_CALLOUT.test(lines[end]!))) end++;
+	// Keep trailing blank lines of the head out of it so reassembly controls spacing
+	const head = lines.slice(0, end).join("\n").replace(/\s+$/, "");
+	return { head, body: lines.slice(end).join("\n").trim() };
+};
+
+/** Run fn over items with at most `limit` calls in flight, preserving result order */
+const mapWithConcurrency = async <T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+	const results = new Array<R>(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const i = next++;
+			results[i] = await fn(items[i]!, i);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+	return results;
+};
+
+/** Validate an optimized chunk body against its original. Returns the cleaned body or an error. */
+const validateChunk = (
+	output: string,
+	original: { head: string; body: string },
+): { body: string } | { error: string } => {
+	let body = output.trim();
+	// Models sometimes echo the heading they were told to leave out
+	const headingLine = original.head.split("\n")[0];
+	if (headingLine?.startsWith("#") && body.startsWith(headingLine)) body = body.slice(headingLine.length).trim();
+
+	if (!body) return { error: "Empty chunk output" };
+	if (body.includes("```json")) return { error: "Chunk output should be markdown, not JSON" };
+	if (splitH2Sections(body).some((s) => s.heading !== null)) {
+		return { error: "Chunk output added an H2 heading" };
+	}
+	const callouts = (text: string) => text.split("\n").filter((line) => PROTECTED_CALLOUT.test(line));
+	if (callouts(original.body).join("\n") !== callouts(body).join("\n")) {
+		return { error: `Chunk output changed a protected callout (${PROTECTED_CALLOUT_LIST})` };
+	}
+	return { body };
+};
+
+/**
+ * Optimize a composed document section by section: split on H2 headings, send each section body
+ * (without its heading and callouts) to the LLM with bounded concurrency, and reassemble. Failed
+ * chunks keep their original text. Returns null only when every chunk failed.
+ */
+export const optimizeChunked = async (
+	content: string,
+	apiKey: string | null,
+	promptPath: string,
+	config: LLMConfig = resolveLLMConfig(),
+	options: { concurrency?: number; onProgress?: (done: number, total: number) => void } = {},
+): Promise<{ optimized: string | null; chunks: ChunkResult[]; error?: string }> => {
+	let systemPrompt: string;
+	try {
+		systemPrompt = await readFile(promptPath, "utf-8");
+	} catch {
+		return { optimized: null, chunks: [], error: `Failed to read prompt file: ${promptPath}` };
+	}
+
+	const sections = splitH2Sections(content);
+	let done = 0;
+	const chunks = await mapWithConcurrency(
+		sections,
+		options.concurrency ?? OPTIMIZE_CONCURRENCY,
+		async (section): Promise<ChunkResult> => {
+			const parts = splitSectionHead(section.content);
+			const unchanged = { heading: section.heading, original: section.content, optimized: section.content };
+			if (!parts.body) {
+				options.onProgress?.(++done, sections.length);
+				return unchanged;
+			}
+
+			const where =
+				section.heading === null ? "the preamble before the first H2" : `the section "${section.heading}"`;
+			const result = await callLLM(
+				[
+					{ role: "system", content: systemPrompt },
+					{
+						role: "system",
+						content:
+							`You are optimizing one chunk of a larger document: the body of ${where}. ` +
+							"Return only the optimized body. Do not repeat the heading, do not add H2 headings, " +
+							`and keep every ${PROTECTED_CALLOUT_LIST} line verbatim.`,
+					},
+					{ role: "user", content: parts.body },
+				],
+				apiKey,
+				config,
+				(output) => !("error" in validateChunk(output, parts)),
+			);
+			options.onProgress?.(++done, sections.length);
+
+			if (!result.content) return { ...unchanged, error: result.error ?? "Empty response from API" };
+			const validated = validateChunk(result.content, parts);
+			if ("error" in validated) return { ...unchanged, error: validated.error };
+			return {
+				...unchanged,
+				optimized: parts.head ? `${parts.head}\n\n${validated.body}` : validated.body,
+				...(result.cached ? { cached: true } : {}),
+			};
+		},
+	);
+
+	const attempted = sections.filter((s) => splitSectionHead(s.content).body).length;
+	const failed = chunks.filter((c) => c.error);
+	if (attempted > 0 && failed.length === attempted) {
+		return { optimized: null, chunks, error: failed[0]!.error };
+	}
+	return { optimized: `${chunks.map((c) => c.optimized).join("\n\n")}\n`, chunks };
+};
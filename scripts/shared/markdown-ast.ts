@@ -0,0 +1,64 @@
+/**
+ * Block-level markdown structure from a real parser (mdast via mdast-util-from-markdown), so
+ * heading-like lines inside fenced code, HTML blocks or YAML front matter are never mistaken for
+ * headings. Callers get line numbers and edit the source text themselves, so everything outside
+ * the lines they touch is preserved byte for byte.
+ */
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { frontmatterFromMarkdown } from "mdast-util-frontmatter";
+import { frontmatter } from "micromark-extension-frontmatter";
+import type { Root, RootContent } from "mdast";
+
+/** A top-level block of the document */
+export interface MarkdownBlock {
+	type: RootContent["type"];
+	/** Heading depth (1–6); only for ATX headings */
+	depth?: number;
+	/** 0-based line range in the source, end inclusive */
+	startLine: number;
+	endLine: number;
+	/** Raw HTML for `html` blocks */
+	html?: string;
+}
+
+/** Parse markdown (with optional YAML front matter) into an mdast tree */
+export const parseMarkdown = (markdown: string): Root =>
+	fromMarkdown(markdown, {
+		extensions: [frontmatter(["yaml"])],
+		mdastExtensions: [frontmatterFromMarkdown(["yaml"])],
+	});
+
+/**
+ * Top-level blocks with their line ranges. Only ATX (`## Title`) headings report a depth; setext
+ * headings (underlined with === or ---) are treated as ordinary blocks, like the line-based
+ * parser they replace. Headings nested in lists or blockquotes are not top-level.
+ */
+export const markdownBlocks = (markdown: string): MarkdownBlock[] => {
+	const lines = markdown.split("\n");
+	return parseMarkdown(markdown).children.flatMap((node): MarkdownBlock[] => {
+		if (!node.position) return [];
+		const startLine = node.position.start.line - 1;
+		const block: MarkdownBlock = { type: node.type, startLine, endLine: node.position.end.line - 1 };
+		if (node.type === "heading" && /^ {0,3}#/.test(lines[startLine] ?? "")) block.depth = node.depth;
+		if (node.type === "html") block.html = node.value;
+		return [block];
+	});
+};
+
+/** 0-based line numbers of top-level ATX headings, optionally only those of one depth */
+export const headingLines = (markdown: string, depth?: number): number[] =>
+	markdownBlocks(markdown)
+		.filter((block) => block.depth !== undefined && (depth === undefined || block.depth === depth))
+		.map((block) => block.startLine);
+
+/** Heading text without the leading #s (e.g. "## 1. Approach" → "1. Approach") */
+export const headingText = (line: string): string => line.replace(/^ {0,3}#{1,6}(?:[ \t]+|$)/, "");
+
+/** Rewrite the given lines in place; every other line is returned untouched */
+export const mapLines = (markdown: string, lineNumbers: number[], fn: (line: string) => string): string => {
+	const targets = new Set(lineNumbers);
+	return markdown
+		.split("\n")
+		.map((line, i) => (targets.has(i) ? fn(line) : line))
+		.join("\n");
+};
@@ -0,0 +1,248 @@
+import { anthropicResponseSchema, llmSettingsSchema, openRouterResponseSchema, type LLMSettings } from "./schemas.js";
+import type { LLMProviderId } from "./types.js";
+
+/** Message format for the LLM API */
+export interface LLMMessage {
+	role: "system" | "user" | "assistant";
+	content: string;
+}
+
+/** Raw completion result. content is null on failure, with error set. */
+export interface LLMResult {
+	content: string | null;
+	error?: string;
+	/** true when served from the on-disk cache instead of the provider */
+	cached?: boolean;
+}
+
+/** Fully resolved settings for one LLM call */
+export type LLMConfig = Required<LLMSettings>;
+
+/** An LLM backend: defaults plus a single completion call */
+export interface LLMProvider {
+	id: LLMProviderId;
+	name: string;
+	defaultModel: string;
+	defaultBaseUrl: string;
+	/** Environment variable holding the API key */
+	apiKeyEnv: string;
+	/** false for providers that also front local servers (Ollama, llama.cpp) which take no key */
+	requiresApiKey: boolean;
+	complete: (messages: LLMMessage[], config: LLMConfig, apiKey: string | null) => Promise<LLMResult>;
+}
+
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+/** POST JSON and return the parsed body, or an error string for non-2xx responses and network failures */
+const postJson = async (
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+): Promise<{ json: unknown } | { error: string }> => {
+	try {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...headers },
+			body: JSON.stringify(body),
+		});
+		if (!response.ok) {
+			const text = await response.text();
+			return { error: `API error ${response.status}: ${text}` };
+		}
+		return { json: await response.json() };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		return { error: `API call failed: ${message}` };
+	}
+};
+
+/** OpenAI chat completions call, shared by OpenRouter and OpenAI-compatible servers */
+const completeChat = async (
+	messages: LLMMessage[],
+	config: LLMConfig,
+	headers: Record<string, string>,
+): Promise<LLMResult> => {
+	const result = await postJson(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, headers, {
+		model: config.model,
+		messages,
+		temperature: config.temperature,
+		max_tokens: config.maxOutputTokens,
+	});
+	if ("error" in result) return { content: null, error: result.error };
+
+	const parsed = openRouterResponseSchema.safeParse(result.json);
+	if (!parsed.success) {
+		return { content: null, error: `Invalid API response: ${parsed.error.message}` };
+	}
+
+	const messageContent = parsed.data.choices[0]?.message.content;
+	if (!messageContent) {
+		return { content: null, error: "Empty response from API" };
+	}
+	return { content: messageContent };
+};
+
+/**
+ * Messages API conversation: no system role, no empty turns, strictly alternating roles
+ * (consecutive turns of the same role are joined).
+ */
+export const toAnthropicMessages = (messages: LLMMessage[]): LLMMessage[] => {
+	const turns: LLMMessage[] = [];
+	for (const message of messages) {
+		if (message.role === "system" || !message.content.trim()) continue;
+		const last = turns[turns.length - 1];
+		if (last?.role === message.role) {
+			last.content = `${last.content}\n\n${message.content}`;
+		} else {
+			turns.push({ ...message });
+		}
+	}
+	return turns;
+};
+
+/** Anthropic Messages API call. System messages move to the top-level `system` field. */
+const completeAnthropic = async (
+	messages: LLMMessage[],
+	config: LLMConfig,
+	apiKey: string | null,
+): Promise<LLMResult> => {
+	const system = messages
+		.filter((m) => m.role === "system")
+		.map((m) => m.content)
+		.join("\n\n");
+	const result = await postJson(
+		`${config.baseUrl.replace(/\/+$/, "")}/messages`,
+		{ "x-api-key": apiKey ?? "", "anthropic-version": "2023-06-01" },
+		{
+			model: config.model,
+			...(system ? { system } : {}),
+			messages: toAnthropicMessages(messages),
+			temperature: config.temperature,
+			max_tokens: config.maxOutputTokens,
+		},
+	);
+	if ("error" in result) return { content: null, error: result.error };
+
+	const parsed = anthropicResponseSchema.safeParse(result.json);
+	if (!parsed.success) {
+		return { content: null, error: `Invalid API response: ${parsed.error.message}` };
+	}
+
+	const text = parsed.data.content
+		.filter((block) => block.type === "text")
+		.map((block) => block.text ?? "")
+		.join("");
+	if (!text) {
+		return { content: null, error: "Empty response from API" };
+	}
+	return { content: text };
+};
+
+/** Registry of LLM providers */
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+	openrouter: {
+		id: "openrouter",
+		name: "OpenRouter",
+		defaultModel: "anthropic/claude-sonnet-4",
+		defaultBaseUrl: "https://openrouter.ai/api/v1",
+		apiKeyEnv: "OPENROUTER_API_KEY",
+		requiresApiKey: true,
+		complete: (messages, config, apiKey) =>
+			completeChat(messages, config, {
+				Authorization: `Bearer ${apiKey ?? ""}`,
+				"HTTP-Referer": "https://github.com/mia-cx/agents",
+				"X-Title": "rule-composer",
+			}),
+	},
+	"openai-compatible": {
+		id: "openai-compatible",
+		name: "OpenAI-compatible",
+		defaultModel: "gpt-4o",
+		defaultBaseUrl: "https://api.openai.com/v1",
+		apiKeyEnv: "OPENAI_API_KEY",
+		requiresApiKey: false,
+		complete: (messages, config, apiKey) =>
+			completeChat(messages, config, apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+	},
+	anthropic: {
+		id: "anthropic",
+		name: "Anthropic",
+		defaultModel: "claude-sonnet-4-20250514",
+		defaultBaseUrl: "https://api.anthropic.com/v1",
+		apiKeyEnv: "ANTHROPIC_API_KEY",
+		requiresApiKey: true,
+		complete: completeAnthropic,
+	},
+};
+
+/** Parse a numeric env var; throws on garbage so typos don't silently fall back to defaults */
+const envNumber = (env: NodeJS.ProcessEnv, name: string): number | undefined => {
+	const raw = env[name];
+	if (raw === undefined || raw === "") return undefined;
+	const value = Number(raw);
+	if (Number.isNaN(value)) throw new Error(`${name} must be a number, got "${raw}"`);
+	return value;
+};
+
+/** Validate LLM settings, dropping undefined fields. Throws with every zod issue listed. */
+const validateSettings = (settings: Record<string, unknown>, source: string): LLMSettings => {
+	const parsed = llmSettingsSchema.safeParse(
+		Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)),
+	);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+		throw new Error(`Invalid ${source}: ${issues.join("; ")}`);
+	}
+	return parsed.data;
+};
+
+/** Parse a boolean env var ("1"/"true"/"0"/"false"); throws on anything else */
+const envBoolean = (env: NodeJS.ProcessEnv, name: string): boolean | undefined => {
+	const raw = env[name]?.toLowerCase();
+	if (raw === undefined || raw === "") return undefined;
+	if (raw === "1" || raw === "true") return true;
+	if (raw === "0" || raw === "false") return false;
+	throw new Error(`${name} must be true/false or 1/0, got "${env[name]}"`);
+};
+
+/** Read LLM settings from RULE_COMPOSER_* environment variables */
+export const llmSettingsFromEnv = (env: NodeJS.ProcessEnv = process.env): LLMSettings => {
+	return validateSettings(
+		{
+			provider: env["RULE_COMPOSER_PROVIDER"] || undefined,
+			model: env["RULE_COMPOSER_MODEL"] || undefined,
+			baseUrl: env["RULE_COMPOSER_BASE_URL"] || undefined,
+			temperature: envNumber(env, "RULE_COMPOSER_TEMPERATURE"),
+			maxOutputTokens: envNumber(env, "RULE_COMPOSER_MAX_OUTPUT_TOKENS"),
+			cache: envBoolean(env, "RULE_COMPOSER_CACHE"),
+		},
+		"RULE_COMPOSER_* environment",
+	);
+};
+
+/**
+ * Resolve LLM settings field by field: flags, then RULE_COMPOSER_* env vars, then the manifest's
+ * `llm` section, then the provider's defaults (model, base URL) and global defaults.
+ */
+export const resolveLLMConfig = (
+	flags: LLMSettings = {},
+	config: LLMSettings = {},
+	env: NodeJS.ProcessEnv = process.env,
+): LLMConfig => {
+	const fromFlags = validateSettings(flags, "LLM flags");
+	const fromEnv = llmSettingsFromEnv(env);
+	const pick = <K extends keyof LLMSettings>(key: K): LLMSettings[K] => fromFlags[key] ?? fromEnv[key] ?? config[key];
+
+	const provider = pick("provider") ?? "openrouter";
+	const defaults = LLM_PROVIDERS[provider];
+
+	return {
+		provider,
+		model: pick("model") ?? defaults.defaultModel,
+		baseUrl: pick("baseUrl") ?? defaults.defaultBaseUrl,
+		temperature: pick("temperature") ?? DEFAULT_TEMPERATURE,
+		maxOutputTokens: pick("maxOutputTokens") ?? DEFAULT_MAX_OUTPUT_TOKENS,
+		cache: pick("cache") ?? true,
+	};
+};
@@ -10,7 +10,7 @@ const RULE_EXTENSIONS = new Set([".mdc", ".md"]);
 const SKILL_FILENAME = "SKILL.md";
 
 /** Extract leading numeric prefix from rule name (e.g. "01-approach" → 1, "99-foo" → 99). No prefix → 0. */
-const numericPrefix = (name: string): number => {
+export const numericPrefix = (name: string): number => {
 	const m = /^(\d+)-/.exec(name);
 	return m ? parseInt(m[1]!, 10) : 0;
 };
@@ -1,6 +1,7 @@
 import { z } from "zod";
+import { LLM_PROVIDER_IDS, OVER_BUDGET_MODES, TOKENIZER_IDS, TOOL_IDS } from "./types.js";
 
-/** OpenRouter API response structure */
+/** OpenRouter API response structure (the OpenAI chat completions format, also used by OpenAI-compatible servers) */
 export const openRouterResponseSchema = z.object({
 	id: z.string(),
 	choices: z.array(
@@ -22,6 +23,74 @@ export const openRouterResponseSchema = z.object({
 
 export type OpenRouterResponse = z.infer<typeof openRouterResponseSchema>;
 
+/** Anthropic Messages API response structure (only the fields we read) */
+export const anthropicResponseSchema = z.object({
+	id: z.string(),
+	content: z.array(z.object({ type: z.string(), text: z.string().optional() })),
+	stop_reason: z.string().nullable(),
+});
+
+export type AnthropicResponse = z.infer<typeof anthropicResponseSchema>;
+
+/** LLM provider settings (manifest `llm`, flags, RULE_COMPOSER_* env vars) */
+export const llmSettingsSchema = z
+	.object({
+		provider: z.enum(LLM_PROVIDER_IDS),
+		model: z.string().min(1),
+		baseUrl: z.string().url(),
+		temperature: z.number().min(0).max(2),
+		maxOutputTokens: z.number().int().positive(),
+		/** Reuse responses from the on-disk LLM cache (default true) */
+		cache: z.boolean(),
+	})
+	.partial()
+	.strict();
+
+export type LLMSettings = z.infer<typeof llmSettingsSchema>;
+
+/** One cached LLM response on disk */
+export const llmCacheEntrySchema = z.object({
+	model: z.string(),
+	createdAt: z.string(),
+	content: z.string(),
+});
+
+export type LLMCacheEntry = z.infer<typeof llmCacheEntrySchema>;
+
+/** One repo/global pair in sync-lock.json: the sha256 of each file by relative path */
+export const syncLockPairSchema = z.object({ files: z.record(z.string()) });
+
+/** manifest.json of one sync backup: the destinations snapshotted before a push/pull */
+export const syncBackupManifestSchema = z.object({
+	createdAt: z.string(),
+	/** Sync direction that was about to run (push or pull) */
+	operation: z.string(),
+	targets: z.array(
+		z.object({
+			/** Absolute destination directory */
+			path: z.string(),
+			/** False when the directory did not exist yet; undo then removes it */
+			existed: z.boolean(),
+			/** Files snapshotted, relative to path */
+			files: z.array(z.string()),
+		}),
+	),
+	/** Cursor User Rules before a --cursor-db push (content null: key was missing) */
+	cursorDb: z.object({ path: z.string(), content: z.string().nullable() }).optional(),
+	/** sync-lock.json entries of the synced pairs before the sync (null: pair had none), by lock key */
+	lock: z.record(syncLockPairSchema.nullable()).optional(),
+});
+
+export type SyncBackupManifest = z.infer<typeof syncBackupManifestSchema>;
+
+/** sync-lock.json: per repo/global directory pair, the sha256 of each file as of the last sync */
+export const syncLockSchema = z.object({
+	version: z.literal(1),
+	pairs: z.record(syncLockPairSchema),
+});
+
+export type SyncLock = z.infer<typeof syncLockSchema>;
+
 /** Validates that LLM-optimized output is sane markdown */
 export const optimizedOutputSchema = z
 	.string()
@@ -34,10 +103,31 @@ export const ruleFrontmatterSchema = z.object({
 	description: z.string().optional(),
 	alwaysApply: z.boolean().optional(),
 	globs: z.union([z.string(), z.array(z.string())]).optional(),
+	priority: z.number().optional(),
 });
 
 export type RuleFrontmatter = z.infer<typeof ruleFrontmatterSchema>;
 
+const globsField = z.union([z.string(), z.array(z.string())]).optional();
+
+/** Claude Code `.claude/rules/` and Cline `.clinerules/` frontmatter: `paths` scopes a rule to matching files */
+export const pathsFrontmatterSchema = ruleFrontmatterSchema.extend({ paths: globsField });
+
+/** Copilot `.instructions.md` frontmatter */
+export const copilotFrontmatterSchema = ruleFrontmatterSchema.extend({ applyTo: globsField });
+
+/** Windsurf rule frontmatter */
+export const windsurfFrontmatterSchema = ruleFrontmatterSchema.extend({
+	trigger: z.enum(["always_on", "glob", "model_decision", "manual"]).optional(),
+});
+
+/** JetBrains AI Assistant project rule frontmatter */
+export const jetbrainsFrontmatterSchema = ruleFrontmatterSchema.extend({
+	apply: z.enum(["always", "by file patterns", "by model decision", "manually"]).optional(),
+	patterns: globsField,
+	instructions: z.string().optional(),
+});
+
 /** Decompose LLM response schema — metadata-only (no content) */
 export const decomposeResponseSchema = z.array(
 	z.object({
@@ -52,3 +142,53 @@ export const decomposeResponseSchema = z.array(
 );
 
 export type DecomposeResponse = z.infer<typeof decomposeResponseSchema>;
+
+/** One compose profile in rule-composer.config — every field optional, mirroring the compose CLI flags */
+export const composeProfileSchema = z
+	.object({
+		/** Directories to scan (canonical rules/, skills/, agents/, commands/ layout), relative to the manifest */
+		sources: z.array(z.string()).optional(),
+		/** Globs over rule names and paths */
+		include: z.array(z.string()).optional(),
+		exclude: z.array(z.string()).optional(),
+		/** Restrict to these kinds of files */
+		types: z.array(z.enum(["rule", "skill", "agent", "command"])).optional(),
+		/** Section order as rule names or 1-based positions */
+		order: z.array(z.string()).optional(),
+		tool: z.enum(TOOL_IDS).optional(),
+		/** ComposeOptions passed to compose() */
+		options: z
+			.object({
+				numbered: z.boolean().optional(),
+				incrementHeadings: z.boolean().optional(),
+				embedGlobs: z.boolean().optional(),
+				embedFrontmatter: z.boolean().optional(),
+				resolveLinks: z.boolean().optional(),
+			})
+			.strict()
+			.optional(),
+		optimize: z.boolean().optional(),
+		/** Token budget for the composed document */
+		maxTokens: z.number().int().positive().optional(),
+		/** What to do when maxTokens is exceeded (default: fail) */
+		overBudget: z.enum(OVER_BUDGET_MODES).optional(),
+		/** Token counter for summaries and the budget (default: the target tool's) */
+		tokenizer: z.enum(TOKENIZER_IDS).optional(),
+		/** Output target specs: file path, directory ending with "/", or dir:<toolId> */
+		targets: z.array(z.string()).optional(),
+	})
+	.strict();
+
+export type ComposeProfile = z.infer<typeof composeProfileSchema>;
+
+/** rule-composer.config manifest: top-level defaults plus optional named profiles that override them */
+export const composeManifestSchema = composeProfileSchema
+	.extend({
+		profiles: z
+			.record(z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "Invalid profile name"), composeProfileSchema)
+			.optional(),
+		llm: llmSettingsSchema.optional(),
+	})
+	.strict();
+
+export type ComposeManifest = z.infer<typeof composeManifestSchema>;
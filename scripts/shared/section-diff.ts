@@ -0,0 +1,118 @@
+/**
+ * H2-section alignment between an original and an optimized document, so optimization
+ * can be reviewed and accepted per section.
+ */
+import { diffSequences } from "./diff.js";
+
+/** A run of lines starting at an H2 (or the preamble before the first H2) */
+export interface MarkdownSection {
+	/** H2 text without "## ", or null for the preamble */
+	heading: string | null;
+	/** Section text including its heading line, without trailing blank lines */
+	content: string;
+}
+
+/** One aligned section pair. original/optimized is null when the section only exists on one side. */
+export interface SectionChange {
+	heading: string | null;
+	original: string | null;
+	optimized: string | null;
+	changed: boolean;
+}
+
+/**
+ * Split markdown at H2 headings, losslessly apart from trailing blank lines per section.
+ * `## ` lines inside fenced code blocks are not headings. An empty preamble is omitted.
+ */
+export const splitH2Sections = (markdown: string): MarkdownSection[] => {
+	const sections: MarkdownSection[] = [];
+	let heading: string | null = null;
+	let lines: string[] = [];
+	let fence: string | null = null;
+
+	const flush = () => {
+		const content = lines.join("\n").replace(/\s+$/, "");
+		if (heading !== null || content) sections.push({ heading, content });
+	};
+
+	for (const line of markdown.split("\n")) {
+		const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			const marker = fenceMatch[1]!;
+			if (!fence) fence = marker;
+			else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+		}
+
+		const h2 = !fence && line.match(/^## (.+)$/);
+		if (h2) {
+			flush();
+			heading = h2[1]!.trim();
+			lines = [line];
+		} else {
+			lines.push(line);
+		}
+	}
+	flush();
+	return sections;
+};
+
+/** Key used to pair sections across versions: heading text without numbering prefix, case-insensitive */
+const sectionKey = (heading: string | null): string =>
+	heading === null
+		? "\0preamble"
+		: heading
+				.replace(/^\d+(\.\d+)*\.?\s+/, "")
+				.trim()
+				.toLowerCase();
+
+/**
+ * Align the H2 sections of two documents by heading. A removed section directly followed by an
+ * added one is treated as the same section rewritten (e.g. a renamed heading).
+ */
+export const diffSections = (original: string, optimized: string): SectionChange[] => {
+	const before = splitH2Sections(original);
+	const after = splitH2Sections(optimized);
+	const ops = diffSequences(
+		before.map((s, i) => ({ key: sectionKey(s.heading), i })),
+		after.map((s, i) => ({ key: sectionKey(s.heading), i })),
+		(x, y) => x.key === y.key,
+	);
+
+	// diffSequences returns values from `a` for equal ops; walk both sides with cursors
+	const changes: SectionChange[] = [];
+	let ai = 0;
+	let bi = 0;
+	for (let k = 0; k < ops.length; k++) {
+		const op = ops[k]!;
+		const next = ops[k + 1];
+		if (op.type === "equal" || (op.type === "remove" && next?.type === "add")) {
+			const a = before[ai++]!;
+			const b = after[bi++]!;
+			if (op.type !== "equal") k++;
+			changes.push({
+				heading: b.heading ?? a.heading,
+				original: a.content,
+				optimized: b.content,
+				changed: a.content !== b.content,
+			});
+		} else if (op.type === "remove") {
+			const a = before[ai++]!;
+			changes.push({ heading: a.heading, original: a.content, optimized: null, changed: true });
+		} else {
+			const b = after[bi++]!;
+			changes.push({ heading: b.heading, original: null, optimized: b.content, changed: true });
+		}
+	}
+	return changes;
+};
+
+/**
+ * Rebuild the document from aligned sections: the optimized version of accepted sections
+ * (indices into changes), the original of the rest. Sections missing on the chosen side are dropped.
+ */
+export const mergeSections = (changes: SectionChange[], accepted: ReadonlySet<number>): string => {
+	const parts = changes
+		.map((change, i) => (accepted.has(i) ? change.optimized : change.original))
+		.filter((content): content is string => !!content);
+	return `${parts.join("\n\n")}\n`;
+};
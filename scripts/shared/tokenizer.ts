@@ -0,0 +1,58 @@
+/**
+ * Token counters per target model family. o200k_base and cl100k_base are the exact OpenAI
+ * encodings (gpt-tokenizer); Claude and Gemini tokenizers are not public, so they are
+ * approximated by scaling an OpenAI count.
+ */
+import { countTokens as countO200k } from "gpt-tokenizer";
+import { countTokens as countCl100k } from "gpt-tokenizer/encoding/cl100k_base";
+import { TOKENIZER_IDS, type TokenizerId, type ToolId } from "./types.js";
+import { TOOL_REGISTRY } from "./formats.js";
+
+export interface Tokenizer {
+	id: TokenizerId;
+	/** Human-readable name for summaries */
+	name: string;
+	/** false for approximations; their counts are shown with "~" */
+	exact: boolean;
+	count: (text: string) => number;
+}
+
+/**
+ * Scale factors for the approximations. Claude's tokenizer produces noticeably more tokens than
+ * cl100k on English markdown and code; Gemini's SentencePiece vocabulary lands close to o200k.
+ * Treat results as estimates (roughly ±10%).
+ */
+const CLAUDE_PER_CL100K = 1.15;
+const GEMINI_PER_O200K = 1.05;
+
+export const TOKENIZERS: Record<TokenizerId, Tokenizer> = {
+	o200k: { id: "o200k", name: "o200k_base (GPT-4o and newer)", exact: true, count: (text) => countO200k(text) },
+	cl100k: { id: "cl100k", name: "cl100k_base (GPT-4, GPT-3.5)", exact: true, count: (text) => countCl100k(text) },
+	claude: {
+		id: "claude",
+		name: "Claude (approximation)",
+		exact: false,
+		count: (text) => Math.ceil(countCl100k(text) * CLAUDE_PER_CL100K),
+	},
+	gemini: {
+		id: "gemini",
+		name: "Gemini (approximation)",
+		exact: false,
+		count: (text) => Math.ceil(countO200k(text) * GEMINI_PER_O200K),
+	},
+};
+
+/** Tokenizer for an explicit --tokenizer value, else the target tool's default (o200k when unknown) */
+export const resolveTokenizer = (id?: string, toolId?: ToolId): Tokenizer => {
+	if (id) {
+		if (!TOKENIZER_IDS.includes(id as TokenizerId)) {
+			throw new Error(`Unknown tokenizer: ${id} (use ${TOKENIZER_IDS.join(", ")})`);
+		}
+		return TOKENIZERS[id as TokenizerId];
+	}
+	return TOKENIZERS[(toolId && TOOL_REGISTRY[toolId]?.tokenizer) || "o200k"];
+};
+
+/** "1234" for exact counters, "~1234" for approximations */
+export const formatTokenCount = (count: number, tokenizer: Tokenizer): string =>
+	tokenizer.exact ? String(count) : `~${count}`;
@@ -16,6 +16,15 @@ const S_COLLAPSE = color.dim("▾");
 
 const S_BAR_H = "─";
 
+/** Longest hint shown next to a rule; descriptions themselves are never truncated */
+const HINT_MAX_LENGTH = 120;
+
+/** Shorten a description for display as a one-line hint (whitespace collapsed, "…" when cut) */
+export const truncateHint = (text: string, max = HINT_MAX_LENGTH): string => {
+	const line = text.replace(/\s+/g, " ").trim();
+	return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+};
+
 /** Find the longest common directory prefix among a set of absolute paths */
 const commonPrefix = (paths: string[]): string => {
 	if (paths.length === 0) return "";
@@ -44,7 +53,7 @@ const insertRule = (children: TreeNode[], segments: string[], rule: RuleFile): v
 		children.push({
 			id: rule.path,
 			label: rule.name,
-			hint: rule.description || undefined,
+			hint: rule.description ? truncateHint(rule.description) : undefined,
 			isDirectory: false,
 			expanded: false,
 			selected: true,
@@ -14,9 +14,46 @@ export const TOOL_IDS = [
 
 export type ToolId = (typeof TOOL_IDS)[number];
 
+/** Supported LLM providers for optimization and AI-assisted decomposition */
+export const LLM_PROVIDER_IDS = ["openrouter", "openai-compatible", "anthropic"] as const;
+
+export type LLMProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+/** Token counters: exact OpenAI BPE encodings plus calibrated approximations for Claude and Gemini */
+export const TOKENIZER_IDS = ["o200k", "cl100k", "claude", "gemini"] as const;
+
+export type TokenizerId = (typeof TOKENIZER_IDS)[number];
+
+/** What compose does when the document exceeds --max-tokens: fail, warn, or drop lowest-priority rules */
+export const OVER_BUDGET_MODES = ["fail", "warn", "drop"] as const;
+
+export type OverBudgetMode = (typeof OVER_BUDGET_MODES)[number];
+
+/** How decompose finds rule boundaries: H2 headings (offline) or LLM-proposed groupings */
+export const DECOMPOSE_STRATEGIES = ["headings", "ai"] as const;
+
+export type DecomposeStrategy = (typeof DECOMPOSE_STRATEGIES)[number];
+
+/**
+ * How a rule is attached, after Cursor's four rule types: always on, auto-attached to files matching
+ * its globs, agent-requested (the agent reads the description and decides), or manual (@-mention only)
+ */
+export const RULE_ACTIVATIONS = ["always", "auto", "agent", "manual"] as const;
+
+export type RuleActivation = (typeof RULE_ACTIVATIONS)[number];
+
 /** Special source identifiers: agents repo (local) or bundled package rules */
 export type SourceId = ToolId | "agents-repo" | "bundled";
 
+/** Rule metadata in canonical (Cursor) terms, as read from any tool's frontmatter */
+export interface RuleMetadata {
+	description?: string;
+	/** Comma-separated glob patterns */
+	globs?: string;
+	alwaysApply?: boolean;
+	priority?: number;
+}
+
 /** Configuration for a supported tool */
 export interface ToolConfig {
 	id: ToolId;
@@ -29,6 +66,17 @@ export interface ToolConfig {
 	extension: string;
 	/** Whether the tool uses YAML frontmatter */
 	hasFrontmatter: boolean;
+	/** Default token counter, matching the models the tool usually runs */
+	tokenizer: TokenizerId;
+	/**
+	 * The tool's native frontmatter for a rule written by writeAsDirectory, built from its canonical
+	 * metadata (activation, globs, description). Undefined, or no serializer, writes the body alone.
+	 */
+	serializeFrontmatter?: (rule: RuleFile) => Record<string, unknown> | undefined;
+	/** Reverse of serializeFrontmatter: the tool's native fields read back as canonical metadata (default: Cursor's fields) */
+	parseFrontmatter?: (data: Record<string, unknown>) => RuleMetadata;
+	/** Longest `description` the tool is known to accept (skills, agents, agent-requested rules); longer ones get a warning */
+	descriptionLimit?: number;
 }
 
 /** A discovered rule file */
@@ -55,11 +103,29 @@ export interface RuleFile {
 	globs?: string;
 	/** Whether the rule applies globally (true) or is scoped (false) */
 	alwaysApply?: boolean;
+	/** Rule type derived from alwaysApply, globs and description (see inferActivation); readRule always sets it */
+	activation?: RuleActivation;
+	/** Frontmatter `priority`; lower is more important, like filename prefixes (used by --over-budget drop) */
+	priority?: number;
 }
 
 /** Output target for writing composed rules */
 export type OutputTarget = { kind: "single-file"; path: string } | { kind: "directory"; dir: string; tool: ToolId };
 
+/** A file produced by a render step: absolute or cwd-relative path plus its full content */
+export interface RenderedFile {
+	path: string;
+	content: string;
+}
+
+/** Files compose produced for one output target (label: the target's file path or directory) */
+export interface ComposedTarget {
+	label: string;
+	files: RenderedFile[];
+	/** Tokenizer compose counted this target with (the target tool's, or --tokenizer) */
+	tokenizer?: TokenizerId;
+}
+
 /** Discovered source with its rules */
 export interface DiscoveredSource {
 	id: SourceId;
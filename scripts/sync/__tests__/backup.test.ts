@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { backupFileCount, createBackup, getStateDir, listBackups, removeBackup, restoreBackup } from "../backup.js";
+import { syncDir } from "../sync-dir.js";
+
+const base = join(tmpdir(), "arc-test-backup");
+const stateDir = join(base, "state");
+const src = join(base, "src");
+const dest = join(base, "dest");
+
+const write = async (path: string, content: string) => {
+	await mkdir(join(path, ".."), { recursive: true });
+	await writeFile(path, content, "utf-8");
+};
+
+describe("getStateDir", () => {
+	it("prefers RULE_COMPOSER_STATE_DIR, then XDG_STATE_HOME", () => {
+		expect(getStateDir({ RULE_COMPOSER_STATE_DIR: "/tmp/rc", XDG_STATE_HOME: "/xdg" })).toBe("/tmp/rc");
+		expect(getStateDir({ XDG_STATE_HOME: "/xdg" })).toBe(join("/xdg", "rule-composer"));
+		expect(getStateDir({})).toMatch(/[/\\]\.local[/\\]state[/\\]rule-composer$/);
+	});
+});
+
+describe("sync backups", () => {
+	beforeEach(async () => {
+		await rm(base, { recursive: true, force: true });
+		await mkdir(base, { recursive: true });
+	});
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("restores overwritten, deleted and added files to the snapshot", async () => {
+		await write(join(dest, "keep.md"), "old");
+		await write(join(dest, "sub", "stale.md"), "stale");
+		await write(join(src, "keep.md"), "new");
+		await write(join(src, "added.md"), "added");
+
+		const backup = await createBackup("pull", [dest], {}, stateDir);
+		expect(backupFileCount(backup)).toBe(2);
+		await syncDir(src, dest, { deleteStale: true });
+		expect((await readdir(dest)).sort()).toEqual(["added.md", "keep.md"]);
+
+		await restoreBackup(backup);
+		expect((await readdir(dest)).sort()).toEqual(["keep.md", "sub"]);
+		expect(await readFile(join(dest, "keep.md"), "utf-8")).toBe("old");
+		expect(await readFile(join(dest, "sub", "stale.md"), "utf-8")).toBe("stale");
+	});
+
+	it("removes a destination that did not exist before the sync", async () => {
+		const backup = await createBackup("push", [dest], {}, stateDir);
+		expect(backup.targets).toEqual([{ path: dest, existed: false, files: [] }]);
+		await write(join(dest, "a.md"), "a");
+
+		await restoreBackup(backup);
+		await expect(readdir(dest)).rejects.toThrow();
+	});
+
+	it("lists valid backups newest first and forgets removed ones", async () => {
+		await write(join(dest, "a.md"), "a");
+		const first = await createBackup("push", [dest], {}, stateDir);
+		const second = await createBackup(
+			"pull",
+			[dest],
+			{ cursorDb: { path: "/tmp/state.vscdb", content: null } },
+			stateDir,
+		);
+		await write(join(stateDir, "backups", "not-a-backup", "notes.txt"), "x");
+
+		const backups = await listBackups(stateDir);
+		expect(backups.map((b) => [b.id, b.operation, backupFileCount(b)])).toEqual([
+			[second.id, "pull", 2],
+			[first.id, "push", 1],
+		]);
+
+		await removeBackup(second);
+		expect((await listBackups(stateDir)).map((b) => b.id)).toEqual([first.id]);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { diffDirs } from "../dir-diff.js";
+
+const base = join(tmpdir(), "arc-test-dir-diff");
+const from = join(base, "from");
+const to = join(base, "to");
+
+const write = async (path: string, content: string | Buffer) => {
+	await mkdir(join(path, ".."), { recursive: true });
+	await writeFile(path, content);
+};
+
+describe("diffDirs", () => {
+	beforeEach(async () => {
+		await rm(base, { recursive: true, force: true });
+		await mkdir(base, { recursive: true });
+	});
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("sorts files into added, removed, modified and identical by relative path", async () => {
+		await write(join(from, "same.md"), "# Same\n");
+		await write(join(to, "same.md"), "# Same\n");
+		await write(join(from, "sub", "changed.md"), "# Changed\n\nOld.\n");
+		await write(join(to, "sub", "changed.md"), "# Changed\n\nNew.\n");
+		await write(join(from, "gone.md"), "# Gone\n");
+		await write(join(to, "nested", "new.md"), "# New\n");
+
+		const result = await diffDirs(from, to);
+		expect(result.added).toEqual(["nested/new.md"]);
+		expect(result.removed).toEqual(["gone.md"]);
+		expect(result.identical).toEqual(["same.md"]);
+		expect(result.modified.map((m) => m.path)).toEqual(["sub/changed.md"]);
+		expect(result.modified[0]!.diff).toContain("--- a/sub/changed.md\n+++ b/sub/changed.md");
+		expect(result.modified[0]!.diff).toContain("-Old.");
+		expect(result.modified[0]!.diff).toContain("+New.");
+	});
+
+	it("treats a missing directory as empty and uses the given header labels", async () => {
+		await write(join(to, "a.md"), "# A\n");
+		expect(await diffDirs(from, to)).toEqual({ added: ["a.md"], removed: [], modified: [], identical: [] });
+
+		await write(join(from, "a.md"), "# A2\n");
+		const { modified } = await diffDirs(from, to, { fromLabel: "global", toLabel: "repo" });
+		expect(modified[0]!.diff).toContain("--- global/a.md\n+++ repo/a.md");
+	});
+
+	it("notes binary and newline-only changes instead of a line diff", async () => {
+		await write(join(from, "image.png"), Buffer.from([0x89, 0x00, 0x01]));
+		await write(join(to, "image.png"), Buffer.from([0x89, 0x00, 0x02]));
+		await write(join(from, "eol.md"), "# Eol\n");
+		await write(join(to, "eol.md"), "# Eol");
+
+		const { modified } = await diffDirs(from, to);
+		expect(modified.map((m) => [m.path, m.diff.split("\n")[2]])).toEqual([
+			["eol.md", "(trailing newline differs)"],
+			["image.png", "(binary files differ)"],
+		]);
+	});
+});
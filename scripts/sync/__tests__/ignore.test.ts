@@ -0,0 +1,66 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createIgnoreMatcher, loadSyncIgnore, parseIgnoreRules } from "../ignore.js";
+
+const matcher = (content: string) => createIgnoreMatcher(parseIgnoreRules(content));
+
+describe("parseIgnoreRules", () => {
+	it("skips blank lines and comments and reads negation and directory-only flags", () => {
+		const rules = parseIgnoreRules("# junk\n\n.DS_Store\n!keep.md\ndrafts/\n");
+		expect(rules.map(({ negate, dirOnly }) => ({ negate, dirOnly }))).toEqual([
+			{ negate: false, dirOnly: false },
+			{ negate: true, dirOnly: false },
+			{ negate: false, dirOnly: true },
+		]);
+	});
+});
+
+describe("createIgnoreMatcher", () => {
+	it("matches a pattern without a slash at any depth", () => {
+		const ignored = matcher(".DS_Store\n*.swp");
+		expect(ignored(".DS_Store", false)).toBe(true);
+		expect(ignored("skills/x/.DS_Store", false)).toBe(true);
+		expect(ignored("rules/a.md.swp", false)).toBe(true);
+		expect(ignored("rules/a.md", false)).toBe(false);
+	});
+
+	it("anchors a pattern with an inner slash to the root", () => {
+		const ignored = matcher("rules/local-*.md");
+		expect(ignored("rules/local-notes.md", false)).toBe(true);
+		expect(ignored("skills/rules/local-notes.md", false)).toBe(false);
+	});
+
+	it("lets the last matching rule win and re-includes with !", () => {
+		const ignored = matcher("*.md\n!keep.md");
+		expect(ignored("a.md", false)).toBe(true);
+		expect(ignored("keep.md", false)).toBe(false);
+	});
+
+	it("applies directory-only rules to directories and everything under them", () => {
+		const ignored = matcher("drafts/\n!drafts/keep.md");
+		expect(ignored("drafts", true)).toBe(true);
+		expect(ignored("drafts", false)).toBe(false);
+		expect(ignored("drafts/a.md", false)).toBe(true);
+		expect(ignored("drafts/keep.md", false)).toBe(true);
+	});
+});
+
+describe("loadSyncIgnore", () => {
+	const base = join(tmpdir(), "arc-test-ignore");
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("combines both sides' ignore files with --exclude patterns and always ignores the ignore file", async () => {
+		await mkdir(join(base, "repo"), { recursive: true });
+		await writeFile(join(base, "repo", ".rulesyncignore"), "*.draft.md\n", "utf-8");
+		const ignored = await loadSyncIgnore([join(base, "repo"), join(base, "missing")], ["scratch/"]);
+		expect(ignored("a.draft.md", false)).toBe(true);
+		expect(ignored("scratch/x.md", false)).toBe(true);
+		expect(ignored(".rulesyncignore", false)).toBe(true);
+		expect(ignored("sub/.rulesyncignore", false)).toBe(false);
+		expect(ignored("a.md", false)).toBe(false);
+	});
+});
@@ -1,8 +1,21 @@
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import {
+	chmod,
+	lstat,
+	mkdir,
+	readFile,
+	readdir,
+	readlink,
+	rm,
+	stat,
+	symlink,
+	utimes,
+	writeFile,
+} from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { syncDir } from "../sync-dir.js";
+import { createIgnoreMatcher, parseIgnoreRules } from "../ignore.js";
+import { applySyncPlan, hashContent, hashFiles, planSync, syncDir } from "../sync-dir.js";
 
 const base = join(tmpdir(), "arc-test-sync-dir");
 
@@ -79,4 +92,243 @@ describe("syncDir", () => {
 
 		await expect(readdir(dest)).rejects.toThrow();
 	});
+
+	it("neither copies nor deletes ignored paths", async () => {
+		const src = join(base, "ignore-src");
+		const dest = join(base, "ignore-dest");
+		await mkdir(join(src, "drafts"), { recursive: true });
+		await mkdir(join(dest, "local", "notes"), { recursive: true });
+		await writeFile(join(src, "a.md"), "a", "utf-8");
+		await writeFile(join(src, ".DS_Store"), "x", "utf-8");
+		await writeFile(join(src, "drafts", "wip.md"), "wip", "utf-8");
+		await writeFile(join(dest, "local", "notes", "mine.md"), "mine", "utf-8");
+		await writeFile(join(dest, "local", "stale.md"), "stale", "utf-8");
+		const ignore = createIgnoreMatcher(parseIgnoreRules(".DS_Store\ndrafts/\nmine.md"));
+
+		const summary = await syncDir(src, dest, { deleteStale: true, ignore });
+
+		expect(summary).toEqual({ copied: 1, skipped: 0, deleted: 1 });
+		expect((await readdir(dest)).sort()).toEqual(["a.md", "local"]);
+		expect(await readdir(join(dest, "local"))).toEqual(["notes"]);
+		expect(await readFile(join(dest, "local", "notes", "mine.md"), "utf-8")).toBe("mine");
+	});
+});
+
+describe("planSync", () => {
+	beforeAll(async () => {
+		await mkdir(base, { recursive: true });
+	});
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("classifies every path as create, overwrite, delete or unchanged without writing", async () => {
+		const src = join(base, "plan-src");
+		const dest = join(base, "plan-dest");
+		await mkdir(join(src, "sub"), { recursive: true });
+		await mkdir(join(dest, "old-dir"), { recursive: true });
+		await writeFile(join(src, "new.txt"), "new", "utf-8");
+		await writeFile(join(src, "same.txt"), "same", "utf-8");
+		await writeFile(join(src, "sub", "changed.txt"), "v2", "utf-8");
+		await writeFile(join(dest, "same.txt"), "same", "utf-8");
+		await mkdir(join(dest, "sub"), { recursive: true });
+		await writeFile(join(dest, "sub", "changed.txt"), "v1", "utf-8");
+		await writeFile(join(dest, "stale.txt"), "stale", "utf-8");
+		await writeFile(join(dest, "old-dir", "f.txt"), "x", "utf-8");
+
+		const plan = await planSync(src, dest, { deleteStale: true });
+		expect(plan).toEqual([
+			{ path: "new.txt", action: "create" },
+			{ path: "old-dir/", action: "delete" },
+			{ path: "old-dir/f.txt", action: "delete" },
+			{ path: "same.txt", action: "unchanged" },
+			{ path: "stale.txt", action: "delete" },
+			{ path: "sub/changed.txt", action: "overwrite" },
+		]);
+		expect(await readdir(dest)).toHaveLength(4);
+
+		const withoutDelete = await planSync(src, dest, { deleteStale: false });
+		expect(withoutDelete.some((entry) => entry.action === "delete")).toBe(false);
+
+		await syncDir(src, dest, { deleteStale: true });
+		expect((await planSync(src, dest, { deleteStale: true })).map((entry) => entry.action)).toEqual([
+			"unchanged",
+			"unchanged",
+			"unchanged",
+		]);
+	});
+
+	it("plans nothing when source does not exist", async () => {
+		expect(
+			await planSync(join(base, "plan-missing"), join(base, "plan-missing-dest"), { deleteStale: true }),
+		).toEqual([]);
+	});
+});
+
+describe("three-way planSync", () => {
+	const src = join(base, "three-src");
+	const dest = join(base, "three-dest");
+	const hash = (content: string) => hashContent(Buffer.from(content));
+
+	beforeAll(async () => {
+		await rm(src, { recursive: true, force: true });
+		await rm(dest, { recursive: true, force: true });
+		await mkdir(src, { recursive: true });
+		await mkdir(dest, { recursive: true });
+		// Last sync left base.txt, src-edit.txt, dest-edit.txt, both.txt and gone.txt identical on both sides
+		const files: Record<string, [string | undefined, string | undefined]> = {
+			"base.txt": ["base", "base"],
+			"src-edit.txt": ["new", "base"],
+			"dest-edit.txt": ["base", "theirs"],
+			"both.txt": ["ours\nshared\n", "theirs\nshared\n"],
+			"gone.txt": [undefined, "base"],
+			"dest-only.txt": [undefined, "extra"],
+		};
+		for (const [name, [ours, theirs]] of Object.entries(files)) {
+			if (ours !== undefined) await writeFile(join(src, name), ours, "utf-8");
+			if (theirs !== undefined) await writeFile(join(dest, name), theirs, "utf-8");
+		}
+	});
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	const base3 = () =>
+		Object.fromEntries(
+			["base.txt", "src-edit.txt", "dest-edit.txt", "both.txt", "gone.txt"].map((n) => [n, hash("base")]),
+		);
+
+	it("copies source-only changes, keeps dest-only changes and flags two-sided changes", async () => {
+		expect(await planSync(src, dest, { deleteStale: false, base: base3() })).toEqual([
+			{ path: "base.txt", action: "unchanged" },
+			{ path: "both.txt", action: "conflict" },
+			{ path: "dest-edit.txt", action: "keep" },
+			{ path: "dest-only.txt", action: "keep" },
+			{ path: "gone.txt", action: "keep" },
+			{ path: "src-edit.txt", action: "overwrite" },
+		]);
+		const withDelete = await planSync(src, dest, { deleteStale: true, base: base3() });
+		expect(withDelete.filter((entry) => entry.action === "delete").map((entry) => entry.path)).toEqual([
+			"dest-only.txt",
+			"gone.txt",
+		]);
+	});
+
+	it("applies resolved conflicts to both sides and leaves kept files alone", async () => {
+		const plan = await planSync(src, dest, { deleteStale: false, base: base3() });
+		plan.find((entry) => entry.path === "both.txt")!.resolution = "merge";
+		await applySyncPlan(src, dest, plan, { labels: { source: "repo", dest: "global" } });
+
+		const merged = "<<<<<<< repo\nours\n=======\ntheirs\n>>>>>>> global\nshared\n";
+		expect(await readFile(join(src, "both.txt"), "utf-8")).toBe(merged);
+		expect(await readFile(join(dest, "both.txt"), "utf-8")).toBe(merged);
+		expect(await readFile(join(dest, "src-edit.txt"), "utf-8")).toBe("new");
+		expect(await readFile(join(dest, "dest-edit.txt"), "utf-8")).toBe("theirs");
+		expect(await readFile(join(src, "dest-edit.txt"), "utf-8")).toBe("base");
+
+		await writeFile(join(src, "both.txt"), "ours\n", "utf-8");
+		await applySyncPlan(src, dest, [{ path: "both.txt", action: "conflict", resolution: "dest" }]);
+		expect(await readFile(join(src, "both.txt"), "utf-8")).toBe(merged);
+	});
+
+	it("compares links by target in copy mode and leaves dangling links out when following", async () => {
+		const linkSrc = join(base, "links-src");
+		const linkDest = join(base, "links-dest");
+		await mkdir(linkSrc, { recursive: true });
+		await mkdir(linkDest, { recursive: true });
+		await symlink("missing-a.md", join(linkSrc, "dangling.md"));
+		await symlink("missing-b.md", join(linkDest, "dangling.md"));
+		await writeFile(join(linkSrc, "target.md"), "target", "utf-8");
+		await symlink("target.md", join(linkSrc, "link.md"));
+		await writeFile(join(linkDest, "link.md"), "target", "utf-8");
+
+		expect([...(await hashFiles(linkSrc, "copy")).keys()].sort()).toEqual(["dangling.md", "link.md", "target.md"]);
+		expect(await planSync(linkSrc, linkDest, { deleteStale: false, base: {}, symlinks: "copy" })).toEqual([
+			{ path: "dangling.md", action: "conflict" },
+			{ path: "link.md", action: "conflict" },
+			{ path: "target.md", action: "create" },
+		]);
+		expect(await planSync(linkSrc, linkDest, { deleteStale: false, base: {} })).toEqual([
+			{ path: "link.md", action: "unchanged" },
+			{ path: "target.md", action: "create" },
+		]);
+	});
+});
+
+describe("syncDir writes", () => {
+	const src = join(base, "writes-src");
+	const dest = join(base, "writes-dest");
+
+	beforeEach(async () => {
+		await rm(src, { recursive: true, force: true });
+		await rm(dest, { recursive: true, force: true });
+		await mkdir(src, { recursive: true });
+	});
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("leaves unchanged files untouched and reports copied/skipped/deleted counts", async () => {
+		await writeFile(join(src, "same.txt"), "same", "utf-8");
+		await writeFile(join(src, "changed.txt"), "v2", "utf-8");
+		await mkdir(dest, { recursive: true });
+		await writeFile(join(dest, "same.txt"), "same", "utf-8");
+		await writeFile(join(dest, "changed.txt"), "v1", "utf-8");
+		await writeFile(join(dest, "stale.txt"), "stale", "utf-8");
+		const past = new Date("2020-01-01T00:00:00Z");
+		await utimes(join(dest, "same.txt"), past, past);
+
+		expect(await syncDir(src, dest, { deleteStale: true })).toEqual({ copied: 1, skipped: 1, deleted: 1 });
+		expect((await stat(join(dest, "same.txt"))).mtime).toEqual(past);
+		expect(await readFile(join(dest, "changed.txt"), "utf-8")).toBe("v2");
+	});
+
+	it("keeps file modes and treats a mode change as a change", async () => {
+		await writeFile(join(src, "run.sh"), "echo hi", "utf-8");
+		await chmod(join(src, "run.sh"), 0o755);
+		await syncDir(src, dest, { deleteStale: false });
+		expect((await stat(join(dest, "run.sh"))).mode & 0o777).toBe(0o755);
+
+		await chmod(join(src, "run.sh"), 0o700);
+		expect(await planSync(src, dest, { deleteStale: false })).toEqual([{ path: "run.sh", action: "overwrite" }]);
+		await syncDir(src, dest, { deleteStale: false });
+		expect((await stat(join(dest, "run.sh"))).mode & 0o777).toBe(0o700);
+	});
+
+	it("copies a mode-only change when a base from the last sync exists", async () => {
+		await writeFile(join(src, "run.sh"), "echo hi", "utf-8");
+		await chmod(join(src, "run.sh"), 0o644);
+		await syncDir(src, dest, { deleteStale: false });
+		const lock = { "run.sh": hashContent(Buffer.from("echo hi")) };
+
+		await chmod(join(src, "run.sh"), 0o755);
+		expect(await planSync(src, dest, { deleteStale: false, base: lock })).toEqual([
+			{ path: "run.sh", action: "overwrite" },
+		]);
+		await syncDir(src, dest, { deleteStale: false, base: lock });
+		expect((await stat(join(dest, "run.sh"))).mode & 0o777).toBe(0o755);
+		expect(await planSync(src, dest, { deleteStale: false, base: lock })).toEqual([
+			{ path: "run.sh", action: "unchanged" },
+		]);
+	});
+
+	it("follows, copies or skips symlinks", async () => {
+		await writeFile(join(src, "target.md"), "target", "utf-8");
+		await symlink("target.md", join(src, "link.md"));
+
+		await syncDir(src, dest, { deleteStale: false });
+		expect((await lstat(join(dest, "link.md"))).isSymbolicLink()).toBe(false);
+		expect(await readFile(join(dest, "link.md"), "utf-8")).toBe("target");
+
+		await syncDir(src, dest, { deleteStale: false, symlinks: "copy" });
+		expect(await readlink(join(dest, "link.md"))).toBe("target.md");
+		expect(await planSync(src, dest, { deleteStale: false, symlinks: "copy" })).toEqual([
+			{ path: "link.md", action: "unchanged" },
+			{ path: "target.md", action: "unchanged" },
+		]);
+
+		await rm(dest, { recursive: true, force: true });
+		await syncDir(src, dest, { deleteStale: false, symlinks: "skip" });
+		expect(await readdir(dest)).toEqual(["target.md"]);
+	});
 });
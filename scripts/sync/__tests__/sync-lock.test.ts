@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdir, rm, symlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createBackup, listBackups } from "../backup.js";
+import { createIgnoreMatcher, parseIgnoreRules } from "../ignore.js";
+import { hashContent } from "../sync-dir.js";
+import { lockEntryAfterSync, readSyncLock, restoreSyncLock, syncLockKey, writeSyncLock } from "../sync-lock.js";
+
+const base = join(tmpdir(), "arc-test-sync-lock");
+const repo = join(base, "repo");
+const global = join(base, "global");
+const hash = (content: string) => hashContent(Buffer.from(content));
+
+describe("sync lock", () => {
+	beforeEach(async () => {
+		await rm(base, { recursive: true, force: true });
+		await mkdir(join(repo, "sub"), { recursive: true });
+		await mkdir(global, { recursive: true });
+	});
+	afterAll(async () => {
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("records files identical on both sides and keeps the old base for files that still differ", async () => {
+		await writeFile(join(repo, "sub", "same.md"), "same", "utf-8");
+		await mkdir(join(global, "sub"), { recursive: true });
+		await writeFile(join(global, "sub", "same.md"), "same", "utf-8");
+		await writeFile(join(repo, "kept.md"), "repo", "utf-8");
+		await writeFile(join(global, "kept.md"), "global", "utf-8");
+		await writeFile(join(repo, "new.md"), "new", "utf-8");
+
+		const previous = { "kept.md": hash("old"), "deleted.md": hash("gone") };
+		expect(await lockEntryAfterSync(repo, global, previous)).toEqual({
+			"kept.md": hash("old"),
+			"sub/same.md": hash("same"),
+		});
+	});
+
+	it("hashes links the way they were synced and leaves ignored files out", async () => {
+		await symlink("missing.md", join(repo, "dangling.md"));
+		await symlink("missing.md", join(global, "dangling.md"));
+		await writeFile(join(repo, ".DS_Store"), "x", "utf-8");
+		await writeFile(join(global, ".DS_Store"), "x", "utf-8");
+		const ignore = createIgnoreMatcher(parseIgnoreRules(".DS_Store"));
+
+		expect(await lockEntryAfterSync(repo, global, {}, { symlinks: "copy", ignore })).toEqual({
+			"dangling.md": hash("symlink:missing.md"),
+		});
+		expect(await lockEntryAfterSync(repo, global, {}, { ignore })).toEqual({});
+	});
+
+	it("reads an empty lock when missing or invalid and round-trips what it writes", async () => {
+		const stateDir = join(base, "state");
+		expect(await readSyncLock(stateDir)).toEqual({ version: 1, pairs: {} });
+
+		await mkdir(stateDir, { recursive: true });
+		await writeFile(join(stateDir, "sync-lock.json"), "{ not json", "utf-8");
+		expect(await readSyncLock(stateDir)).toEqual({ version: 1, pairs: {} });
+
+		const lock = { version: 1 as const, pairs: { [syncLockKey(repo, global)]: { files: { "a.md": hash("a") } } } };
+		await writeSyncLock(lock, stateDir);
+		expect(await readSyncLock(stateDir)).toEqual(lock);
+	});
+
+	it("puts back the lock entries a backup recorded, dropping pairs that had none", async () => {
+		const stateDir = join(base, "state");
+		const pushed = syncLockKey(repo, global);
+		const added = syncLockKey(join(repo, "sub"), join(global, "sub"));
+		const other = syncLockKey("/other/repo", "/other/global");
+		const before = { files: { "a.md": hash("v1") } };
+		const backup = await createBackup("push", [], { lock: { [pushed]: before, [added]: null } }, stateDir);
+
+		// The sync then records v2 as the base of both pairs; an unrelated pair is left alone
+		await writeSyncLock(
+			{
+				version: 1,
+				pairs: {
+					[pushed]: { files: { "a.md": hash("v2") } },
+					[added]: { files: { "b.md": hash("b") } },
+					[other]: { files: { "c.md": hash("c") } },
+				},
+			},
+			stateDir,
+		);
+
+		const [listed] = await listBackups(stateDir);
+		expect(listed?.id).toBe(backup.id);
+		await restoreSyncLock(listed!.lock!, stateDir);
+		expect(await readSyncLock(stateDir)).toEqual({
+			version: 1,
+			pairs: { [pushed]: before, [other]: { files: { "c.md": hash("c") } } },
+		});
+	});
+});
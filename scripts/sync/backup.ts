@@ -0,0 +1,146 @@
+/**
+ * Snapshots of sync destinations, taken before every push/pull writes, so `sync undo` can put
+ * them back. Each backup is a directory under <state>/backups/ named by its timestamp, holding
+ * manifest.json and a copy of every file of each destination under files/<target index>/.
+ */
+import { cp, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { syncBackupManifestSchema, type SyncBackupManifest } from "../shared/schemas.js";
+import { deleteCursorUserRules, writeCursorUserRules } from "./cursor-db.js";
+import { applySyncPlan, planSync } from "./sync-dir.js";
+
+/** A backup on disk */
+export interface SyncBackup extends SyncBackupManifest {
+	/** Directory name, a sortable timestamp */
+	id: string;
+	dir: string;
+}
+
+/** State root: RULE_COMPOSER_STATE_DIR, else $XDG_STATE_HOME/rule-composer, else ~/.local/state/rule-composer */
+export const getStateDir = (env: NodeJS.ProcessEnv = process.env): string =>
+	env["RULE_COMPOSER_STATE_DIR"] ||
+	join(env["XDG_STATE_HOME"] || join(homedir(), ".local", "state"), "rule-composer");
+
+const backupsDir = (stateDir: string): string => join(stateDir, "backups");
+
+const snapshotDir = (backup: SyncBackup, index: number): string => join(backup.dir, "files", String(index));
+
+/** Relative paths of all files under dir, recursively */
+const listFiles = async (dir: string, prefix = ""): Promise<string[]> => {
+	const files: string[] = [];
+	for (const entry of await readdir(dir, { withFileTypes: true })) {
+		const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+		if (entry.isDirectory()) {
+			files.push(...(await listFiles(join(dir, entry.name), rel)));
+		} else {
+			files.push(rel);
+		}
+	}
+	return files;
+};
+
+/** Files in a backup; a Cursor DB snapshot counts as one */
+export const backupFileCount = (backup: SyncBackupManifest): number =>
+	backup.targets.reduce((sum, target) => sum + target.files.length, 0) + (backup.cursorDb ? 1 : 0);
+
+/** Create an empty backup directory; a second backup in the same millisecond gets a suffix */
+const makeBackupDir = async (stateDir: string, createdAt: string): Promise<{ id: string; dir: string }> => {
+	const base = createdAt.replace(/[:.]/g, "-");
+	await mkdir(backupsDir(stateDir), { recursive: true });
+	for (let attempt = 0; ; attempt++) {
+		const id = attempt === 0 ? base : `${base}-${attempt}`;
+		const dir = join(backupsDir(stateDir), id);
+		try {
+			await mkdir(dir);
+			return { id, dir };
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+		}
+	}
+};
+
+/**
+ * Snapshot every file under each target directory (and the Cursor User Rules and sync lock entries,
+ * when given) before operation writes to them. Targets that don't exist yet are recorded so undo
+ * can remove them.
+ */
+export const createBackup = async (
+	operation: string,
+	targets: string[],
+	{ cursorDb, lock }: Pick<SyncBackupManifest, "cursorDb" | "lock"> = {},
+	stateDir: string = getStateDir(),
+): Promise<SyncBackup> => {
+	const createdAt = new Date().toISOString();
+	const { id, dir } = await makeBackupDir(stateDir, createdAt);
+	const manifest: SyncBackupManifest = {
+		createdAt,
+		operation,
+		targets: [],
+		...(cursorDb && { cursorDb }),
+		...(lock && { lock }),
+	};
+
+	for (const [index, path] of targets.entries()) {
+		const existed = await stat(path).then(
+			(s) => s.isDirectory(),
+			() => false,
+		);
+		const copy = join(dir, "files", String(index));
+		await mkdir(copy, { recursive: true });
+		if (existed) await cp(path, copy, { recursive: true });
+		manifest.targets.push({ path, existed, files: existed ? await listFiles(copy) : [] });
+	}
+
+	await writeFile(join(dir, "manifest.json"), JSON.stringify(manifest, null, "\t"), "utf-8");
+	return { ...manifest, id, dir };
+};
+
+/** All backups with a valid manifest, newest first */
+export const listBackups = async (stateDir: string = getStateDir()): Promise<SyncBackup[]> => {
+	const ids = await readdir(backupsDir(stateDir)).catch(() => [] as string[]);
+	const backups: SyncBackup[] = [];
+	for (const id of ids) {
+		const dir = join(backupsDir(stateDir), id);
+		try {
+			const parsed = syncBackupManifestSchema.safeParse(
+				JSON.parse(await readFile(join(dir, "manifest.json"), "utf-8")),
+			);
+			if (parsed.success) backups.push({ ...parsed.data, id, dir });
+		} catch {
+			// not a backup (or an interrupted one)
+		}
+	}
+	return backups.sort((a, b) => b.id.localeCompare(a.id));
+};
+
+/**
+ * Put every target back exactly as snapshotted: files changed since are overwritten, files added
+ * since are deleted, and targets that didn't exist are removed. Then restore the Cursor User Rules.
+ */
+export const restoreBackup = async (backup: SyncBackup): Promise<void> => {
+	for (const [index, target] of backup.targets.entries()) {
+		if (!target.existed) {
+			await rm(target.path, { recursive: true, force: true });
+			continue;
+		}
+		const copy = snapshotDir(backup, index);
+		await mkdir(target.path, { recursive: true });
+		// Backups are taken with fs.cp, which keeps symlinks as links
+		const plan = await planSync(copy, target.path, { deleteStale: true, symlinks: "copy" });
+		await applySyncPlan(copy, target.path, plan, { symlinks: "copy" });
+	}
+	if (backup.cursorDb) {
+		const { path, content } = backup.cursorDb;
+		if (content === null) {
+			deleteCursorUserRules(path);
+		} else {
+			writeCursorUserRules(path, content);
+		}
+	}
+};
+
+/** Delete a backup (after undo has restored it) */
+export const removeBackup = async (backup: SyncBackup): Promise<void> => {
+	await rm(backup.dir, { recursive: true, force: true });
+};
@@ -72,6 +72,16 @@ export function writeCursorUserRules(dbPath: string, content: string): void {
 	}
 }
 
+/** Remove the User Rules key from Cursor's state.vscdb (restores a DB that had none). */
+export function deleteCursorUserRules(dbPath: string): void {
+	const db = new Database(dbPath);
+	try {
+		db.prepare("DELETE FROM ItemTable WHERE key = ?").run(CURSOR_KEY);
+	} finally {
+		db.close();
+	}
+}
+
 /** Compose repo rules dir into a single string (files sorted by name, joined by double newline). */
 export async function composeRepoRules(repoRulesDir: string): Promise<string> {
 	const entries = await readdir(repoRulesDir, { withFileTypes: true });
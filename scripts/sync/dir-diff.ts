@@ -0,0 +1,93 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { unifiedDiff } from "../shared/diff.js";
+import type { IgnoreMatcher } from "./ignore.js";
+
+/** A file present on both sides with different content */
+export interface ModifiedFile {
+	/** Path relative to the compared directories */
+	path: string;
+	/** Unified diff from the `from` file to the `to` file */
+	diff: string;
+}
+
+/** Files of two directory trees by category; paths are relative and sorted */
+export interface DirDiffResult {
+	/** Only in `to` */
+	added: string[];
+	/** Only in `from` */
+	removed: string[];
+	modified: ModifiedFile[];
+	identical: string[];
+}
+
+export interface DirDiffOptions {
+	/** Prefix for `from` paths in diff headers (default: "a") */
+	fromLabel?: string;
+	/** Prefix for `to` paths in diff headers (default: "b") */
+	toLabel?: string;
+	/** Paths left out of the comparison on both sides */
+	ignore?: IgnoreMatcher;
+}
+
+/** Relative paths of all files under dir that are not ignored, recursively; a missing dir has none */
+const listFiles = async (dir: string, ignore?: IgnoreMatcher, prefix = ""): Promise<string[]> => {
+	let entries;
+	try {
+		entries = await readdir(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+	const files: string[] = [];
+	for (const entry of entries) {
+		const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+		if (ignore?.(rel, entry.isDirectory())) continue;
+		if (entry.isDirectory()) {
+			files.push(...(await listFiles(join(dir, entry.name), ignore, rel)));
+		} else {
+			files.push(rel);
+		}
+	}
+	return files;
+};
+
+const isBinary = (data: Buffer): boolean => data.includes(0);
+
+/** Unified diff of two differing files; binary files and newline-only changes get a one-line note */
+const fileDiff = (from: Buffer, to: Buffer, fromFile: string, toFile: string): string => {
+	const header = `--- ${fromFile}\n+++ ${toFile}\n`;
+	if (isBinary(from) || isBinary(to)) return `${header}(binary files differ)\n`;
+	// Texts that differ only in a trailing newline produce no line diff
+	return (
+		unifiedDiff(from.toString("utf-8"), to.toString("utf-8"), { fromFile, toFile }) ||
+		`${header}(trailing newline differs)\n`
+	);
+};
+
+/**
+ * Compare two directory trees file by file (byte content, not mtimes). Directories are only
+ * walked, never reported; a missing directory counts as empty, so everything in the other is
+ * added or removed.
+ */
+export const diffDirs = async (from: string, to: string, options: DirDiffOptions = {}): Promise<DirDiffResult> => {
+	const { fromLabel = "a", toLabel = "b" } = options;
+	const fromFiles = new Set(await listFiles(from, options.ignore));
+	const toFiles = new Set(await listFiles(to, options.ignore));
+	const result: DirDiffResult = { added: [], removed: [], modified: [], identical: [] };
+
+	for (const path of [...new Set([...fromFiles, ...toFiles])].sort()) {
+		if (!fromFiles.has(path)) {
+			result.added.push(path);
+		} else if (!toFiles.has(path)) {
+			result.removed.push(path);
+		} else {
+			const [a, b] = await Promise.all([readFile(join(from, path)), readFile(join(to, path))]);
+			if (a.equals(b)) {
+				result.identical.push(path);
+			} else {
+				result.modified.push({ path, diff: fileDiff(a, b, `${fromLabel}/${path}`, `${toLabel}/${path}`) });
+			}
+		}
+	}
+	return result;
+};
@@ -0,0 +1,75 @@
+/**
+ * gitignore-style ignore rules for sync. Each synced directory (repo and global side) may hold a
+ * .rulesyncignore; its rules and any --exclude patterns apply to both sides, so matching paths are
+ * never copied, overwritten or deleted.
+ */
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { globToRegExp } from "../shared/glob.js";
+
+export const SYNC_IGNORE_FILE = ".rulesyncignore";
+
+/** Each side keeps its own ignore file, so the file itself is never synced */
+const ALWAYS_IGNORED = [`/${SYNC_IGNORE_FILE}`];
+
+/** One line of an ignore file */
+export interface IgnoreRule {
+	regex: RegExp;
+	/** `!pattern`: re-include what an earlier rule ignored */
+	negate: boolean;
+	/** `pattern/`: only matches directories */
+	dirOnly: boolean;
+}
+
+/** True when a path relative to the synced directory is ignored */
+export type IgnoreMatcher = (path: string, isDirectory: boolean) => boolean;
+
+/**
+ * Parse gitignore syntax: blank lines and `#` comments are skipped, `!` negates, a trailing `/`
+ * matches directories only, and a pattern with a `/` before its end is anchored to the directory
+ * root (otherwise it matches at any depth). Globs support `*`, `**`, `?`, classes and `{a,b}`.
+ */
+export const parseIgnoreRules = (content: string): IgnoreRule[] =>
+	content.split("\n").flatMap((raw): IgnoreRule[] => {
+		let line = raw.trim();
+		if (line === "" || line.startsWith("#")) return [];
+		const negate = line.startsWith("!");
+		if (negate) line = line.slice(1);
+		const dirOnly = line.endsWith("/");
+		if (dirOnly) line = line.slice(0, -1);
+		if (line === "") return [];
+		const anchored = line.includes("/") && !line.startsWith("/") && !line.startsWith("**/") ? `/${line}` : line;
+		return [{ regex: globToRegExp(anchored), negate, dirOnly }];
+	});
+
+/** The last matching rule decides; without one the path is not ignored */
+const matchRules = (rules: IgnoreRule[], path: string, isDirectory: boolean): boolean => {
+	let ignored = false;
+	for (const rule of rules) {
+		if (rule.dirOnly && !isDirectory) continue;
+		if (rule.regex.test(path)) ignored = !rule.negate;
+	}
+	return ignored;
+};
+
+/** Build a matcher. As in git, nothing inside an ignored directory can be re-included. */
+export const createIgnoreMatcher = (rules: IgnoreRule[]): IgnoreMatcher => {
+	return (path, isDirectory) => {
+		const segments = path.split("/");
+		for (let i = 1; i < segments.length; i++) {
+			if (matchRules(rules, segments.slice(0, i).join("/"), true)) return true;
+		}
+		return matchRules(rules, path, isDirectory);
+	};
+};
+
+/** Matcher for a synced pair: the ignore files of every dir (missing ones are fine), then the --exclude patterns */
+export const loadSyncIgnore = async (dirs: string[], exclude: string[] = []): Promise<IgnoreMatcher> => {
+	const rules = parseIgnoreRules(ALWAYS_IGNORED.join("\n"));
+	for (const dir of dirs) {
+		const content = await readFile(join(dir, SYNC_IGNORE_FILE), "utf-8").catch(() => "");
+		rules.push(...parseIgnoreRules(content));
+	}
+	rules.push(...parseIgnoreRules(exclude.join("\n")));
+	return createIgnoreMatcher(rules);
+};
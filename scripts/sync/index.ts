@@ -1,11 +1,12 @@
-import { execSync } from "node:child_process";
-import { writeFileSync, unlinkSync } from "node:fs";
 import { Dirent } from "node:fs";
-import { access, readdir } from "node:fs/promises";
-import { randomBytes } from "node:crypto";
-import { homedir, tmpdir } from "node:os";
+import { access, readdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
 import { join, resolve } from "node:path";
 import * as p from "@clack/prompts";
+import color from "picocolors";
+import { colorizeDiff } from "../shared/cli.js";
+import { unifiedDiff } from "../shared/diff.js";
+import type { SyncLock } from "../shared/schemas.js";
 import { TOOL_IDS, type ToolId } from "../shared/types.js";
 import { TOOL_VARIABLES } from "../shared/formats.js";
 import {
@@ -17,11 +18,29 @@ import {
 	composeRepoRules,
 	writeCursorUserRulesToRepo,
 } from "./cursor-db.js";
-import { syncDir } from "./sync-dir.js";
+import { diffDirs, type DirDiffResult } from "./dir-diff.js";
+import { backupFileCount, createBackup, listBackups, removeBackup, restoreBackup, type SyncBackup } from "./backup.js";
+import {
+	applySyncPlan,
+	planSync,
+	SYMLINK_MODES,
+	type SymlinkMode,
+	type SyncAction,
+	type SyncPlanEntry,
+	type SyncSideLabels,
+	type SyncSummary,
+} from "./sync-dir.js";
+import { loadSyncIgnore, type IgnoreMatcher } from "./ignore.js";
+import { lockEntryAfterSync, readSyncLock, restoreSyncLock, syncLockKey, writeSyncLock } from "./sync-lock.js";
 import { treeSingleSelect } from "../shared/tree-prompt.js";
 import type { TreeNode } from "../shared/types.js";
 
-export type SyncDirection = "push" | "pull" | "diff" | "inspect";
+export type SyncDirection = "push" | "pull" | "diff" | "inspect" | "undo" | "history";
+
+/** Side whose version wins a conflict */
+export type SyncPreference = "repo" | "global";
+
+export const SYNC_PREFERENCES: SyncPreference[] = ["repo", "global"];
 
 export interface SyncOptions {
 	/** Repo root (default: process.cwd()) */
@@ -32,6 +51,16 @@ export interface SyncOptions {
 	yes?: boolean;
 	/** For Cursor: sync rules to/from User Rules SQLite DB (state.vscdb) instead of ~/.cursor/rules/ */
 	cursorDb?: boolean;
+	/** For push/pull: print the planned changes per category and write nothing */
+	dryRun?: boolean;
+	/** For push/pull: settle conflicts (files changed on both sides since the last sync) in favor of this side */
+	prefer?: SyncPreference;
+	/** For push/pull: how symlinks in the source are synced (default: follow) */
+	symlinks?: SymlinkMode;
+	/** For push/pull/diff: extra gitignore-style patterns, on top of each side's .rulesyncignore */
+	exclude?: string[];
+	/** For diff: print the structured result as JSON on stdout instead of colored output (implies yes) */
+	json?: boolean;
 }
 
 export const expandTilde = (path: string): string => (path.startsWith("~/") ? join(homedir(), path.slice(2)) : path);
@@ -313,10 +342,201 @@ export const getToolsWithGlobalPaths = (): ToolId[] =>
 		);
 	});
 
+/** Diff of one sync category: global config (from) vs repo (to) */
+export interface SyncCategoryDiff extends SyncCategory, DirDiffResult {}
+
+/** Composed repo rules vs Cursor User Rules; the diff runs from the DB to the repo */
+export interface CursorDbDiff {
+	identical: boolean;
+	diff: string;
+}
+
+/** Print one category's diff: counts, then added/removed paths and unified diffs of modified files */
+const showCategoryDiff = (cat: SyncCategoryDiff): void => {
+	const counts = [
+		color.green(`${cat.added.length} only in repo`),
+		color.red(`${cat.removed.length} only in global`),
+		color.yellow(`${cat.modified.length} modified`),
+		color.dim(`${cat.identical.length} identical`),
+	].join(", ");
+	p.log.info(`Diff ${cat.label}: ${cat.repoPath} vs ${cat.globalPath}\n${counts}`);
+	for (const path of cat.added) process.stdout.write(`${color.green(`+ ${path}`)}\n`);
+	for (const path of cat.removed) process.stdout.write(`${color.red(`- ${path}`)}\n`);
+	for (const { diff } of cat.modified) process.stdout.write(`${colorizeDiff(diff)}\n`);
+};
+
+/** Planned push/pull of one category */
+interface CategoryPlan {
+	cat: SyncCategory;
+	src: string;
+	dest: string;
+	plan: SyncPlanEntry[];
+	/** The pair's ignore rules, reused when hashing it for the lockfile */
+	ignore: IgnoreMatcher;
+}
+
+const PLAN_SYMBOLS: Record<Exclude<SyncAction, "unchanged">, string> = {
+	create: color.green("+"),
+	overwrite: color.yellow("~"),
+	delete: color.red("-"),
+	keep: color.dim("="),
+	conflict: color.magenta("!"),
+};
+
+/** Print one category's plan: counts per action, then every path that changes */
+const showSyncPlan = ({ cat, src, dest, plan }: CategoryPlan): void => {
+	const count = (action: SyncAction) => plan.filter((entry) => entry.action === action).length;
+	const counts = [
+		color.green(`${count("create")} create`),
+		color.yellow(`${count("overwrite")} overwrite`),
+		color.red(`${count("delete")} delete`),
+		color.dim(`${count("unchanged")} unchanged`),
+		// Only three-way plans (with a lockfile base) keep or conflict
+		...(count("keep") > 0 ? [color.dim(`${count("keep")} kept (changed only at destination)`)] : []),
+		...(count("conflict") > 0 ? [color.magenta(`${count("conflict")} conflict`)] : []),
+	].join(", ");
+	p.log.info(`${cat.label}: ${src} → ${dest}\n${counts}`);
+	for (const { path, action } of plan) {
+		if (action !== "unchanged") process.stdout.write(`${PLAN_SYMBOLS[action]} ${path}\n`);
+	}
+};
+
+/** Which side each end of a push/pull is, for conflict markers and --prefer */
+const sideLabels = (direction: "push" | "pull"): SyncSideLabels =>
+	direction === "push" ? { source: "repo", dest: "global" } : { source: "global", dest: "repo" };
+
+/**
+ * Resolve every conflict in plans: with prefer, that side wins; otherwise (unless yes) ask per file
+ * after showing its diff. Conflicts skipped or left open under --yes are not touched by the sync.
+ */
+const resolveConflicts = async (
+	plans: CategoryPlan[],
+	labels: SyncSideLabels,
+	prefer: SyncPreference | undefined,
+	yes: boolean | undefined,
+): Promise<boolean> => {
+	for (const { cat, src, dest, plan } of plans) {
+		for (const entry of plan) {
+			if (entry.action !== "conflict") continue;
+			if (prefer) {
+				entry.resolution = prefer === labels.source ? "source" : "dest";
+				continue;
+			}
+			if (yes) continue;
+			const read = (path: string) => readFile(join(path, entry.path), "utf-8").catch(() => "");
+			const diff = unifiedDiff(await read(dest), await read(src), {
+				fromFile: `${labels.dest}/${entry.path}`,
+				toFile: `${labels.source}/${entry.path}`,
+			});
+			p.log.warn(`${cat.label}: ${entry.path} changed in both repo and global since the last sync`);
+			process.stdout.write(`${colorizeDiff(diff)}\n`);
+			const choice = await p.select({
+				message: `Resolve ${entry.path}`,
+				options: [
+					{ value: "repo", label: "Keep repo version" },
+					{ value: "global", label: "Keep global version" },
+					{ value: "merge", label: "Merge with conflict markers (written to both sides)" },
+					{ value: "skip", label: "Skip — leave both as they are" },
+				],
+			});
+			if (p.isCancel(choice)) return false;
+			if (choice === "merge") entry.resolution = "merge";
+			else if (choice !== "skip") entry.resolution = choice === labels.source ? "source" : "dest";
+		}
+	}
+	const open = plans.flatMap(({ dest, plan }) =>
+		plan.filter((entry) => entry.action === "conflict" && !entry.resolution).map((entry) => join(dest, entry.path)),
+	);
+	if (open.length > 0) {
+		p.log.warn(
+			`${open.length} conflict(s) left unresolved (use --prefer repo|global to settle them):\n${open.join("\n")}`,
+		);
+	}
+	return true;
+};
+
+/** Print what applySyncPlan did for one category */
+const showSyncSummary = ({ copied, skipped, deleted }: SyncSummary): void => {
+	p.log.message(`${copied} copied, ${skipped} skipped, ${deleted} deleted`);
+};
+
+/** Record each synced pair's file hashes as the base for the next three-way sync */
+const updateSyncLock = async (lock: SyncLock, plans: CategoryPlan[], symlinks?: SymlinkMode): Promise<void> => {
+	for (const { cat, ignore } of plans) {
+		const key = syncLockKey(cat.repoPath, cat.globalPath);
+		const files = await lockEntryAfterSync(cat.repoPath, cat.globalPath, lock.pairs[key]?.files, {
+			symlinks,
+			ignore,
+		});
+		lock.pairs[key] = { files };
+	}
+	await writeSyncLock(lock);
+};
+
+/** One-line summary of a backup: when, which operation, how many files, which destinations */
+const describeBackup = (backup: SyncBackup): string => {
+	const destinations = [
+		...backup.targets.map((target) => target.path),
+		...(backup.cursorDb ? ["Cursor User Rules"] : []),
+	];
+	return `${backup.createdAt}  ${backup.operation}  ${backupFileCount(backup)} file(s)  ${color.dim(destinations.join(", "))}`;
+};
+
+/** `sync history`: every backup, newest first */
+const showSyncHistory = async (): Promise<void> => {
+	const backups = await listBackups();
+	if (backups.length === 0) {
+		p.log.info("No sync backups yet. Every push/pull takes one before writing.");
+		return;
+	}
+	p.log.info(`${backups.length} backup(s), newest first:\n${backups.map(describeBackup).join("\n")}`);
+};
+
+/** `sync undo`: restore the newest backup, then drop it so the next undo goes one further back */
+const undoLastSync = async (yes: boolean | undefined): Promise<void> => {
+	const [last] = await listBackups();
+	if (!last) {
+		p.log.warn("No sync backups to undo.");
+		return;
+	}
+	p.log.info(`Last backup: ${describeBackup(last)}`);
+	if (!yes) {
+		const confirmUndo = await p.confirm({
+			message: "Restore these destinations to how they were before that sync?",
+			initialValue: false,
+		});
+		if (p.isCancel(confirmUndo) || confirmUndo !== true) {
+			p.cancel("Undo cancelled.");
+			return;
+		}
+	}
+	await restoreBackup(last);
+	if (last.lock) await restoreSyncLock(last.lock);
+	await removeBackup(last);
+	p.log.success(`Restored ${backupFileCount(last)} file(s) from before the ${last.operation} at ${last.createdAt}`);
+};
+
 export const runSync = async (direction: SyncDirection | undefined, options: SyncOptions = {}): Promise<void> => {
 	const repoRoot = resolve(options.repo ?? process.cwd());
 	const toolsWithGlobal = getToolsWithGlobalPaths();
 	const toolId = (options.tool ?? "cursor") as ToolId;
+	// JSON output must not be interleaved with prompts
+	const yes = options.yes || options.json;
+
+	if (options.json && direction !== "diff") {
+		p.log.error("--json is only supported by sync diff");
+		return;
+	}
+	if (options.prefer && !SYNC_PREFERENCES.includes(options.prefer)) {
+		p.log.error(`Unknown --prefer value: ${options.prefer}. Use repo or global.`);
+		return;
+	}
+	if (options.symlinks && !SYMLINK_MODES.includes(options.symlinks)) {
+		p.log.error(`Unknown --symlinks value: ${options.symlinks}. Use ${SYMLINK_MODES.join(", ")}.`);
+		return;
+	}
+	if (direction === "history") return showSyncHistory();
+	if (direction === "undo") return undoLastSync(yes);
 
 	if (!TOOL_IDS.includes(toolId)) {
 		p.log.error(`Unknown tool: ${toolId}`);
@@ -363,7 +583,7 @@ export const runSync = async (direction: SyncDirection | undefined, options: Syn
 
 	// Source selection: repo root or any dir that has rules/skills/agents/commands (radio = one source)
 	const sourceTree = await buildSyncSourceTree(repoRoot);
-	if (sourceTree.length > 1 && !options.yes) {
+	if (sourceTree.length > 1 && !yes) {
 		const picked = await treeSingleSelect({
 			message: "Select source to sync",
 			tree: sourceTree,
@@ -388,7 +608,7 @@ export const runSync = async (direction: SyncDirection | undefined, options: Syn
 	} else {
 		// Repo root: prefer canonical layout if present; else use tool schema
 		let useCanonicalLayout = await hasCanonicalSyncLayout(repoRoot);
-		if (useCanonicalLayout && !options.yes) {
+		if (useCanonicalLayout && !yes) {
 			const useRoot = await p.confirm({
 				message: "Use project root layout (rules/, skills/, agents/, commands/) for sync?",
 				initialValue: true,
@@ -425,7 +645,7 @@ export const runSync = async (direction: SyncDirection | undefined, options: Syn
 			p.cancel("Sync cancelled.");
 			return;
 		}
-		directionToUse = selected as SyncDirection;
+		directionToUse = selected as NonNullable<typeof direction>;
 	}
 
 	if (directionToUse === "inspect") {
@@ -478,7 +698,7 @@ export const runSync = async (direction: SyncDirection | undefined, options: Syn
 
 	let deleteStale = false;
 	if (directionToUse === "push" || directionToUse === "pull") {
-		if (!options.yes) {
+		if (!yes) {
 			const confirmDeleteStale = await p.confirm({
 				message:
 					"Do you want to delete stale items (items at the destination that are not present in the source)?",
@@ -493,57 +713,128 @@ export const runSync = async (direction: SyncDirection | undefined, options: Syn
 	}
 
 	if (directionToUse === "diff") {
+		const categories: SyncCategoryDiff[] = [];
 		for (const cat of selectedCategories) {
-			p.log.info(`Diff ${cat.label}: ${cat.repoPath} vs ${cat.globalPath}`);
-			try {
-				execSync(`diff -rq "${cat.repoPath}" "${cat.globalPath}"`, { stdio: "inherit" });
-			} catch {
-				// diff exits 1 when files differ or dir missing
-			}
+			const ignore = await loadSyncIgnore([cat.repoPath, cat.globalPath], options.exclude);
+			const result = await diffDirs(cat.globalPath, cat.repoPath, {
+				fromLabel: "global",
+				toLabel: "repo",
+				ignore,
+			});
+			categories.push({ ...cat, ...result });
 		}
+		let cursorDb: CursorDbDiff | undefined;
 		if (useCursorDb && cursorDbPath) {
 			const repoContent = await composeRepoRules(repoRules).catch(() => "");
 			const dbContent = readCursorUserRules(cursorDbPath) ?? "";
-			if (repoContent === dbContent) {
-				p.log.info("Cursor User Rules: repo and DB match.");
-			} else {
-				p.log.info("Cursor User Rules: repo and DB differ.");
-				const base = join(tmpdir(), `cursor-diff-${randomBytes(8).toString("hex")}`);
-				const repoFile = `${base}-repo.md`;
-				const dbFile = `${base}-db.md`;
-				try {
-					writeFileSync(repoFile, repoContent, "utf-8");
-					writeFileSync(dbFile, dbContent, "utf-8");
-					execSync(`diff "${repoFile}" "${dbFile}"`, { stdio: "inherit" });
-				} catch {
-					// diff exits 1 when files differ
-				} finally {
-					try {
-						unlinkSync(repoFile);
-						unlinkSync(dbFile);
-					} catch {
-						/* ignore */
-					}
-				}
-			}
+			cursorDb = {
+				identical: repoContent === dbContent,
+				diff: unifiedDiff(dbContent, repoContent, { fromFile: "cursor-db", toFile: "repo" }),
+			};
+		}
+
+		if (options.json) {
+			process.stdout.write(`${JSON.stringify({ categories, ...(cursorDb && { cursorDb }) }, null, 2)}\n`);
+			return;
+		}
+		for (const cat of categories) showCategoryDiff(cat);
+		if (cursorDb?.identical) {
+			p.log.info("Cursor User Rules: repo and DB match.");
+		} else if (cursorDb) {
+			p.log.info("Cursor User Rules: repo and DB differ.");
+			process.stdout.write(`${colorizeDiff(cursorDb.diff)}\n`);
+		}
+		return;
+	}
+
+	// push or pull: plan every category first, so a dry run and the delete confirmation show exactly what the run does
+	const lock = await readSyncLock();
+	const labels = sideLabels(directionToUse);
+	const plans: CategoryPlan[] = [];
+	for (const cat of selectedCategories) {
+		const [src, dest] = directionToUse === "push" ? [cat.repoPath, cat.globalPath] : [cat.globalPath, cat.repoPath];
+		if (directionToUse === "push" && !(await pathExists(src))) {
+			p.log.message(`Repo ${src} not found; skipping ${cat.label} push.`);
+			continue;
+		}
+		const base = lock.pairs[syncLockKey(cat.repoPath, cat.globalPath)]?.files;
+		const ignore = await loadSyncIgnore([cat.repoPath, cat.globalPath], options.exclude);
+		plans.push({
+			cat,
+			src,
+			dest,
+			plan: await planSync(src, dest, { deleteStale, base, symlinks: options.symlinks, ignore }),
+			ignore,
+		});
+	}
+
+	if (options.dryRun) {
+		for (const plan of plans) showSyncPlan(plan);
+		if (useCursorDb && cursorDbPath) {
+			p.log.message(
+				directionToUse === "push"
+					? `Would write composed ${repoRules}/ to Cursor User Rules (state.vscdb)`
+					: `Would write Cursor User Rules to ${repoRules}/cursor-user-rules.md`,
+			);
 		}
+		p.log.info("Dry run: nothing was written.");
+		return;
+	}
+
+	if (!(await resolveConflicts(plans, labels, options.prefer, yes))) {
+		p.cancel("Sync cancelled.");
 		return;
 	}
 
-	// push or pull
+	const deletions = plans.flatMap(({ dest, plan }) =>
+		plan.filter((entry) => entry.action === "delete").map((entry) => join(dest, entry.path)),
+	);
+	if (deletions.length > 0 && !yes) {
+		p.log.warn(`These ${deletions.length} path(s) will be deleted:\n${deletions.join("\n")}`);
+		const confirmDelete = await p.confirm({
+			message: `Delete ${deletions.length} path(s)?`,
+			initialValue: false,
+		});
+		if (p.isCancel(confirmDelete) || confirmDelete !== true) {
+			p.cancel("Sync cancelled.");
+			return;
+		}
+	}
+
+	// Snapshot everything about to be written, so `sync undo` can restore it
+	const writesDest = (entry: SyncPlanEntry) =>
+		["create", "overwrite", "delete"].includes(entry.action) || entry.resolution !== undefined;
+	const writesSource = (entry: SyncPlanEntry) => entry.resolution === "dest" || entry.resolution === "merge";
+	const targets = new Set([
+		...plans.filter(({ plan }) => plan.some(writesDest)).map(({ dest }) => dest),
+		...plans.filter(({ plan }) => plan.some(writesSource)).map(({ src }) => src),
+	]);
+	if (useCursorDb && cursorDbPath && directionToUse === "pull") targets.add(repoRules);
+	const cursorDbSnapshot =
+		useCursorDb && cursorDbPath && directionToUse === "push"
+			? { path: cursorDbPath, content: readCursorUserRules(cursorDbPath) }
+			: undefined;
+	if (targets.size > 0 || cursorDbSnapshot) {
+		// The lock entries too: undo must also forget the base this sync is about to record
+		const lockSnapshot = Object.fromEntries(
+			plans.map(({ cat }) => {
+				const key = syncLockKey(cat.repoPath, cat.globalPath);
+				return [key, lock.pairs[key] ?? null];
+			}),
+		);
+		const backup = await createBackup(directionToUse, [...targets], {
+			cursorDb: cursorDbSnapshot,
+			lock: lockSnapshot,
+		});
+		p.log.message(`Backed up ${backupFileCount(backup)} file(s) to ${backup.dir} (restore with: sync undo)`);
+	}
+
 	if (directionToUse === "push") {
-		for (const cat of selectedCategories) {
-			const src = cat.repoPath;
-			const dest = cat.globalPath;
-			try {
-				await access(src);
-			} catch {
-				p.log.message(`Repo ${src} not found; skipping ${cat.label} push.`);
-				continue;
-			}
+		for (const { cat, src, dest, plan } of plans) {
 			p.log.info(`Pushing ${cat.label}: ${src}/ → ${dest}`);
-			await syncDir(src, dest, { deleteStale });
+			showSyncSummary(await applySyncPlan(src, dest, plan, { labels, symlinks: options.symlinks }));
 		}
+		await updateSyncLock(lock, plans, options.symlinks);
 		if (useCursorDb && cursorDbPath) {
 			p.log.info(`Pushing rules: ${repoRules}/ → Cursor User Rules (state.vscdb)`);
 			let content: string;
@@ -558,12 +849,11 @@ export const runSync = async (direction: SyncDirection | undefined, options: Syn
 			writeCursorUserRules(cursorDbPath, content);
 		}
 	} else {
-		for (const cat of selectedCategories) {
-			const src = cat.globalPath;
-			const dest = cat.repoPath;
+		for (const { cat, src, dest, plan } of plans) {
 			p.log.info(`Pulling ${cat.label}: ${src} → ${dest}/`);
-			await syncDir(src, dest, { deleteStale });
+			showSyncSummary(await applySyncPlan(src, dest, plan, { labels, symlinks: options.symlinks }));
 		}
+		await updateSyncLock(lock, plans, options.symlinks);
 		if (useCursorDb && cursorDbPath) {
 			p.log.info(`Pulling rules: Cursor User Rules (state.vscdb) → ${repoRules}/cursor-user-rules.md`);
 			const content = readCursorUserRules(cursorDbPath);
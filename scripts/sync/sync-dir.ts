@@ -1,11 +1,98 @@
-import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { chmod, lstat, mkdir, readdir, readFile, readlink, rm, stat, symlink, writeFile } from "node:fs/promises";
+import type { Stats } from "node:fs";
 import { join } from "node:path";
+import { mergeWithConflictMarkers } from "../shared/diff.js";
+import type { IgnoreMatcher } from "./ignore.js";
 
 export interface SyncDirOptions {
 	/** If true, remove paths in dest that are not present in source */
 	deleteStale: boolean;
+	/** File hashes (relative path → sha256) from the last sync; when set, planning is three-way */
+	base?: Record<string, string>;
+	/** How symlinks in source are synced (default: follow) */
+	symlinks?: SymlinkMode;
+	/** Paths that are neither copied nor deleted, on either side (see loadSyncIgnore) */
+	ignore?: IgnoreMatcher;
 }
 
+/** follow: sync what the link points to; copy: recreate the link itself; skip: leave links out */
+export type SymlinkMode = "follow" | "copy" | "skip";
+
+export const SYMLINK_MODES: SymlinkMode[] = ["follow", "copy", "skip"];
+
+/** What applySyncPlan did */
+export interface SyncSummary {
+	/** Files written (created, overwritten or settled conflicts) */
+	copied: number;
+	/** Files left as they were (unchanged, kept or unresolved) */
+	skipped: number;
+	deleted: number;
+}
+
+/**
+ * What a sync does to one destination path. Three-way plans add keep (only dest changed since the
+ * last sync, so it is left alone) and conflict (both sides changed it).
+ */
+export type SyncAction = "create" | "overwrite" | "delete" | "unchanged" | "keep" | "conflict";
+
+/** How a conflict is settled: one side's version wins on both sides, or both get a conflict-marker merge */
+export type ConflictResolution = "source" | "dest" | "merge";
+
+export interface SyncPlanEntry {
+	/** Path relative to the synced directories; stale directories end in "/" */
+	path: string;
+	action: SyncAction;
+	/** Set on conflicts once resolved; unresolved conflicts are left untouched */
+	resolution?: ConflictResolution;
+}
+
+/** Labels for the two sides in conflict markers */
+export interface SyncSideLabels {
+	source: string;
+	dest: string;
+}
+
+export interface ApplySyncOptions {
+	/** Conflict-marker labels (default: source/dest) */
+	labels?: SyncSideLabels;
+	/** Must match the mode the plan was made with (default: follow) */
+	symlinks?: SymlinkMode;
+}
+
+/** sha256 of a file's bytes */
+export const hashContent = (data: Buffer): string => createHash("sha256").update(data).digest("hex");
+
+const readHash = (path: string): Promise<string | undefined> => readFile(path).then(hashContent, () => undefined);
+
+/** A file to sync: its stats, and its target when it is a symlink synced as a link */
+interface FileInfo {
+	stats: Stats;
+	link?: string;
+}
+
+/** Stat path the way symlinks are synced: followed, or the link itself. Missing (or dangling) paths are undefined. */
+const statEntry = async (path: string, symlinks: SymlinkMode): Promise<FileInfo | undefined> => {
+	try {
+		if (symlinks === "follow") return { stats: await stat(path) };
+		const stats = await lstat(path);
+		return stats.isSymbolicLink() ? { stats, link: await readlink(path) } : { stats };
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Hash of one file as listFiles sees it: a link synced as a link hashes its target, not what it
+ * points to. Missing and dangling paths, and links in skip mode, have none.
+ */
+const entryHash = async (path: string, symlinks: SymlinkMode): Promise<string | undefined> => {
+	const info = await statEntry(path, symlinks);
+	if (!info) return undefined;
+	if (info.link === undefined) return readHash(path);
+	return symlinks === "skip" ? undefined : hashContent(Buffer.from(`symlink:${info.link}`));
+};
+
 /** Recursively list all relative paths under dir (files and dirs). */
 const listRelativePaths = async (dir: string, prefix = ""): Promise<string[]> => {
 	const entries = await readdir(dir, { withFileTypes: true });
@@ -20,65 +107,275 @@ const listRelativePaths = async (dir: string, prefix = ""): Promise<string[]> =>
 	return paths;
 };
 
-/** Recursively copy source into dest (single walk). */
-const copyRecursive = async (src: string, dest: string, rel: string): Promise<void> => {
-	const srcPath = join(src, rel);
-	const destPath = join(dest, rel);
-	const s = await stat(srcPath);
-	if (s.isDirectory()) {
-		await mkdir(destPath, { recursive: true });
-		const entries = await readdir(srcPath, { withFileTypes: true });
-		for (const e of entries) {
-			const childRel = rel ? `${rel}/${e.name}` : e.name;
-			await copyRecursive(src, dest, childRel);
+/**
+ * Files under dir by relative path. Symlinked dirs are walked only when following; skip drops links.
+ * Ignored files are left out, and ignored directories are not walked.
+ */
+const listFiles = async (
+	dir: string,
+	symlinks: SymlinkMode,
+	ignore?: IgnoreMatcher,
+	prefix = "",
+): Promise<Map<string, FileInfo>> => {
+	const files = new Map<string, FileInfo>();
+	for (const name of await readdir(dir)) {
+		const rel = prefix ? `${prefix}/${name}` : name;
+		const info = await statEntry(join(dir, name), symlinks);
+		if (!info || (info.link !== undefined && symlinks === "skip")) continue;
+		if (ignore?.(rel, info.stats.isDirectory())) continue;
+		if (info.stats.isDirectory()) {
+			for (const [child, childInfo] of await listFiles(join(dir, name), symlinks, ignore, rel))
+				files.set(child, childInfo);
+		} else {
+			files.set(rel, info);
 		}
-	} else {
-		await mkdir(join(destPath, ".."), { recursive: true });
-		const data = await readFile(srcPath);
-		await writeFile(destPath, data);
 	}
+	return files;
+};
+
+/** Same content (sizes first, then hashes), same permission bits, or the same link target */
+const sameFile = async (sourcePath: string, destPath: string, source: FileInfo, dest: FileInfo): Promise<boolean> => {
+	if (source.link !== undefined || dest.link !== undefined) return source.link === dest.link;
+	if (source.stats.size !== dest.stats.size) return false;
+	if ((source.stats.mode & 0o7777) !== (dest.stats.mode & 0o7777)) return false;
+	return (await readHash(sourcePath)) === (await readHash(destPath));
+};
+
+/** sameFile for one relative path on both sides, stat'ed the way planSync does */
+const sameEntry = async (sourceDir: string, destDir: string, rel: string, symlinks: SymlinkMode): Promise<boolean> => {
+	const sourcePath = join(sourceDir, rel);
+	const destPath = join(destDir, rel);
+	const source = await statEntry(sourcePath, symlinks);
+	const dest = await statEntry(destPath, symlinks === "copy" ? "copy" : "follow");
+	return source !== undefined && dest !== undefined && sameFile(sourcePath, destPath, source, dest);
+};
+
+/** True when anything under dir (relative path prefix) is ignored */
+const holdsIgnored = async (dir: string, prefix: string, ignore: IgnoreMatcher): Promise<boolean> => {
+	for (const e of await readdir(dir, { withFileTypes: true })) {
+		const rel = `${prefix}/${e.name}`;
+		if (ignore(rel, e.isDirectory())) return true;
+		if (e.isDirectory() && (await holdsIgnored(join(dir, e.name), rel, ignore))) return true;
+	}
+	return false;
 };
 
-/** Remove from dest any path whose relative path is not in allowedSet. */
-const removeStale = async (destDir: string, allowedSet: Set<string>, prefix: string): Promise<void> => {
+/**
+ * Delete entries for every dest path not in allowedSet; a stale directory is listed before its contents.
+ * Ignored paths are kept, and so is a stale directory that holds any.
+ */
+const planStale = async (
+	destDir: string,
+	allowedSet: Set<string>,
+	prefix: string,
+	ignore?: IgnoreMatcher,
+): Promise<SyncPlanEntry[]> => {
 	const entries = await readdir(destDir, { withFileTypes: true });
+	const plan: SyncPlanEntry[] = [];
 	for (const e of entries) {
 		const rel = prefix ? `${prefix}/${e.name}` : e.name;
-		const full = join(destDir, e.name);
+		if (ignore?.(rel, e.isDirectory())) continue;
 		if (e.isDirectory()) {
-			await removeStale(full, allowedSet, rel);
-			if (!allowedSet.has(rel)) {
-				await rm(full, { recursive: true, force: true });
-			}
+			const children = await planStale(join(destDir, e.name), allowedSet, rel, ignore);
+			const keepsIgnored = ignore !== undefined && (await holdsIgnored(join(destDir, e.name), rel, ignore));
+			if (!allowedSet.has(rel) && !keepsIgnored) plan.push({ path: `${rel}/`, action: "delete" });
+			plan.push(...children);
+		} else if (!allowedSet.has(rel)) {
+			plan.push({ path: rel, action: "delete" });
+		}
+	}
+	return plan;
+};
+
+const isDirectory = (path: string): Promise<boolean> =>
+	stat(path).then(
+		(s) => s.isDirectory(),
+		() => false,
+	);
+
+/** Hash of every file under dir by relative path, listed and hashed as planSync sees them; a missing dir has none */
+export const hashFiles = async (
+	dir: string,
+	symlinks: SymlinkMode = "follow",
+	ignore?: IgnoreMatcher,
+): Promise<Map<string, string>> => {
+	const hashes = new Map<string, string>();
+	if (!(await isDirectory(dir))) return hashes;
+	for (const rel of (await listFiles(dir, symlinks, ignore)).keys()) {
+		const hash = await entryHash(join(dir, rel), symlinks);
+		if (hash !== undefined) hashes.set(rel, hash);
+	}
+	return hashes;
+};
+
+/**
+ * Three-way plan against the hashes of the last sync: a file changed only in source is copied
+ * (or, with deleteStale, deleted when source deleted it), a file changed only in dest is kept, and a
+ * file changed differently on both sides is a conflict. Dest-only files count as stale. The base
+ * holds no modes, so files with the same hash on both sides still go through sameFile and a
+ * mode-only change is copied from source.
+ */
+const planThreeWay = async (
+	sourceDir: string,
+	destDir: string,
+	base: Record<string, string>,
+	options: SyncDirOptions,
+): Promise<SyncPlanEntry[]> => {
+	const symlinks = options.symlinks ?? "follow";
+	const sourceFiles = await hashFiles(sourceDir, symlinks, options.ignore);
+	const destFiles = await hashFiles(destDir, symlinks, options.ignore);
+	const plan: SyncPlanEntry[] = [];
+	for (const path of new Set([...sourceFiles.keys(), ...destFiles.keys()])) {
+		const source = sourceFiles.get(path);
+		const dest = destFiles.get(path);
+		const last = base[path];
+		let action: SyncAction;
+		if (source === dest) {
+			action =
+				source === undefined || (await sameEntry(sourceDir, destDir, path, symlinks))
+					? "unchanged"
+					: "overwrite";
+		} else if (dest === last) {
+			if (source === undefined) action = options.deleteStale ? "delete" : "keep";
+			else action = dest === undefined ? "create" : "overwrite";
+		} else if (source === last) {
+			action = source === undefined && options.deleteStale ? "delete" : "keep";
 		} else {
-			if (!allowedSet.has(rel)) {
-				await rm(full);
-			}
+			action = "conflict";
 		}
+		plan.push({ path, action });
 	}
+	return plan.sort((a, b) => a.path.localeCompare(b.path));
 };
 
 /**
- * Sync sourceDir to destDir: recursively copy all files/dirs, then optionally remove
+ * What syncDir(sourceDir, destDir) would do, without touching either side: every source file is
+ * created or overwritten unless dest already has it (see sameFile), and with deleteStale every dest
+ * file and directory not in source is deleted. With a base from the last sync, see planThreeWay.
+ * Empty when sourceDir does not exist. Sorted by path.
+ */
+export const planSync = async (
+	sourceDir: string,
+	destDir: string,
+	options: SyncDirOptions,
+): Promise<SyncPlanEntry[]> => {
+	if (!(await isDirectory(sourceDir))) return [];
+	if (options.base) return planThreeWay(sourceDir, destDir, options.base, options);
+
+	const symlinks = options.symlinks ?? "follow";
+	const plan: SyncPlanEntry[] = [];
+	for (const [rel, source] of await listFiles(sourceDir, symlinks, options.ignore)) {
+		const sourcePath = join(sourceDir, rel);
+		const destPath = join(destDir, rel);
+		const dest = await statEntry(destPath, symlinks === "copy" ? "copy" : "follow");
+		if (dest === undefined) {
+			plan.push({ path: rel, action: "create" });
+		} else {
+			plan.push({
+				path: rel,
+				action: (await sameFile(sourcePath, destPath, source, dest)) ? "unchanged" : "overwrite",
+			});
+		}
+	}
+
+	if (options.deleteStale && (await isDirectory(destDir))) {
+		const sourcePaths = new Set(await listRelativePaths(sourceDir));
+		plan.push(...(await planStale(destDir, sourcePaths, "", options.ignore)));
+	}
+	return plan.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Copy one file with its permission bits (or, in copy mode, recreate a symlink), or remove the
+ * target when the file is gone. An existing link at the target is replaced, never written through.
+ */
+const copyOrRemove = async (from: string, to: string, symlinks: SymlinkMode): Promise<void> => {
+	const source = await statEntry(from, symlinks);
+	const existing = await lstat(to).catch(() => undefined);
+	if (existing?.isSymbolicLink() || (source?.link !== undefined && existing)) await rm(to, { force: true });
+	if (source === undefined) {
+		await rm(to, { force: true });
+		return;
+	}
+	await mkdir(join(to, ".."), { recursive: true });
+	if (source.link !== undefined) {
+		await symlink(source.link, to);
+		return;
+	}
+	await writeFile(to, await readFile(from));
+	await chmod(to, source.stats.mode & 0o7777);
+};
+
+/** Settle a resolved conflict so both sides end up with the same content */
+const applyResolution = async (
+	sourceDir: string,
+	destDir: string,
+	entry: SyncPlanEntry,
+	labels: SyncSideLabels,
+	symlinks: SymlinkMode,
+): Promise<void> => {
+	const sourcePath = join(sourceDir, entry.path);
+	const destPath = join(destDir, entry.path);
+	if (entry.resolution === "source") {
+		await copyOrRemove(sourcePath, destPath, symlinks);
+	} else if (entry.resolution === "dest") {
+		await copyOrRemove(destPath, sourcePath, symlinks);
+	} else if (entry.resolution === "merge") {
+		const read = (path: string) => readFile(path, "utf-8").catch(() => "");
+		const merged = mergeWithConflictMarkers(
+			await read(sourcePath),
+			await read(destPath),
+			labels.source,
+			labels.dest,
+		);
+		for (const path of [sourcePath, destPath]) {
+			await mkdir(join(path, ".."), { recursive: true });
+			await writeFile(path, merged, "utf-8");
+		}
+	}
+};
+
+/**
+ * Carry out a plan from planSync: copy created/overwritten files, settle resolved conflicts (which
+ * may write to source), then remove deleted paths. Unchanged, kept and unresolved paths are not
+ * touched, so their mtimes stay put and file watchers stay quiet.
+ */
+export const applySyncPlan = async (
+	sourceDir: string,
+	destDir: string,
+	plan: SyncPlanEntry[],
+	options: ApplySyncOptions = {},
+): Promise<SyncSummary> => {
+	const { labels = { source: "source", dest: "dest" }, symlinks = "follow" } = options;
+	const summary: SyncSummary = { copied: 0, skipped: 0, deleted: 0 };
+	for (const entry of plan) {
+		if (entry.action === "create" || entry.action === "overwrite") {
+			await copyOrRemove(join(sourceDir, entry.path), join(destDir, entry.path), symlinks);
+			summary.copied++;
+		} else if (entry.action === "conflict" && entry.resolution) {
+			await applyResolution(sourceDir, destDir, entry, labels, symlinks);
+			summary.copied++;
+		} else if (entry.action !== "delete") {
+			summary.skipped++;
+		}
+	}
+	for (const { path, action } of plan) {
+		if (action !== "delete") continue;
+		await rm(join(destDir, path), { recursive: true, force: true });
+		summary.deleted++;
+	}
+	return summary;
+};
+
+/**
+ * Sync sourceDir to destDir: copy every file that differs (or is missing), then optionally remove
  * destination entries that are not present in source.
  * If sourceDir does not exist, does nothing (caller should log/skip as needed).
  */
-export const syncDir = async (sourceDir: string, destDir: string, options: SyncDirOptions): Promise<void> => {
-	const { deleteStale } = options;
-	const sourceExists = await stat(sourceDir).then(
-		(s) => s.isDirectory(),
-		() => false,
-	);
-	if (!sourceExists) return;
+export const syncDir = async (sourceDir: string, destDir: string, options: SyncDirOptions): Promise<SyncSummary> => {
+	if (!(await isDirectory(sourceDir))) return { copied: 0, skipped: 0, deleted: 0 };
 
 	await mkdir(destDir, { recursive: true });
-	const topEntries = await readdir(sourceDir, { withFileTypes: true });
-	for (const e of topEntries) {
-		const rel = e.name;
-		await copyRecursive(sourceDir, destDir, rel);
-	}
-
-	if (!deleteStale) return;
-	const sourcePaths = new Set(await listRelativePaths(sourceDir));
-	await removeStale(destDir, sourcePaths, "");
+	const plan = await planSync(sourceDir, destDir, options);
+	return applySyncPlan(sourceDir, destDir, plan, { symlinks: options.symlinks });
 };
@@ -0,0 +1,76 @@
+/**
+ * The sync lockfile (<state>/sync-lock.json) remembers, for each repo/global directory pair, the
+ * content hash of every file as of the last push/pull. It is the common base that lets planSync
+ * tell which side changed a file since then.
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { syncLockSchema, type SyncBackupManifest, type SyncLock } from "../shared/schemas.js";
+import { getStateDir } from "./backup.js";
+import { hashFiles, type SyncDirOptions } from "./sync-dir.js";
+
+const lockPath = (stateDir: string): string => join(stateDir, "sync-lock.json");
+
+/** Lock key for a synced directory pair */
+export const syncLockKey = (repoPath: string, globalPath: string): string => `${repoPath}::${globalPath}`;
+
+/** The lockfile, or an empty one when missing or unreadable (every pair then syncs without a base) */
+export const readSyncLock = async (stateDir: string = getStateDir()): Promise<SyncLock> => {
+	try {
+		const parsed = syncLockSchema.safeParse(JSON.parse(await readFile(lockPath(stateDir), "utf-8")));
+		if (parsed.success) return parsed.data;
+	} catch {
+		// first sync
+	}
+	return { version: 1, pairs: {} };
+};
+
+export const writeSyncLock = async (lock: SyncLock, stateDir: string = getStateDir()): Promise<void> => {
+	await mkdir(stateDir, { recursive: true });
+	await writeFile(lockPath(stateDir), JSON.stringify(lock, null, "\t"), "utf-8");
+};
+
+/**
+ * Put back the lock entries a backup recorded (`sync undo`), so the next sync compares against the
+ * base from before the undone sync; a pair that had no entry loses its base again.
+ */
+export const restoreSyncLock = async (
+	pairs: NonNullable<SyncBackupManifest["lock"]>,
+	stateDir: string = getStateDir(),
+): Promise<void> => {
+	const lock = await readSyncLock(stateDir);
+	for (const [key, entry] of Object.entries(pairs)) {
+		if (entry === null) {
+			delete lock.pairs[key];
+		} else {
+			lock.pairs[key] = entry;
+		}
+	}
+	await writeSyncLock(lock, stateDir);
+};
+
+/**
+ * New base for a pair after a sync: files now identical on both sides get their hash; files still
+ * differing (kept or unresolved) keep their previous base, so the next sync sees the same changes.
+ * Files are hashed as the sync planned them (same symlink mode and ignore rules); ignored files drop out.
+ */
+export const lockEntryAfterSync = async (
+	repoPath: string,
+	globalPath: string,
+	previous: Record<string, string> = {},
+	{ symlinks, ignore }: Pick<SyncDirOptions, "symlinks" | "ignore"> = {},
+): Promise<Record<string, string>> => {
+	const repo = await hashFiles(repoPath, symlinks, ignore);
+	const global = await hashFiles(globalPath, symlinks, ignore);
+	const files: Record<string, string> = {};
+	for (const path of [...new Set([...repo.keys(), ...global.keys()])].sort()) {
+		const hash = repo.get(path);
+		const base = previous[path];
+		if (hash !== undefined && hash === global.get(path)) {
+			files[path] = hash;
+		} else if (base !== undefined) {
+			files[path] = base;
+		}
+	}
+	return files;
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { writeFile, mkdir, rm } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { tmpdir } from "node:os";
+import { diffFileSets, verifyRoundtrip } from "../roundtrip.js";
+
+const REPO_RULES = join(dirname(fileURLToPath(import.meta.url)), "..", "..", "..", "rules");
+
+describe("verifyRoundtrip", () => {
+	const tmpDir = join(tmpdir(), "arc-test-roundtrip");
+
+	const write = async (path: string, content: string) => {
+		await mkdir(join(tmpDir, path, ".."), { recursive: true });
+		await writeFile(join(tmpDir, path), content, "utf-8");
+	};
+
+	beforeEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+		await mkdir(tmpDir, { recursive: true });
+	});
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("reports no differences for rules, scoped rules and agents with custom frontmatter", async () => {
+		const description =
+			"Deployment checklist for production releases, long enough that the old one hundred and twenty character cut would have chopped it";
+		await write(
+			"rules/01-approach.mdc",
+			"---\ndescription: Plan first\nalwaysApply: true\n---\n\n# Approach\n\nPlan first. See [Testing](./02-testing.mdc).\n\n## Details\n\nThen implement.\n",
+		);
+		await write(
+			"rules/02-testing.mdc",
+			"---\ndescription: Testing\nglobs: **/*.test.ts\nalwaysApply: false\npriority: 3\n---\n\n# Testing\n\nRun the tests.\n",
+		);
+		await write(
+			"agents/deployer.md",
+			`---\nname: deployer\ndescription: ${description}\ndisable-model-invocation: true\n---\n\n# Deployer\n\nShip it.\n`,
+		);
+
+		const result = await verifyRoundtrip(tmpDir);
+		expect(result.fileCount).toBe(3);
+		expect(result.differences).toEqual([]);
+	});
+
+	it("reproduces the repo's own rules, including H2-only rules and literal tool paths next to placeholders", async () => {
+		const result = await verifyRoundtrip(REPO_RULES);
+		expect(result.fileCount).toBeGreaterThan(0);
+		expect(result.differences).toEqual([]);
+	});
+
+	it("restores only the placeholders each rule used, never in frontmatter", async () => {
+		await write(
+			"rules/01-paths.mdc",
+			"---\ndescription: Rules live in .cursor/rules/\nalwaysApply: true\n---\n\n# Paths\n\nPut rules in `{{RULES_DIR}}` as `*.mdc`.\n",
+		);
+		await write(
+			"rules/02-literal.mdc",
+			"---\nalwaysApply: true\n---\n\n# Literal\n\nCursor reads `.cursor/rules/`.\n",
+		);
+		expect((await verifyRoundtrip(tmpDir)).differences).toEqual([]);
+	});
+
+	it("treats a flat directory of rule files as the rules dir", async () => {
+		await write(
+			"approach.mdc",
+			"---\ndescription: Plan first\nalwaysApply: true\n---\n\n# Approach\n\nPlan first.\n",
+		);
+		expect((await verifyRoundtrip(tmpDir)).differences).toEqual([]);
+	});
+
+	it("reports content the round trip cannot reproduce", async () => {
+		// Every file in a skill directory is named after the skill, so the last one decomposed overwrites SKILL.md
+		await write("skills/deploy/SKILL.md", "---\nname: deploy\ndescription: Ship it\n---\n\n# Deploy\n\nShip it.\n");
+		await write("skills/deploy/NOTES.md", "# Notes\n\nRollback first.\n");
+
+		const { differences } = await verifyRoundtrip(tmpDir);
+		expect(differences.map((d) => [d.path, d.status])).toEqual([
+			["skills/deploy/NOTES.md", "missing"],
+			["skills/deploy/SKILL.md", "modified"],
+		]);
+		expect(differences[1]!.diff).toContain("+# Notes");
+	});
+});
+
+describe("diffFileSets", () => {
+	it("compares frontmatter by value, not YAML formatting", () => {
+		const original = new Map([["rules/a.mdc", "---\ndescription: 'A rule'\n---\n\n# A\n"]]);
+		const roundtripped = new Map([["rules/a.mdc", "---\ndescription: A rule\n---\n\n# A\n"]]);
+		expect(diffFileSets(original, roundtripped)).toEqual([]);
+	});
+
+	it("reports missing, modified and extra files with unified diffs", () => {
+		const original = new Map([
+			["rules/a.mdc", "# A\n\nOld.\n"],
+			["rules/b.mdc", "# B\n"],
+		]);
+		const roundtripped = new Map([
+			["rules/a.mdc", "# A\n\nNew.\n"],
+			["rules/c.mdc", "# C\n"],
+		]);
+		const differences = diffFileSets(original, roundtripped);
+		expect(differences.map((d) => [d.path, d.status])).toEqual([
+			["rules/a.mdc", "modified"],
+			["rules/b.mdc", "missing"],
+			["rules/c.mdc", "extra"],
+		]);
+		expect(differences[0]!.diff).toContain("-Old.");
+		expect(differences[0]!.diff).toContain("+New.");
+		expect(differences[1]!.diff).toContain("+++ /dev/null");
+		expect(differences[2]!.diff).toContain("--- /dev/null");
+	});
+});
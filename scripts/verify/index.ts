@@ -0,0 +1,48 @@
+import { resolve } from "node:path";
+import * as p from "@clack/prompts";
+import { colorizeDiff } from "../shared/cli.js";
+import { TOOL_IDS, type ToolId } from "../shared/types.js";
+import { verifyRoundtrip } from "./roundtrip.js";
+
+export interface VerifyCliOptions {
+	/** Tool format to compose and decompose with (default: cursor) */
+	tool?: ToolId;
+}
+
+/**
+ * `verify-roundtrip <dir>`: compose dir, decompose the result into a temp dir and diff it against
+ * the original. Prints a unified diff per differing file and exits non-zero when anything differs.
+ */
+export const runVerifyRoundtrip = async (inputPath?: string, options: VerifyCliOptions = {}): Promise<void> => {
+	// Any early return fails the verification; the result below sets the final code
+	process.exitCode = 1;
+
+	if (!inputPath) {
+		p.log.error("Usage: verify-roundtrip <dir> [--tool <id>]");
+		return;
+	}
+	if (options.tool && !TOOL_IDS.includes(options.tool)) {
+		p.log.error(`Unknown tool: ${options.tool}`);
+		return;
+	}
+
+	const dir = resolve(inputPath);
+	const { fileCount, differences } = await verifyRoundtrip(dir, options.tool);
+	if (fileCount === 0) {
+		p.log.error(`No rules found in ${dir}`);
+		return;
+	}
+
+	if (differences.length === 0) {
+		p.log.success(`Lossless: ${fileCount} file(s) in ${dir} survive compose → decompose unchanged`);
+		process.exitCode = 0;
+		return;
+	}
+
+	for (const difference of differences) {
+		p.log.warn(`${difference.path} (${difference.status})`);
+		process.stdout.write(`${colorizeDiff(difference.diff)}\n`);
+	}
+	p.log.error(`${differences.length} of ${fileCount} file(s) changed in the round trip.`);
+	process.exitCode = 1;
+};
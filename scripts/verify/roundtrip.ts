@@ -0,0 +1,149 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, relative, resolve } from "node:path";
+import matter from "gray-matter";
+import { compose } from "../compose/composer.js";
+import { decompose } from "../decompose/decomposer.js";
+import { unifiedDiff } from "../shared/diff.js";
+import {
+	ensureBlankLineAfterFrontmatter,
+	quoteGlobs,
+	replaceWithPlaceholders,
+	unquoteGlobs,
+	writeAsDirectory,
+} from "../shared/formats.js";
+import { scanDirectory } from "../shared/scanner.js";
+import type { ToolId } from "../shared/types.js";
+
+/** A file that did not survive compose → decompose unchanged */
+export interface RoundtripDifference {
+	/** Path relative to the verified directory */
+	path: string;
+	/** missing: not reproduced by decompose; modified: content differs; extra: produced but not in the original */
+	status: "missing" | "modified" | "extra";
+	/** Unified diff from the original file to the round-tripped one */
+	diff: string;
+}
+
+export interface RoundtripResult {
+	/** Number of files composed */
+	fileCount: number;
+	differences: RoundtripDifference[];
+}
+
+const CANONICAL_DIRS = ["rules", "skills", "agents", "commands"];
+
+/** All files under dir, recursively */
+const listFiles = async (dir: string): Promise<string[]> => {
+	let entries;
+	try {
+		entries = await readdir(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+	const files: string[] = [];
+	for (const entry of entries) {
+		const fullPath = join(dir, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await listFiles(fullPath)));
+		} else {
+			files.push(fullPath);
+		}
+	}
+	return files;
+};
+
+/**
+ * Re-serialize a file's frontmatter the way writeAsDirectory does, so YAML quoting and line
+ * folding don't count as differences; the values and their key order still do.
+ */
+const normalizeFrontmatter = (content: string): string => {
+	if (!content.startsWith("---")) return content;
+	const parsed = matter(quoteGlobs(content));
+	return ensureBlankLineAfterFrontmatter(unquoteGlobs(matter.stringify(parsed.content, parsed.data)));
+};
+
+/** Compare original and round-tripped files by relative path (frontmatter by value, see normalizeFrontmatter) */
+export const diffFileSets = (
+	original: Map<string, string>,
+	roundtripped: Map<string, string>,
+): RoundtripDifference[] => {
+	const differences: RoundtripDifference[] = [];
+	for (const [path, raw] of original) {
+		const content = normalizeFrontmatter(raw);
+		const found = roundtripped.get(path);
+		const actual = found === undefined ? undefined : normalizeFrontmatter(found);
+		if (actual === undefined) {
+			differences.push({
+				path,
+				status: "missing",
+				diff: unifiedDiff(content, "", { fromFile: `a/${path}`, toFile: "/dev/null" }),
+			});
+		} else if (actual !== content) {
+			const diff = unifiedDiff(content, actual, { fromFile: `a/${path}`, toFile: `b/${path}` });
+			differences.push({
+				path,
+				status: "modified",
+				// Texts that differ only in a trailing newline produce no line diff
+				diff: diff || `--- a/${path}\n+++ b/${path}\n(trailing newline differs)\n`,
+			});
+		}
+	}
+	for (const [path, content] of roundtripped) {
+		if (original.has(path)) continue;
+		differences.push({
+			path,
+			status: "extra",
+			diff: unifiedDiff("", content, { fromFile: "/dev/null", toFile: `b/${path}` }),
+		});
+	}
+	return differences.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/** The {{PLACEHOLDER}} names a rule body uses */
+const placeholderNames = (body: string): string[] => [
+	...new Set([...body.matchAll(/\{\{(\w+)\}\}/g)].map((match) => match[1]!)),
+];
+
+/**
+ * Compose every rule in dir for tool with its name and frontmatter embedded, decompose the result
+ * into a temp dir (split at the > [!name] callouts, frontmatter from the composed callouts, headings
+ * decremented back) and compare it file by file with the original. Placeholders are restored only
+ * in the bodies of the rules that used them, and only the ones each rule used, so literal tool
+ * paths elsewhere survive.
+ */
+export const verifyRoundtrip = async (dir: string, tool: ToolId = "cursor"): Promise<RoundtripResult> => {
+	const root = resolve(dir);
+	const { rules } = await scanDirectory(root);
+	const original = new Map(rules.map((rule) => [relative(root, rule.path), rule.rawContent]));
+	// A flat directory of rule files is decomposed into <tmp>/rules/, so compare against that
+	const flat = [...original.keys()].every((path) => !CANONICAL_DIRS.some((sub) => path.startsWith(`${sub}/`)));
+
+	const { content } = await compose(rules, tool, { embedFrontmatter: true });
+	const used = new Map(rules.map((rule) => [rule.name, placeholderNames(rule.body)]));
+	const decomposed = decompose(content, {
+		tool,
+		numbered: false,
+		placeholders: false,
+		decrementHeadings: true,
+		names: true,
+	}).map((rule) => {
+		const variables = used.get(rule.name) ?? [];
+		return variables.length > 0
+			? { ...rule, body: replaceWithPlaceholders(rule.body, tool, variables).content }
+			: rule;
+	});
+
+	const tmp = await mkdtemp(join(tmpdir(), "rule-composer-roundtrip-"));
+	try {
+		await writeAsDirectory(decomposed, tmp, tool);
+		const outRoot = flat ? join(tmp, "rules") : tmp;
+		const roundtripped = new Map<string, string>();
+		for (const path of await listFiles(outRoot)) {
+			roundtripped.set(relative(outRoot, path), await readFile(path, "utf-8"));
+		}
+		return { fileCount: rules.length, differences: diffFileSets(original, roundtripped) };
+	} finally {
+		await rm(tmp, { recursive: true, force: true });
+	}
+};
@@ -8,7 +8,7 @@ export default defineConfig({
 		"scripts/compose/variants.ts",
 	],
 	format: ["esm"],
-	target: "node18",
+	target: "node20",
 	outDir: "dist",
 	clean: true,
 	splitting: true,